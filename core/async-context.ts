@@ -0,0 +1,167 @@
+import {
+  Context,
+  getContextKeyName,
+  type ContextKey,
+  type ContextNamespace,
+  type ContextRunner,
+  type ContextStore,
+} from "./context";
+
+export type AsyncContextVariableOptions<T> = {
+  /**
+   * Debugging label, as in the TC39 proposal.
+   */
+  name?: string;
+  /**
+   * Returned by `get()` outside any `run` of this variable.
+   */
+  defaultValue?: T;
+  /**
+   * Binds the variable to an existing context key so `Context.getValue(key)`
+   * and `variable.get()` see the same value. Defaults to a private key that
+   * never shows up in snapshots or logs.
+   */
+  key?: string | ContextKey<T>;
+  /**
+   * Namespace holding the value. Defaults to `Context`.
+   */
+  namespace?: ContextNamespace;
+};
+
+/**
+ * Namespaces captured by `AsyncContext.Snapshot`.
+ */
+const snapshotNamespaces = new Set<ContextNamespace>([Context]);
+
+/**
+ * A single context value with the shape of the TC39 `AsyncContext.Variable`,
+ * stored in a `Context` namespace so it works alongside the static API.
+ *
+ * @example
+ * ```ts
+ * const requestId = new AsyncContext.Variable<string>({ name: "requestId" });
+ *
+ * requestId.run("req_1", async () => {
+ *   await Promise.resolve();
+ *   requestId.get(); // "req_1"
+ * });
+ * requestId.get(); // undefined
+ * ```
+ */
+export class AsyncContextVariable<T> {
+  readonly name: string;
+  readonly defaultValue: T | undefined;
+  private readonly key: string | symbol;
+  private readonly namespace: ContextNamespace;
+
+  constructor(options: AsyncContextVariableOptions<T> = {}) {
+    this.name = options.name ?? "";
+    this.defaultValue = options.defaultValue;
+    this.key = options.key ? getContextKeyName(options.key) : Symbol(this.name);
+    this.namespace = options.namespace ?? Context;
+    snapshotNamespaces.add(this.namespace);
+  }
+
+  /**
+   * Runs the callback with the variable set to `value`; the previous value is
+   * restored when the callback returns. Other context values are inherited as
+   * with `Context.runWith`.
+   *
+   * @example
+   * ```ts
+   * tenant.run("t_1", () => {
+   *   tenant.run("t_2", () => tenant.get()); // "t_2"
+   *   tenant.get(); // "t_1"
+   * });
+   * ```
+   */
+  run<R, A extends unknown[]>(value: T, callback: (...args: A) => R, ...args: A): R {
+    const values = { [this.key]: value } as ContextStore;
+    return this.namespace.runWith(values, () => callback(...args));
+  }
+
+  /**
+   * Returns the value set by the innermost active `run`, or `defaultValue`.
+   *
+   * @example
+   * ```ts
+   * const locale = new AsyncContext.Variable({ defaultValue: "en-US" });
+   * locale.get(); // "en-US"
+   * ```
+   */
+  get(): T | undefined {
+    if (typeof this.key === "string") {
+      if (!this.namespace.has(this.key)) return this.defaultValue;
+      return this.namespace.getValue<T>(this.key);
+    }
+    const store = this.namespace.getStore<ContextStore>();
+    const values = store as Record<symbol, unknown> | undefined;
+    if (!values || !(this.key in values)) return this.defaultValue;
+    return values[this.key] as T;
+  }
+}
+
+/**
+ * Captures every context value (the default `Context` store and every
+ * namespace used by a variable) at construction, mirroring the TC39
+ * `AsyncContext.Snapshot`.
+ *
+ * @example
+ * ```ts
+ * const snapshot = Context.run({ requestId: "req_1" }, () => new AsyncContext.Snapshot());
+ * snapshot.run(() => Context.getValue("requestId")); // "req_1"
+ * ```
+ */
+export class AsyncContextSnapshot {
+  private readonly runners: ContextRunner[];
+
+  constructor() {
+    this.runners = [...snapshotNamespaces].map((namespace) => namespace.capture());
+  }
+
+  /**
+   * Returns a function that runs `callback` inside a snapshot taken now.
+   *
+   * @example
+   * ```ts
+   * emitter.on("data", AsyncContext.Snapshot.wrap((chunk) => handle(chunk)));
+   * ```
+   */
+  static wrap<F extends (...args: any[]) => any>(callback: F): F {
+    const snapshot = new AsyncContextSnapshot();
+    return function wrapped(this: unknown, ...args: Parameters<F>) {
+      return snapshot.run(() => callback.apply(this, args));
+    } as F;
+  }
+
+  /**
+   * Runs the callback with the captured values restored.
+   *
+   * @example
+   * ```ts
+   * snapshot.run((id) => requestId.get() === id, "req_1");
+   * ```
+   */
+  run<R, A extends unknown[]>(callback: (...args: A) => R, ...args: A): R {
+    return this.runners.reduceRight<() => R>(
+      (next, runner) => () => runner(next),
+      () => callback(...args)
+    )();
+  }
+}
+
+/**
+ * Proposal-shaped entry point: `new AsyncContext.Variable()` and
+ * `new AsyncContext.Snapshot()`.
+ *
+ * @example
+ * ```ts
+ * import { AsyncContext } from "@marceloraineri/async-context";
+ *
+ * const user = new AsyncContext.Variable<{ id: string }>({ name: "user" });
+ * ```
+ */
+export const AsyncContext = {
+  Variable: AsyncContextVariable,
+  Snapshot: AsyncContextSnapshot,
+} as const;
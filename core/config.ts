@@ -1,3 +1,4 @@
+import { CHILD_CONTEXT_ENV, decodeChildContext } from "./integrations/child-process";
 import { createLogger, type LoggerOptions, type LogLevel } from "./logging/logger";
 
 export type LoggerPreset = "development" | "production" | "test";
@@ -13,6 +14,12 @@ export type LoggerEnvOptions = {
   defaults?: LoggerOptions;
   name?: string;
   onWarning?: (warning: LoggerEnvWarning) => void;
+  /**
+   * Adds the context inherited from a parent process (`ASYNC_CONTEXT`, see
+   * `spawnWithContext`) to the logger bindings.
+   * @default true
+   */
+  inheritContext?: boolean;
 };
 
 export type LoggerEnvResolution = {
@@ -397,6 +404,20 @@ export function resolveLoggerEnv(
   const name = options.name ?? pickEnv(env, ["LOG_NAME", "LOGGER_NAME"]);
   if (name) resolved.name = name;
 
+  const inheritedEntry = pickEnvEntry(env, [CHILD_CONTEXT_ENV]);
+  if (inheritedEntry && options.inheritContext !== false) {
+    const inherited = decodeChildContext(inheritedEntry.value);
+    if (inherited === undefined) {
+      warnInvalid(
+        warnings,
+        inheritedEntry,
+        "Invalid inherited context. Use encodeChildContext."
+      );
+    } else {
+      resolved.bindings = { ...inherited, ...(resolved.bindings ?? {}) };
+    }
+  }
+
   const bindingsEntry = pickEnvEntry(env, ["LOG_BINDINGS", "LOGGER_BINDINGS"]);
   const bindings = parseBindingsEnv(bindingsEntry?.value);
   if (bindingsEntry && bindings === undefined) {
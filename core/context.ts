@@ -1,6 +1,76 @@
 import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "node:crypto";
+import { performance, type EventLoopUtilization } from "node:perf_hooks";
+import { pipeline } from "node:stream";
+import v8 from "node:v8";
+import type { Logger, LogLevel } from "./logging/logger";
+import {
+  ContextValidationError,
+  validateContextValues,
+  type ContextSchema,
+  type ContextSchemaOptions,
+} from "./schema";
 
-export type ContextStore = Record<string, any>;
+/**
+ * Registry of typed context keys, extended through module augmentation.
+ * Registered keys type `Context.getValue`, `addValue`, `addObjectValue`,
+ * `runWith`, and the seed factories of the framework integrations.
+ *
+ * @example
+ * ```ts
+ * declare module "@marceloraineri/async-context" {
+ *   interface AsyncContextRegistry {
+ *     tenantId: string;
+ *     user: { id: number };
+ *   }
+ * }
+ * ```
+ */
+export interface AsyncContextRegistry {}
+
+/**
+ * Registry options, extended through module augmentation.
+ * Declaring `strict: true` turns unregistered keys into compile errors.
+ *
+ * @example
+ * ```ts
+ * declare module "@marceloraineri/async-context" {
+ *   interface AsyncContextRegistryConfig {
+ *     strict: true;
+ *   }
+ * }
+ * ```
+ */
+export interface AsyncContextRegistryConfig {}
+
+type HasRegistry = [keyof AsyncContextRegistry] extends [never] ? false : true;
+
+type StrictRegistry = AsyncContextRegistryConfig extends { strict: true }
+  ? true
+  : false;
+
+export type RegisteredContextKey = Extract<keyof AsyncContextRegistry, string>;
+
+export type RegisteredContextValue<K extends RegisteredContextKey> =
+  AsyncContextRegistry[K];
+
+/**
+ * Resolves to `K` for keys outside the registry, or `never` when the key is
+ * registered (or when the registry is strict).
+ */
+export type UnregisteredContextKey<K extends string> = StrictRegistry extends true
+  ? never
+  : K extends RegisteredContextKey
+    ? never
+    : K;
+
+type UntypedContextKey = StrictRegistry extends true ? never : string;
+
+export type ContextStore = HasRegistry extends false
+  ? Record<string, any>
+  : StrictRegistry extends true
+    ? Partial<AsyncContextRegistry>
+    : Partial<AsyncContextRegistry> & Record<string, unknown>;
 
 export type PerformanceError = {
   name?: string;
@@ -9,11 +79,45 @@ export type PerformanceError = {
 
 export type PerformanceEntry = {
   name: string;
+  /**
+   * Set by `measure`; nested entries reference it as `parentId`.
+   */
+  id?: string;
+  /**
+   * Id of the `measure` running when the entry was recorded.
+   */
+  parentId?: string;
   durationMs: number;
   startedAt: number;
   endedAt: number;
   data?: Record<string, unknown>;
   error?: PerformanceError;
+  /**
+   * Resource deltas captured by a sampled `measure`.
+   */
+  resources?: PerformanceResourceUsage;
+};
+
+/**
+ * Process-wide resource deltas over a measurement, so concurrent work in the
+ * same process is included.
+ */
+export type PerformanceResourceUsage = {
+  cpuUserMs: number;
+  cpuSystemMs: number;
+  heapUsedDeltaBytes: number;
+  /**
+   * Share of the interval (0..1) the event loop spent busy.
+   */
+  eventLoopUtilization: number;
+};
+
+export type PerformanceResourceUsageOptions = {
+  /**
+   * Fraction (0..1) of `measure` calls that capture resource usage.
+   * @default 1
+   */
+  sampleRate?: number;
 };
 
 export type PerformanceRecordOptions = {
@@ -21,11 +125,395 @@ export type PerformanceRecordOptions = {
   mode?: "append" | "overwrite";
 };
 
+/**
+ * Node of `Context.performanceTree()`. `selfMs` is the part of `totalMs` not
+ * covered by any child.
+ */
+export type PerformanceTreeNode = {
+  id?: string;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  totalMs: number;
+  selfMs: number;
+  data?: Record<string, unknown>;
+  error?: PerformanceError;
+  resources?: PerformanceResourceUsage;
+  children: PerformanceTreeNode[];
+};
+
+export type PerformanceSummaryOptions = Pick<PerformanceRecordOptions, "key"> & {
+  /**
+   * Splits each name's group by this `data` field, e.g. `"table"`.
+   */
+  groupBy?: string;
+};
+
+export type PerformanceSummaryGroup = {
+  name: string;
+  /**
+   * Value of the `groupBy` field, when set on the entries.
+   */
+  group?: string;
+  count: number;
+  errors: number;
+  totalMs: number;
+  minMs: number;
+  maxMs: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+};
+
+/**
+ * Result of `Context.performanceSummary()`. Groups are ordered by `totalMs`,
+ * largest first; `totalMs` sums every entry, so nested entries overlap.
+ */
+export type PerformanceSummary = {
+  count: number;
+  errors: number;
+  totalMs: number;
+  groups: PerformanceSummaryGroup[];
+};
+
+export type PerformanceBudgetViolation = {
+  /**
+   * Budget pattern the entry matched.
+   */
+  budget: string;
+  maxMs: number;
+  overByMs: number;
+  entry: PerformanceEntry;
+  /**
+   * Shallow copy of the context the entry was recorded in, like
+   * `snapshot({ lazy: "placeholder" })` without performance entries. Taken
+   * without expiring values (expired ones are left out) or evaluating lazy ones.
+   */
+  context?: ContextStore;
+};
+
+export type PerformanceBudgetOptions = {
+  /**
+   * Maximum duration per entry name. Keys are glob patterns where `*` matches
+   * any characters and `?` a single one, e.g. `{ "db.*": 50, request: 500 }`.
+   */
+  budgets: Record<string, number>;
+  onViolation?: (violation: PerformanceBudgetViolation) => void;
+  /**
+   * Logs each violation through this logger.
+   */
+  logger?: Pick<Logger, "log">;
+  /**
+   * @default "warn"
+   */
+  level?: LogLevel;
+};
+
+type ResourceUsageStart = {
+  cpu: NodeJS.CpuUsage;
+  heapUsed: number;
+  eventLoop: EventLoopUtilization;
+};
+
+type PerformanceBudgetConfig = Omit<PerformanceBudgetOptions, "budgets"> & {
+  rules: Array<{ budget: string; maxMs: number; pattern: RegExp }>;
+};
+
 export type PerformanceMeasureOptions = PerformanceRecordOptions & {
   data?: Record<string, unknown>;
   now?: () => number;
+  /**
+   * Takes `startedAt`, `endedAt` and `durationMs` from
+   * `performance.timeOrigin + performance.now()` instead of `now`. Sampled
+   * resource captures always do.
+   * @default false
+   */
+  highResolution?: boolean;
+  /**
+   * Captures CPU, heap and event loop deltas into `entry.resources`. Defaults
+   * to the namespace setting from `setResourceUsage`.
+   */
+  resourceUsage?: boolean | PerformanceResourceUsageOptions;
+};
+
+export type ContextKeyOptions<T> = {
+  /**
+   * Value returned by `Context.get` when the key is missing.
+   */
+  default?: T;
+  /**
+   * Predicate run by `Context.set` before writing the value.
+   */
+  validate?: (value: T) => boolean;
+};
+
+export type ContextKey<T> = {
+  readonly name: string;
+  readonly default?: T;
+  readonly validate?: (value: T) => boolean;
+};
+
+export type DefaultedContextKey<T> = ContextKey<T> & { readonly default: T };
+
+export type ContextKeyLike = string | ContextKey<any>;
+
+export type ContextNamespace = typeof Context;
+
+export type ContextRunOptions = {
+  /**
+   * Keys that can be written once and then cannot be overwritten, removed, or reset.
+   */
+  readOnlyKeys?: ContextKeyLike[];
+  /**
+   * Keys that can be updated but cannot be removed or reset.
+   */
+  protectedKeys?: ContextKeyLike[];
+};
+
+export type ContextJoinReducer = (
+  parentValue: unknown,
+  childValue: unknown,
+  key: string
+) => unknown;
+
+/**
+ * `last-write-wins` copies the child value, `append` adds the child's new array
+ * items to the parent array, `ignore` skips the key, and a function reduces
+ * both values into the value stored in the parent.
+ */
+export type ContextJoinStrategy =
+  | "last-write-wins"
+  | "append"
+  | "ignore"
+  | ContextJoinReducer;
+
+export type ContextJoinOptions = {
+  /**
+   * Strategy for keys without an entry in `keys`.
+   * @default "last-write-wins"
+   */
+  strategy?: ContextJoinStrategy;
+  /**
+   * Per-key strategies. Keys written by `recordPerformance` default to `append`.
+   */
+  keys?: Record<string, ContextJoinStrategy>;
+};
+
+export type ContextRunWithOptions = ContextRunOptions & {
+  /**
+   * Copies inherited objects and arrays the first time the child reads or
+   * mutates them through the `Context` API, so the parent never sees child writes.
+   * @default false
+   */
+  copyOnWrite?: boolean;
+  /**
+   * Joins the child's writes back into the parent when the callback succeeds.
+   * @default false
+   */
+  join?: boolean | ContextJoinOptions;
+  /**
+   * Appends performance entries recorded in the child to the parent when the
+   * callback settles.
+   * @default true
+   */
+  mergePerformance?: boolean;
+};
+
+export type ContextFanOutOptions = {
+  /**
+   * Maximum number of branches running at the same time: a positive integer,
+   * or `Infinity` for no limit.
+   * @default Infinity
+   */
+  concurrency?: number;
+  /**
+   * Name of the performance entry measuring the whole fan-out. Branches are
+   * measured as `${name}#${index}`.
+   * @default "Context.all" or "Context.map"
+   */
+  name?: string;
+  /**
+   * Key that stores the branch index in each branch context.
+   * @default "branch"
+   */
+  branchKey?: string;
+  /**
+   * Records performance entries for the fan-out and each branch.
+   * @default true
+   */
+  measure?: boolean;
+  /**
+   * Gives each branch copy-on-write access to the parent store.
+   * @default true
+   */
+  copyOnWrite?: boolean;
+  /**
+   * Joins the writes of each successful branch back into the parent.
+   * @default true
+   */
+  join?: boolean | ContextJoinOptions;
+};
+
+/**
+ * Runs a function inside a captured context store.
+ */
+export type ContextRunner = <T>(callback: () => T) => T;
+
+export type ContextEmitterLike = {
+  emit: (event: string | symbol, ...args: any[]) => boolean;
+};
+
+export type ContextPipelineStream =
+  | NodeJS.ReadableStream
+  | NodeJS.WritableStream
+  | NodeJS.ReadWriteStream;
+
+export type ContextPipelineCallback = (error: NodeJS.ErrnoException | null) => void;
+
+export type ContextProtectOptions = {
+  /**
+   * Also rejects overwrites of the keys once they are set.
+   * @default false
+   */
+  readOnly?: boolean;
+};
+
+export type ContextLazyPolicy = "skip" | "evaluate" | "placeholder";
+
+export type ContextSnapshotOptions = {
+  /**
+   * How lazy and computed values that were not evaluated yet appear:
+   * `skip` omits them, `evaluate` runs their factories, and `placeholder`
+   * replaces them with `"[Lazy]"`.
+   * @default "skip"
+   */
+  lazy?: ContextLazyPolicy;
+};
+
+export type ContextValueOptions = {
+  /**
+   * Milliseconds after which the value expires. Expiry is checked on read.
+   */
+  ttlMs?: number;
+  /**
+   * Called when the value expires. Return a value to refresh the key
+   * (restarting the TTL) or `undefined` to drop it.
+   */
+  onExpire?: (key: string, value: unknown) => unknown;
+};
+
+export type ContextAuditOperation =
+  | "addValue"
+  | "addObjectValue"
+  | "addOptions"
+  | "addLazy"
+  | "addComputed"
+  | "setDefault"
+  | "remove"
+  | "reset"
+  | "expire"
+  | "join"
+  | "recordPerformance";
+
+export type ContextAuditEntry = {
+  operation: ContextAuditOperation;
+  key: string;
+  /**
+   * Summary of the value before the mutation, when the key existed.
+   */
+  previous?: string;
+  /**
+   * Summary of the value after the mutation, when the key still exists.
+   */
+  next?: string;
+  timestamp: number;
+  /**
+   * First stack frame outside the library, e.g. `handler (/app/routes.ts:12:5)`.
+   */
+  callSite?: string;
+};
+
+export type ContextAuditOptions = {
+  /**
+   * Maximum entries kept per store; the oldest entries are dropped first.
+   * @default 100
+   */
+  maxEntries?: number;
+  /**
+   * Records the call site of each mutation.
+   * @default true
+   */
+  captureCallSite?: boolean;
+  /**
+   * Records value summaries. Disable when values may hold secrets.
+   * @default true
+   */
+  includeValues?: boolean;
+  /**
+   * Maximum length of value summaries.
+   * @default 80
+   */
+  maxValueLength?: number;
+};
+
+export type ContextHistoryOptions = {
+  /**
+   * Redacts a recorded value before it is summarized. Receives a copy of the
+   * value; a string returned in place of the value (e.g. a redaction
+   * placeholder) is used as the summary as is.
+   */
+  redact?: (key: string, value: unknown) => unknown;
+};
+
+type ContextAuditChange = { previous?: unknown; next?: unknown };
+
+type ContextAuditValue = { text: string; json: boolean };
+
+type ContextAuditValues = {
+  previous?: ContextAuditValue;
+  next?: ContextAuditValue;
+  maxLength: number;
+};
+
+type ContextFork = {
+  parent: ContextStore;
+  baseline: Map<string, unknown>;
+  lengths: Map<string, number>;
+  shared: Set<string>;
+  written: Set<string>;
+};
+
+type ContextValueExpiry = {
+  expiresAt: number;
+  ttlMs: number;
+  onExpire?: (key: string, value: unknown) => unknown;
+};
+
+type LazyContextValue = {
+  readonly [LAZY_VALUE]: "lazy" | "computed";
+  readonly factory: () => unknown;
+  evaluated?: { value: unknown };
+  readonly computed: WeakMap<ContextStore, unknown>;
+};
+
+type ContextKeyProtection = {
+  readOnly: Set<string>;
+  protected: Set<string>;
 };
 
+const DEFAULT_NAMESPACE = "default";
+const LAZY_VALUE = Symbol("asyncContext.lazyValue");
+const LAZY_PLACEHOLDER = "[Lazy]";
+const namespaces = new Map<string, ContextNamespace>();
+const keyProtection = new WeakMap<ContextStore, ContextKeyProtection>();
+const valueExpiry = new WeakMap<ContextStore, Map<string, ContextValueExpiry>>();
+const auditTrails = new WeakMap<ContextStore, ContextAuditEntry[]>();
+const auditValues = new WeakMap<ContextAuditEntry, ContextAuditValues>();
+const forks = new WeakMap<ContextStore, ContextFork>();
+const performanceKeys = new WeakMap<ContextStore, Set<string>>();
+const BOUND_EMIT = Symbol("asyncContext.boundEmit");
+let moduleFile: string | undefined;
+
 /**
  * Provides an application-wide asynchronous context using Node.js AsyncLocalStorage.
  * Allows storing and retrieving key/value data within the active async execution flow.
@@ -42,7 +530,7 @@ export type PerformanceMeasureOptions = PerformanceRecordOptions & {
  */
 export class Context {
   /**
-   * Singleton instance of AsyncLocalStorage.
+   * AsyncLocalStorage instance backing this namespace.
    * @type {AsyncLocalStorage<ContextStore>}
    *
    * @example
@@ -53,21 +541,71 @@ export class Context {
   public static asyncLocalStorageInstance: AsyncLocalStorage<ContextStore>;
 
   /**
-   * Private constructor initializes the AsyncLocalStorage instance.
-   * Called automatically when the instance does not yet exist.
+   * Name of the namespace. The static `Context` is the `"default"` namespace.
+   *
+   * @example
+   * ```ts
+   * Context.createNamespace("billing").namespaceName; // "billing"
+   * ```
+   */
+  public static namespaceName = DEFAULT_NAMESPACE;
+
+  /**
+   * Schema registered through `setSchema`, if any.
+   * @private
+   */
+  private static schemaConfig?: {
+    schema: ContextSchema;
+    options: ContextSchemaOptions;
+  };
+
+  /**
+   * Clock used for value expiry, replaceable through `setClock`.
+   * @private
+   */
+  private static clock: () => number = Date.now;
+
+  /**
+   * Audit settings registered through `setAudit`, if enabled.
+   * @private
+   */
+  private static auditConfig?: Required<ContextAuditOptions>;
+
+  /**
+   * Budgets registered through `setPerformanceBudgets`, if any.
+   * @private
+   */
+  private static budgetConfig?: PerformanceBudgetConfig;
+
+  /**
+   * Default resource capture of `measure`, set through `setResourceUsage`.
+   * @private
+   */
+  private static resourceUsageConfig?: PerformanceResourceUsageOptions;
+
+  /**
+   * Id of the running `measure`, the parent of entries recorded inside it.
    * @private
+   */
+  private static measureStorage = new AsyncLocalStorage<string>();
+
+  /**
+   * Protected constructor initializes the AsyncLocalStorage instance.
+   * Called automatically when the instance does not yet exist.
+   * @protected
    *
    * @example
    * ```ts
    * // Called internally via Context.getInstance()
    * ```
    */
-  private constructor() {
-    Context.asyncLocalStorageInstance = new AsyncLocalStorage();
+  protected constructor() {
+    (new.target as ContextNamespace).asyncLocalStorageInstance =
+      new AsyncLocalStorage();
   }
 
   /**
-   * Returns the global AsyncLocalStorage instance, creating it if necessary.
+   * Returns the AsyncLocalStorage instance of this namespace, creating it if necessary.
    *
    * @returns {AsyncLocalStorage<ContextStore>} The AsyncLocalStorage singleton.
    *
@@ -77,418 +615,2327 @@ export class Context {
    * ```
    */
   static getInstance(): AsyncLocalStorage<ContextStore> {
-    if (!Context.asyncLocalStorageInstance) {
-      new Context();
+    if (!this.asyncLocalStorageInstance) {
+      new this();
     }
-    return Context.asyncLocalStorageInstance;
+    return this.asyncLocalStorageInstance;
   }
 
   /**
-   * Returns the current context store, if any.
+   * Returns an isolated namespace with the full `Context` API backed by its own
+   * AsyncLocalStorage. Calling it again with the same name returns the same namespace.
    *
    * @example
    * ```ts
-   * const store = Context.getStore();
+   * const BillingContext = Context.createNamespace("billing");
+   *
+   * BillingContext.run({ invoiceId: "inv_1" }, () => {
+   *   BillingContext.getValue("invoiceId"); // "inv_1"
+   *   Context.getStore(); // undefined
+   * });
    * ```
    */
-  static getStore<T extends ContextStore = ContextStore>(): T | undefined {
-    return Context.getInstance().getStore() as T | undefined;
+  static createNamespace(name: string): ContextNamespace {
+    if (name === DEFAULT_NAMESPACE) return Context;
+    const existing = namespaces.get(name);
+    if (existing) return existing;
+
+    const namespace = class extends Context {};
+    bindStaticMethods(namespace);
+    namespace.namespaceName = name;
+    namespace.asyncLocalStorageInstance = new AsyncLocalStorage();
+    namespace.schemaConfig = undefined;
+    namespace.clock = Date.now;
+    namespace.auditConfig = undefined;
+    namespace.budgetConfig = undefined;
+    namespace.resourceUsageConfig = undefined;
+    namespace.measureStorage = new AsyncLocalStorage();
+    namespaces.set(name, namespace);
+    return namespace;
   }
 
   /**
-   * Returns the current context store, throwing when none exists.
-   *
-   * @throws {Error} If called outside of an active context.
+   * Registers a schema validated on `run`, `runWith`, `enterWith`, and every
+   * mutation of this namespace. Pass `undefined` to remove it.
    *
    * @example
    * ```ts
-   * const store = Context.requireStore();
+   * import { Context, schema } from "@marceloraineri/async-context";
+   *
+   * Context.setSchema(
+   *   { tenantId: schema.string(), user: schema.object({ id: schema.number() }) },
+   *   { mode: "warn", onInvalid: (error) => console.warn(error.issues) }
+   * );
    * ```
    */
-  static requireStore<T extends ContextStore = ContextStore>(): T {
-    const contextObject = Context.getStore<T>();
-    if (!contextObject)
-      throw new Error(
-        "No active context found. Use Context.run(...) or the context middleware."
-      );
-    return contextObject;
+  static setSchema(
+    schema: ContextSchema | undefined,
+    options: ContextSchemaOptions = {}
+  ): void {
+    this.schemaConfig = schema ? { schema, options } : undefined;
   }
 
   /**
-   * Runs the provided callback inside a new async context.
+   * Returns the schema registered on this namespace, if any.
    *
    * @example
    * ```ts
-   * Context.run({ requestId: "req_1" }, () => {
-   *   console.log(Context.getValue("requestId"));
-   * });
+   * const schema = Context.getSchema();
    * ```
    */
-  static run<T>(callback: () => T): T;
-  static run<T>(initialStore: ContextStore, callback: () => T): T;
-  static run<T>(
-    initialStoreOrCallback: ContextStore | (() => T),
-    maybeCallback?: () => T
-  ): T {
-    const initialStore =
-      typeof initialStoreOrCallback === "function" ? {} : initialStoreOrCallback;
-    const callback =
-      typeof initialStoreOrCallback === "function"
-        ? (initialStoreOrCallback as () => T)
-        : maybeCallback;
-
-    if (!callback) {
-      throw new Error("Context.run requires a callback.");
-    }
-
-    return Context.getInstance().run(initialStore ?? {}, callback);
-  }
+  static getSchema(): ContextSchema | undefined {
+    return this.schemaConfig?.schema;
+  }
 
   /**
-   * Runs the callback inside a new child context derived from the current store.
-   * Useful for creating a scoped overlay without mutating the parent store.
+   * Replaces the clock used to expire values added with `ttlMs`.
+   * Call without arguments to restore `Date.now`.
    *
    * @example
    * ```ts
-   * Context.run({ requestId: "req_1" }, () => {
-   *   Context.runWith({ feature: "beta" }, () => {
-   *     console.log(Context.getStore());
-   *   });
-   * });
+   * let now = 0;
+   * Context.setClock(() => now);
    * ```
    */
-  static runWith<T>(values: ContextStore, callback: () => T): T {
-    const parentStore = Context.getStore<ContextStore>();
-    const baseStore = parentStore ? { ...parentStore } : {};
-    return Context.getInstance().run({ ...baseStore, ...values }, callback);
+  static setClock(clock: () => number = Date.now): void {
+    this.clock = clock;
   }
 
   /**
-   * Enters the given store for the current execution (advanced usage).
+   * Enables (or disables with `false`) the mutation audit trail of this
+   * namespace. Every mutation of the active store is recorded with the key,
+   * value summaries, a timestamp, and the call site.
    *
    * @example
    * ```ts
-   * Context.enterWith({ requestId: "req_1" });
+   * Context.setAudit({ maxEntries: 50 });
+   *
+   * Context.run({}, () => {
+   *   Context.addValue("tenantId", "t_1");
+   *   Context.history(); // [{ operation: "addValue", key: "tenantId", next: "\"t_1\"", ... }]
+   * });
    * ```
    */
-  static enterWith(store: ContextStore): void {
-    Context.getInstance().enterWith(store);
+  static setAudit(options: ContextAuditOptions | boolean = true): void {
+    if (options === false) {
+      this.auditConfig = undefined;
+      return;
+    }
+    const config = options === true ? {} : options;
+    this.auditConfig = {
+      maxEntries: config.maxEntries ?? 100,
+      captureCallSite: config.captureCallSite ?? true,
+      includeValues: config.includeValues ?? true,
+      maxValueLength: config.maxValueLength ?? 80,
+    };
   }
 
   /**
-   * Returns a shallow copy of the active store, or undefined when no context exists.
+   * Returns the audit trail of the active store (oldest first). Empty when the
+   * audit is disabled or no context exists. With `redact`, value summaries are
+   * rebuilt from the recorded values after redaction, so nested secrets never
+   * reach the summary.
    *
    * @example
    * ```ts
-   * const snapshot = Context.snapshot();
+   * for (const entry of Context.history()) {
+   *   console.log(entry.operation, entry.key, entry.callSite);
+   * }
+   * Context.history({ redact: (key, value) => (key === "token" ? "[REDACTED]" : value) });
    * ```
    */
-  static snapshot<T extends ContextStore = ContextStore>(): T | undefined {
-    const contextObject = Context.getStore<T>();
-    if (!contextObject) return undefined;
-    return { ...contextObject };
+  static history(options: ContextHistoryOptions = {}): ContextAuditEntry[] {
+    const contextObject = this.getStore();
+    if (!contextObject) return [];
+    const { redact } = options;
+    return (auditTrails.get(contextObject) ?? []).map((entry) => {
+      const copy = { ...entry };
+      const values = redact && auditValues.get(entry);
+      if (values) {
+        if (values.previous) {
+          copy.previous = redactAuditValue(entry.key, values.previous, redact, values.maxLength);
+        }
+        if (values.next) {
+          copy.next = redactAuditValue(entry.key, values.next, redact, values.maxLength);
+        }
+      }
+      return copy;
+    });
   }
 
   /**
-   * Returns the value for a key in the active context.
+   * Appends a mutation to the audit trail of a store when the audit is enabled.
+   * @private
    *
    * @example
    * ```ts
-   * const requestId = Context.getValue("requestId", "fallback");
+   * this.recordAudit(store, "addValue", "tenantId", { next: "t_1" });
    * ```
    */
-  static getValue<T = unknown>(key: string, defaultValue?: T): T | undefined {
-    const contextObject = Context.getStore();
-    if (!contextObject) return defaultValue;
-    if (Object.prototype.hasOwnProperty.call(contextObject, key)) {
-      return contextObject[key] as T;
+  private static recordAudit(
+    store: ContextStore,
+    operation: ContextAuditOperation,
+    key: string,
+    change: ContextAuditChange
+  ): void {
+    const config = this.auditConfig;
+    if (!config) return;
+
+    const entry: ContextAuditEntry = { operation, key, timestamp: this.clock() };
+    if (config.includeValues) {
+      const values: ContextAuditValues = { maxLength: config.maxValueLength };
+      if ("previous" in change) {
+        values.previous = describeAuditValue(change.previous);
+        entry.previous = truncateSummary(values.previous.text, config.maxValueLength);
+      }
+      if ("next" in change) {
+        values.next = describeAuditValue(change.next);
+        entry.next = truncateSummary(values.next.text, config.maxValueLength);
+      }
+      auditValues.set(entry, values);
+    }
+    if (config.captureCallSite) {
+      const callSite = captureCallSite();
+      if (callSite) entry.callSite = callSite;
+    }
+
+    let trail = auditTrails.get(store);
+    if (!trail) {
+      trail = [];
+      auditTrails.set(store, trail);
+    }
+    trail.push(entry);
+    if (trail.length > config.maxEntries) {
+      trail.splice(0, trail.length - config.maxEntries);
     }
-    return defaultValue;
   }
 
   /**
-   * Returns the value for a key, throwing if it does not exist.
+   * Drops (or refreshes through `onExpire`) expired values of a store.
+   * Checks every key with a TTL when `keys` is omitted.
+   * @private
    *
    * @example
    * ```ts
-   * const requestId = Context.requireValue("requestId");
+   * this.expireValues(store, ["accessToken"]);
    * ```
    */
-  static requireValue<T = unknown>(key: string): T {
-    const contextObject = Context.requireStore();
-    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
-      throw new Error(`Context value "${key}" was not found.`);
+  private static expireValues(store: ContextStore, keys?: string[]): void {
+    const expiry = valueExpiry.get(store);
+    if (!expiry || expiry.size === 0) return;
+
+    const now = this.clock();
+    for (const key of keys ?? Array.from(expiry.keys())) {
+      const entry = expiry.get(key);
+      if (!entry || now < entry.expiresAt) continue;
+
+      expiry.delete(key);
+      const previous = store[key];
+      delete store[key];
+      const refreshed = entry.onExpire?.(key, previous);
+      if (refreshed !== undefined) {
+        store[key] = refreshed;
+        markWritten(store, [key]);
+        expiry.set(key, { ...entry, expiresAt: now + entry.ttlMs });
+        this.recordAudit(store, "expire", key, { previous, next: refreshed });
+      } else {
+        this.recordAudit(store, "expire", key, { previous });
+      }
     }
-    return contextObject[key] as T;
   }
 
   /**
-   * Returns true when the active context has the given key.
+   * Validates values about to be written and returns the values to apply.
+   * Throws in `throw` mode, reports in `warn` mode, and drops invalid keys in
+   * `strip` mode.
+   * @private
    *
    * @example
    * ```ts
-   * if (Context.has("tenantId")) {
-   *   console.log("tenant set");
-   * }
+   * const values = this.applySchema({ tenantId: "t_1" }, "addValue", store);
    * ```
    */
-  static has(key: string): boolean {
-    const contextObject = Context.getStore();
-    return (
-      !!contextObject && Object.prototype.hasOwnProperty.call(contextObject, key)
+  private static applySchema<T extends ContextStore>(
+    values: T,
+    operation: string,
+    store?: ContextStore
+  ): T {
+    const config = this.schemaConfig;
+    if (!config) return values;
+
+    const checked = omitLazyValues(values);
+    const candidate = store ? omitLazyValues({ ...store, ...values }) : checked;
+    const issues = validateContextValues(config.schema, checked, candidate);
+    if (issues.length === 0) return values;
+
+    const error = new ContextValidationError(issues, `Context.${operation}`);
+    const { mode = "throw", onInvalid, logger, logLevel = "warn" } = config.options;
+    if (mode === "throw") throw error;
+
+    onInvalid?.(error);
+    logger?.log(
+      logLevel,
+      "Context validation failed",
+      { operation: error.operation, issues: error.issues },
+      error
     );
+    if (mode === "warn") return values;
+
+    if (issues.some((issue) => issue.path.length === 0)) return {} as T;
+    const invalidKeys = new Set(issues.map((issue) => String(issue.path[0])));
+    const stripped: ContextStore = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (!invalidKeys.has(key)) stripped[key] = value;
+    }
+    return stripped as T;
   }
 
   /**
-   * Sets a value only when the key is currently missing.
+   * Returns the current context store, if any.
    *
    * @example
    * ```ts
-   * Context.setDefault("locale", "pt-BR");
+   * const store = Context.getStore();
    * ```
    */
-  static setDefault<T = unknown>(key: string, value: T): T {
-    const contextObject = Context.requireStore();
-    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
-      contextObject[key] = value;
-    }
-    return contextObject[key] as T;
+  static getStore<T extends ContextStore = ContextStore>(): T | undefined {
+    return this.getInstance().getStore() as T | undefined;
   }
 
   /**
-   * Clears all keys from the active context store.
+   * Returns the current context store, throwing when none exists.
+   *
+   * @throws {Error} If called outside of an active context.
    *
    * @example
    * ```ts
-   * Context.reset();
+   * const store = Context.requireStore();
    * ```
    */
-  static reset(): ContextStore {
-    const contextObject = Context.requireStore();
-    for (const key of Object.keys(contextObject)) {
-      delete contextObject[key];
-    }
+  static requireStore<T extends ContextStore = ContextStore>(): T {
+    const contextObject = this.getStore<T>();
+    if (!contextObject)
+      throw new Error(
+        "No active context found. Use Context.run(...) or the context middleware."
+      );
     return contextObject;
   }
 
   /**
-   * Adds a single key/value pair to the active asynchronous context.
+   * Runs the provided callback inside a new async context.
+   * `readOnlyKeys` and `protectedKeys` guard seeded values against mutation.
    *
-   * @param {string} key - Key to store inside the context.
-   * @param {*} value - Value to associate with the given key.
-   * @returns {Record<string, any>} The updated context object.
+   * @example
+   * ```ts
+   * Context.run({ requestId: "req_1" }, () => {
+   *   console.log(Context.getValue("requestId"));
+   * });
    *
-   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * Context.run({ requestId: "req_1" }, handler, { readOnlyKeys: ["requestId"] });
+   * ```
+   */
+  static run<T>(callback: () => T): T;
+  static run<T>(
+    initialStore: ContextStore,
+    callback: () => T,
+    options?: ContextRunOptions
+  ): T;
+  static run<T>(
+    initialStoreOrCallback: ContextStore | (() => T),
+    maybeCallback?: () => T,
+    options: ContextRunOptions = {}
+  ): T {
+    const initialStore =
+      typeof initialStoreOrCallback === "function" ? {} : initialStoreOrCallback;
+    const callback =
+      typeof initialStoreOrCallback === "function"
+        ? (initialStoreOrCallback as () => T)
+        : maybeCallback;
+
+    if (!callback) {
+      throw new Error("Context.run requires a callback.");
+    }
+
+    const store = this.applySchema(initialStore ?? {}, "run");
+    protectKeys(store, options);
+    return this.getInstance().run(store, callback);
+  }
+
+  /**
+   * Runs the callback inside a new child context derived from the current store.
+   * Useful for creating a scoped overlay without mutating the parent store.
+   * Read-only and protected keys of the parent stay guarded in the child.
+   * Performance entries recorded in the child are appended to the parent.
    *
    * @example
    * ```ts
-   * Context.addValue("tenantId", "t_123");
+   * Context.run({ requestId: "req_1" }, () => {
+   *   Context.runWith({ feature: "beta" }, () => {
+   *     console.log(Context.getStore());
+   *   });
+   * });
+   *
+   * await Context.runWith({}, () => fetchPrices(), {
+   *   copyOnWrite: true,
+   *   join: { keys: { prices: "append" } },
+   * });
    * ```
    */
-  static addValue(key: string, value: any): ContextStore {
-    const contextObject = Context.requireStore();
-    contextObject[key] = value;
-    return contextObject;
+  static runWith<T>(
+    values: ContextStore,
+    callback: () => T,
+    options: ContextRunWithOptions = {}
+  ): T {
+    const parentStore = this.getStore<ContextStore>();
+    if (parentStore) this.expireValues(parentStore);
+    const baseStore = parentStore ? { ...parentStore } : {};
+    if (parentStore) assertWritable(parentStore, Object.keys(values));
+    const childValues = this.applySchema(values, "runWith", baseStore);
+    const store = { ...baseStore, ...childValues };
+    protectKeys(store, options, parentStore);
+    if (!parentStore) return this.getInstance().run(store, callback);
+
+    inheritExpiry(store, parentStore, Object.keys(childValues));
+    inheritAudit(store, parentStore);
+    forks.set(store, createFork(store, parentStore, options.copyOnWrite === true));
+
+    const { join = false, mergePerformance = true } = options;
+    const finish = (succeeded: boolean) => {
+      if (join && succeeded) {
+        this.joinStores(store, join === true ? {} : join);
+      } else if (mergePerformance) {
+        this.joinStores(store, { strategy: "ignore" });
+      }
+    };
+
+    if (!join && !mergePerformance) return this.getInstance().run(store, callback);
+    let result: T;
+    try {
+      result = this.getInstance().run(store, callback);
+    } catch (error) {
+      finish(false);
+      throw error;
+    }
+    if (isPromiseLike(result)) {
+      return result.then(
+        (value) => {
+          finish(true);
+          return value;
+        },
+        (error) => {
+          finish(false);
+          throw error;
+        }
+      ) as T;
+    }
+    finish(true);
+    return result;
   }
 
   /**
-   * Merges an object of values into the active asynchronous context.
-   *
-   * @param {Record<string, any>} object - Object containing key/value pairs to merge.
-   * @returns {Record<string, any>} The merged context object.
+   * Runs tasks concurrently, each in its own child context tagged with the
+   * branch index, and resolves with the results in order. Successful branches
+   * are joined back into the parent; the first failure rejects and stops
+   * starting new branches.
    *
-   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If `concurrency` is not a positive integer or `Infinity`.
    *
    * @example
    * ```ts
-   * Context.addObjectValue({ feature: "beta", locale: "pt-BR" });
+   * const [user, orders] = await Context.all(
+   *   [() => loadUser(id), () => loadOrders(id)],
+   *   { concurrency: 2 }
+   * );
    * ```
    */
-  static addObjectValue(object: Record<string, any>): ContextStore {
-    const contextObject = Context.requireStore();
-    return Object.assign(contextObject, object) as ContextStore;
+  static all<const T extends readonly (() => unknown)[]>(
+    tasks: T,
+    options: ContextFanOutOptions = {}
+  ): Promise<{ -readonly [K in keyof T]: Awaited<ReturnType<T[K]>> }> {
+    return this.fanOut(tasks, { name: "Context.all", ...options }) as Promise<{
+      -readonly [K in keyof T]: Awaited<ReturnType<T[K]>>;
+    }>;
   }
 
   /**
-   * Merges an options object into the active context.
-   * Creates the options bag when it does not exist.
+   * Maps items concurrently, running each call in its own child context (see
+   * `Context.all`), and resolves with the results in order.
    *
-   * @param {Record<string, any>} options - Options to merge into the context.
-   * @param {string} key - Optional key name for the options bag.
-   * @returns {Record<string, any>} The updated context object.
-   *
-   * @throws {Error} If called outside of an active `Context.run(...)`.
-   * @throws {Error} If the existing options bag is not an object.
+   * @throws {Error} If `concurrency` is not a positive integer or `Infinity`.
    *
    * @example
    * ```ts
-   * Context.addOptions({ retry: 2, feature: "beta" });
+   * const prices = await Context.map(skus, (sku) => fetchPrice(sku), {
+   *   concurrency: 5,
+   * });
    * ```
    */
-  static addOptions(options: Record<string, any>, key = "options"): ContextStore {
-    const contextObject = Context.requireStore();
-    const existing = contextObject[key];
+  static map<I, R>(
+    items: Iterable<I>,
+    callback: (item: I, index: number) => R,
+    options: ContextFanOutOptions = {}
+  ): Promise<Awaited<R>[]> {
+    const tasks = Array.from(items, (item, index) => () => callback(item, index));
+    return this.fanOut(tasks, { name: "Context.map", ...options }) as Promise<
+      Awaited<R>[]
+    >;
+  }
 
-    if (existing === undefined) {
-      contextObject[key] = { ...options };
-      return contextObject;
+  /**
+   * Runs fan-out tasks with bounded concurrency in per-branch child contexts.
+   * @private
+   *
+   * @example
+   * ```ts
+   * await this.fanOut([() => a(), () => b()], { name: "Context.all" });
+   * ```
+   */
+  private static fanOut(
+    tasks: readonly (() => unknown)[],
+    options: ContextFanOutOptions
+  ): Promise<unknown[]> {
+    const {
+      concurrency = Infinity,
+      name = "Context.all",
+      branchKey = "branch",
+      measure = true,
+      copyOnWrite = true,
+      join = true,
+    } = options;
+    if (concurrency !== Infinity && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+      throw new Error(`${name} concurrency must be a positive integer or Infinity.`);
     }
 
-    if (existing && typeof existing === "object" && !Array.isArray(existing)) {
-      Object.assign(existing as Record<string, any>, options);
-      return contextObject;
-    }
+    const runBranch = (index: number) =>
+      this.runWith(
+        { [branchKey]: index },
+        () =>
+          measure
+            ? this.measure(`${name}#${index}`, tasks[index], {
+                data: { [branchKey]: index },
+              })
+            : tasks[index](),
+        { copyOnWrite, join }
+      );
 
-    throw new Error(`Context value "${key}" is not an object.`);
+    const runAll = async () => {
+      const results: unknown[] = new Array(tasks.length);
+      let next = 0;
+      let failed = false;
+      const worker = async () => {
+        while (!failed && next < tasks.length) {
+          const index = next++;
+          try {
+            results[index] = await runBranch(index);
+          } catch (error) {
+            failed = true;
+            throw error;
+          }
+        }
+      };
+      const workers = Math.min(concurrency, tasks.length);
+      await Promise.all(Array.from({ length: workers }, worker));
+      return results;
+    };
+
+    return measure
+      ? this.measure(name, runAll, { data: { branches: tasks.length } })
+      : runAll();
   }
 
   /**
-   * Records a performance entry in the active context.
+   * Merges the writes of the active `runWith` child into its parent store.
+   * Keys the child did not write are skipped (reading a value is not a write),
+   * and performance entries are appended by default. Calling it again only merges later changes.
+   * Merged values go through the parent's read-only keys and schema, like
+   * `addObjectValue`.
+   *
+   * @throws {Error} If called outside of a `Context.runWith(...)` child.
+   * @throws {Error} If a merged key is read-only in the parent.
    *
    * @example
    * ```ts
-   * Context.recordPerformance({
-   *   name: "db.query",
-   *   startedAt: Date.now(),
-   *   endedAt: Date.now(),
-   *   durationMs: 0,
-   * });
+   * await Context.runWith({}, async () => {
+   *   Context.addValue("inventory", await loadInventory());
+   *   Context.join({
+   *     keys: { warnings: "append", total: (a, b) => Number(a ?? 0) + Number(b) },
+   *   });
+   * }, { copyOnWrite: true });
    * ```
    */
-  static recordPerformance(
-    entry: PerformanceEntry,
-    options: PerformanceRecordOptions = {}
-  ): void {
-    const contextObject = Context.getStore<Record<string, unknown>>();
-    if (!contextObject) return;
+  static join(options: ContextJoinOptions = {}): ContextStore {
+    const contextObject = this.requireStore();
+    if (!forks.has(contextObject)) {
+      throw new Error("Context.join must be called inside Context.runWith.");
+    }
+    return this.joinStores(contextObject, options);
+  }
 
-    const key = options.key ?? "perf";
-    const mode = options.mode ?? "append";
+  /**
+   * Applies join strategies from a child store into its parent and moves the
+   * child's baseline forward.
+   * @private
+   *
+   * @example
+   * ```ts
+   * this.joinStores(childStore, { strategy: "last-write-wins" });
+   * ```
+   */
+  private static joinStores(
+    store: ContextStore,
+    options: ContextJoinOptions
+  ): ContextStore {
+    const fork = forks.get(store)!;
+    const { parent, baseline, lengths, shared, written } = fork;
+    const perfKeys = performanceKeys.get(store);
+    const appends: ContextStore = {};
+    const writes: ContextStore = {};
 
-    if (mode === "overwrite") {
-      contextObject[key] = entry;
-      return;
+    for (const [key, value] of Object.entries(store)) {
+      if (shared.has(key)) continue;
+      const strategy =
+        options.keys?.[key] ??
+        (perfKeys?.has(key) ? "append" : options.strategy ?? "last-write-wins");
+      if (strategy === "ignore") continue;
+
+      if (strategy === "append") {
+        if (value === parent[key]) continue;
+        const hasBaseline = baseline.has(key);
+        const previous = baseline.get(key);
+        const items = Array.isArray(value) ? value : [value];
+        if (hasBaseline && !Array.isArray(previous) && value === previous) continue;
+        const start =
+          hasBaseline && Array.isArray(previous) ? lengths.get(key) ?? 0 : 0;
+        const added = items.slice(start);
+        if (added.length > 0) appends[key] = added;
+        continue;
+      }
+
+      if (!written.has(key)) continue;
+      if (typeof strategy !== "function" && value === parent[key]) continue;
+      writes[key] =
+        typeof strategy === "function" ? strategy(parent[key], value, key) : value;
     }
 
-    const existing = contextObject[key];
-    if (Array.isArray(existing)) {
-      existing.push(entry);
-      return;
+    assertWritable(parent, [...Object.keys(appends), ...Object.keys(writes)]);
+    const values = this.applySchema(writes, "join", parent);
+
+    for (const [key, added] of Object.entries(appends) as Array<[string, unknown[]]>) {
+      this.ownValue(parent, key);
+      const existing = parent[key];
+      this.recordAudit(parent, "join", key, {
+        ...auditPrevious(parent, key),
+        next: added,
+      });
+      if (Array.isArray(existing)) {
+        existing.push(...added);
+      } else {
+        parent[key] = existing === undefined ? [...added] : [existing, ...added];
+      }
+      if (perfKeys?.has(key)) markPerformanceKey(parent, key);
     }
 
-    if (existing === undefined) {
-      contextObject[key] = [entry];
-      return;
+    for (const [key, next] of Object.entries(values)) {
+      this.recordAudit(parent, "join", key, { ...auditPrevious(parent, key), next });
+      parent[key] = next;
     }
+    markWritten(parent, [...Object.keys(appends), ...Object.keys(values)]);
+    clearExpiry(parent, Object.keys(values));
 
-    contextObject[key] = [existing, entry];
+    rebaseFork(fork, store);
+    return parent;
   }
 
   /**
-   * Measures sync/async work and stores the timing in the active context.
+   * Replaces an inherited object or array of a copy-on-write child with a
+   * shallow copy before it is read or mutated.
+   * @private
    *
    * @example
    * ```ts
-   * await Context.measure("cache.lookup", async () => {
-   *   await Promise.resolve();
+   * this.ownValue(store, "options");
+   * ```
+   */
+  private static ownValue(store: ContextStore, key: string): void {
+    const fork = forks.get(store);
+    if (!fork?.shared.has(key)) return;
+    fork.shared.delete(key);
+    store[key] = cloneShallow(store[key]);
+  }
+
+  /**
+   * Captures the active store and returns a runner that re-enters it later,
+   * for callback-based APIs that lose the async context. Without an active
+   * context, the runner runs callbacks outside any store.
+   *
+   * @example
+   * ```ts
+   * const run = Context.capture();
+   * legacyClient.query(sql, (error, rows) => {
+   *   run(() => logger.info("query done", { rows: rows.length }));
    * });
    * ```
    */
-  static measure<T>(
-    name: string,
-    callback: () => T,
-    options: PerformanceMeasureOptions = {}
-  ): T {
-    const now = options.now ?? Date.now;
-    const startedAt = now();
+  static capture(): ContextRunner {
+    const instance = this.getInstance();
+    const store = instance.getStore();
+    return <T>(callback: () => T): T =>
+      store ? instance.run(store, callback) : instance.exit(callback);
+  }
 
-    const finalize = (error?: unknown) => {
-      const endedAt = now();
-      const entry: PerformanceEntry = {
-        name,
-        startedAt,
-        endedAt,
-        durationMs: Math.max(0, endedAt - startedAt),
-      };
+  /**
+   * Returns a function that always runs inside the store active when `bind`
+   * was called, mirroring `AsyncResource.bind`. `this` and arguments are
+   * forwarded.
+   *
+   * @example
+   * ```ts
+   * pool.on("release", Context.bind(() => logger.info("released")));
+   * ```
+   */
+  static bind<F extends (...args: any[]) => any>(callback: F): F {
+    const run = this.capture();
+    return function bound(this: unknown, ...args: Parameters<F>) {
+      return run(() => callback.apply(this, args));
+    } as F;
+  }
+
+  /**
+   * Makes every listener of an `EventEmitter` (registered before or after the
+   * call) run inside the store active when `bindEmitter` was called. Binding
+   * the same emitter again replaces the captured store.
+   *
+   * @example
+   * ```ts
+   * Context.bindEmitter(req);
+   * req.on("close", () => logger.info("client closed")); // logs with request context
+   * ```
+   */
+  static bindEmitter<E extends ContextEmitterLike>(emitter: E): E {
+    const run = this.capture();
+    const target = emitter as E & { [BOUND_EMIT]?: ContextEmitterLike["emit"] };
+    const emit = target[BOUND_EMIT] ?? emitter.emit;
+    target[BOUND_EMIT] = emit;
+    emitter.emit = function boundEmit(this: unknown, ...args) {
+      return run(() => emit.apply(this, args));
+    };
+    return emitter;
+  }
+
+  /**
+   * Calls `stream.pipeline` with a completion callback bound to the active store.
+   *
+   * @example
+   * ```ts
+   * Context.pipeline(source, gzip, destination, (error) => {
+   *   logger.info("upload finished", { error }); // still has request context
+   * });
+   * ```
+   */
+  static pipeline<S extends ContextPipelineStream>(
+    ...args: [...streams: ContextPipelineStream[], callback: ContextPipelineCallback]
+  ): S {
+    const callback = args[args.length - 1] as ContextPipelineCallback;
+    const streams = args.slice(0, -1);
+    return (pipeline as unknown as (...values: unknown[]) => S)(
+      ...streams,
+      this.bind(callback)
+    );
+  }
+
+  /**
+   * Enters the given store for the current execution (advanced usage).
+   *
+   * @example
+   * ```ts
+   * Context.enterWith({ requestId: "req_1" });
+   * ```
+   */
+  static enterWith(store: ContextStore): void {
+    this.getInstance().enterWith(this.applySchema(store, "enterWith"));
+  }
+
+  /**
+   * Returns a shallow copy of the active store, or undefined when no context exists.
+   * Expired values are omitted. Evaluated lazy values are included; pending
+   * ones follow the `lazy` policy.
+   *
+   * @example
+   * ```ts
+   * const snapshot = Context.snapshot();
+   * const withPlaceholders = Context.snapshot({ lazy: "placeholder" });
+   * ```
+   */
+  static snapshot<T extends ContextStore = ContextStore>(
+    options: ContextSnapshotOptions = {}
+  ): T | undefined {
+    const contextObject = this.getStore<T>();
+    if (!contextObject) return undefined;
+    this.expireValues(contextObject);
+    return copyStore(contextObject, options.lazy ?? "skip") as T;
+  }
+
+  /**
+   * Returns the value for a key in the active context.
+   *
+   * @example
+   * ```ts
+   * const requestId = Context.getValue("requestId", "fallback");
+   * ```
+   */
+  static getValue<K extends RegisteredContextKey>(
+    key: K,
+    defaultValue?: RegisteredContextValue<K>
+  ): RegisteredContextValue<K> | undefined;
+  static getValue<T = unknown>(
+    key: UntypedContextKey,
+    defaultValue?: T
+  ): T | undefined;
+  static getValue<T = unknown>(key: string, defaultValue?: T): T | undefined {
+    const contextObject = this.getStore();
+    if (!contextObject) return defaultValue;
+    this.expireValues(contextObject, [key]);
+    if (Object.prototype.hasOwnProperty.call(contextObject, key)) {
+      this.ownValue(contextObject, key);
+      return resolveLazyValue(contextObject[key], contextObject) as T;
+    }
+    return defaultValue;
+  }
+
+  /**
+   * Returns the value for a key, awaiting async lazy and computed values.
+   *
+   * @example
+   * ```ts
+   * Context.addLazy("tenantConfig", () => loadTenantConfig(tenantId));
+   * const config = await Context.getValueAsync("tenantConfig");
+   * ```
+   */
+  static getValueAsync<K extends RegisteredContextKey>(
+    key: K,
+    defaultValue?: RegisteredContextValue<K>
+  ): Promise<RegisteredContextValue<K> | undefined>;
+  static getValueAsync<T = unknown>(
+    key: UntypedContextKey,
+    defaultValue?: T
+  ): Promise<T | undefined>;
+  static async getValueAsync<T = unknown>(
+    key: string,
+    defaultValue?: T
+  ): Promise<T | undefined> {
+    return this.getValue<T>(key, defaultValue);
+  }
+
+  /**
+   * Returns the value for a key, throwing if it does not exist.
+   *
+   * @example
+   * ```ts
+   * const requestId = Context.requireValue("requestId");
+   * ```
+   */
+  static requireValue<K extends RegisteredContextKey>(
+    key: K
+  ): RegisteredContextValue<K>;
+  static requireValue<T = unknown>(key: UntypedContextKey): T;
+  static requireValue<T = unknown>(key: string): T {
+    const contextObject = this.requireStore();
+    this.expireValues(contextObject, [key]);
+    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
+      throw new Error(`Context value "${key}" was not found.`);
+    }
+    this.ownValue(contextObject, key);
+    return resolveLazyValue(contextObject[key], contextObject) as T;
+  }
+
+  /**
+   * Returns true when the active context has the given key.
+   *
+   * @example
+   * ```ts
+   * if (Context.has("tenantId")) {
+   *   console.log("tenant set");
+   * }
+   * ```
+   */
+  static has(key: string): boolean {
+    const contextObject = this.getStore();
+    if (contextObject) this.expireValues(contextObject, [key]);
+    return (
+      !!contextObject && Object.prototype.hasOwnProperty.call(contextObject, key)
+    );
+  }
+
+  /**
+   * Returns the value for a typed key, falling back to the key default.
+   *
+   * @example
+   * ```ts
+   * const TenantId = createContextKey<string>("tenantId");
+   * const tenantId = Context.get(TenantId); // string | undefined
+   * ```
+   */
+  static get<T>(key: DefaultedContextKey<T>): T;
+  static get<T>(key: ContextKey<T>): T | undefined;
+  static get<T>(key: ContextKey<T>): T | undefined {
+    const contextObject = this.getStore();
+    if (contextObject) this.expireValues(contextObject, [key.name]);
+    if (
+      contextObject &&
+      Object.prototype.hasOwnProperty.call(contextObject, key.name)
+    ) {
+      this.ownValue(contextObject, key.name);
+      return resolveLazyValue(contextObject[key.name], contextObject) as T;
+    }
+    return key.default;
+  }
+
+  /**
+   * Validates and stores the value for a typed key.
+   *
+   * @throws {Error} If called outside of an active context.
+   * @throws {Error} If the key validator rejects the value.
+   *
+   * @example
+   * ```ts
+   * Context.set(TenantId, "t_123");
+   * Context.set(AccessToken, token, { ttlMs: 60_000 });
+   * ```
+   */
+  static set<T>(
+    key: ContextKey<T>,
+    value: T,
+    options?: ContextValueOptions
+  ): ContextStore {
+    if (key.validate && !key.validate(value)) {
+      throw new Error(`Context value "${key.name}" failed validation.`);
+    }
+    return this.addValue(key.name, value, options);
+  }
+
+  /**
+   * Returns the value for a typed key, throwing when it is missing and the
+   * key has no default.
+   *
+   * @example
+   * ```ts
+   * const tenantId = Context.require(TenantId); // string
+   * ```
+   */
+  static require<T>(key: ContextKey<T>): T {
+    const contextObject = this.requireStore();
+    this.expireValues(contextObject, [key.name]);
+    if (Object.prototype.hasOwnProperty.call(contextObject, key.name)) {
+      this.ownValue(contextObject, key.name);
+      return resolveLazyValue(contextObject[key.name], contextObject) as T;
+    }
+    if (hasContextKeyDefault(key)) return key.default;
+    throw new Error(`Context value "${key.name}" was not found.`);
+  }
+
+  /**
+   * Sets a value only when the key is currently missing.
+   *
+   * @example
+   * ```ts
+   * Context.setDefault("locale", "pt-BR");
+   * ```
+   */
+  static setDefault<K extends RegisteredContextKey>(
+    key: K,
+    value: RegisteredContextValue<K>
+  ): RegisteredContextValue<K>;
+  static setDefault<T = unknown>(key: UntypedContextKey, value: T): T;
+  static setDefault<T = unknown>(key: string, value: T): T {
+    const contextObject = this.requireStore();
+    this.expireValues(contextObject, [key]);
+    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
+      const values = this.applySchema({ [key]: value }, "setDefault", contextObject);
+      Object.assign(contextObject, values);
+      if (Object.prototype.hasOwnProperty.call(values, key)) {
+        this.recordAudit(contextObject, "setDefault", key, { next: value });
+        markWritten(contextObject, [key]);
+      }
+    }
+    this.ownValue(contextObject, key);
+    return resolveLazyValue(contextObject[key], contextObject) as T;
+  }
+
+  /**
+   * Clears all keys from the active context store.
+   * Read-only and protected keys are kept.
+   *
+   * @example
+   * ```ts
+   * Context.reset();
+   * ```
+   */
+  static reset(): ContextStore {
+    const contextObject = this.requireStore();
+    for (const key of Object.keys(contextObject)) {
+      if (isKeyProtected(contextObject, key)) continue;
+      const previous = contextObject[key];
+      delete contextObject[key];
+      clearExpiry(contextObject, [key]);
+      this.recordAudit(contextObject, "reset", key, { previous });
+    }
+    return contextObject;
+  }
+
+  /**
+   * Guards keys of the active store against removal and `reset`.
+   * With `readOnly`, the keys also cannot be overwritten once set.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   *
+   * @example
+   * ```ts
+   * Context.protect("tenantId");
+   * Context.protect(["requestId", TraceId], { readOnly: true });
+   * ```
+   */
+  static protect(
+    keys: ContextKeyLike | ContextKeyLike[],
+    options: ContextProtectOptions = {}
+  ): void {
+    const list = Array.isArray(keys) ? keys : [keys];
+    protectKeys(
+      this.requireStore(),
+      options.readOnly ? { readOnlyKeys: list } : { protectedKeys: list }
+    );
+  }
+
+  /**
+   * Returns whether a key of the active store is read-only.
+   *
+   * @example
+   * ```ts
+   * Context.isReadOnly("instance_id"); // true inside the Express middleware
+   * ```
+   */
+  static isReadOnly(key: ContextKeyLike): boolean {
+    const contextObject = this.getStore();
+    if (!contextObject) return false;
+    return !!keyProtection.get(contextObject)?.readOnly.has(getContextKeyName(key));
+  }
+
+  /**
+   * Returns whether a key of the active store is protected from removal.
+   * Read-only keys are always protected.
+   *
+   * @example
+   * ```ts
+   * Context.isProtected("tenantId");
+   * ```
+   */
+  static isProtected(key: ContextKeyLike): boolean {
+    const contextObject = this.getStore();
+    if (!contextObject) return false;
+    return isKeyProtected(contextObject, getContextKeyName(key));
+  }
+
+  /**
+   * Adds a single key/value pair to the active asynchronous context.
+   * With `ttlMs`, the value expires and is dropped (or refreshed through
+   * `onExpire`) on the next read after the deadline.
+   *
+   * @param {string} key - Key to store inside the context.
+   * @param {*} value - Value to associate with the given key.
+   * @param {ContextValueOptions} [options] - Expiry options.
+   * @returns {Record<string, any>} The updated context object.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If the key is read-only.
+   * @throws {Error} If `ttlMs` is not a positive number.
+   *
+   * @example
+   * ```ts
+   * Context.addValue("tenantId", "t_123");
+   * Context.addValue("accessToken", token, {
+   *   ttlMs: 5 * 60_000,
+   *   onExpire: () => refreshAccessToken(),
+   * });
+   * ```
+   */
+  static addValue<K extends RegisteredContextKey>(
+    key: K,
+    value: RegisteredContextValue<K>,
+    options?: ContextValueOptions
+  ): ContextStore;
+  static addValue<K extends string>(
+    key: UnregisteredContextKey<K>,
+    value: unknown,
+    options?: ContextValueOptions
+  ): ContextStore;
+  static addValue(
+    key: string,
+    value: unknown,
+    options: ContextValueOptions = {}
+  ): ContextStore {
+    const contextObject = this.requireStore();
+    assertWritable(contextObject, [key]);
+    const { ttlMs, onExpire } = options;
+    if (ttlMs !== undefined && !(ttlMs > 0 && Number.isFinite(ttlMs))) {
+      throw new Error(`Context value "${key}" ttlMs must be a positive number.`);
+    }
+
+    const values = this.applySchema({ [key]: value }, "addValue", contextObject);
+    if (!Object.prototype.hasOwnProperty.call(values, key)) return contextObject;
+
+    this.recordAudit(contextObject, "addValue", key, {
+      ...auditPrevious(contextObject, key),
+      next: values[key],
+    });
+    contextObject[key] = values[key];
+    clearExpiry(contextObject, [key]);
+    markWritten(contextObject, [key]);
+    if (ttlMs !== undefined) {
+      setExpiry(contextObject, key, {
+        expiresAt: this.clock() + ttlMs,
+        ttlMs,
+        onExpire,
+      });
+    }
+    return contextObject;
+  }
+
+  /**
+   * Stores a value whose factory runs on first read (`getValue`, `requireValue`,
+   * `get`, `require`, or `getValueAsync`). The result is memoized and shared
+   * with `runWith` children.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If the key is read-only.
+   *
+   * @example
+   * ```ts
+   * Context.addLazy("claims", () => decodeJwt(token));
+   * Context.addLazy("tenantConfig", async () => loadTenantConfig(tenantId));
+   * ```
+   */
+  static addLazy<K extends RegisteredContextKey>(
+    key: K,
+    factory: () => RegisteredContextValue<K> | Promise<RegisteredContextValue<K>>
+  ): ContextStore;
+  static addLazy<T = unknown>(key: UntypedContextKey, factory: () => T): ContextStore;
+  static addLazy(key: string, factory: () => unknown): ContextStore {
+    const contextObject = this.requireStore();
+    assertWritable(contextObject, [key]);
+    const value = lazyValue(factory);
+    this.recordAudit(contextObject, "addLazy", key, {
+      ...auditPrevious(contextObject, key),
+      next: value,
+    });
+    contextObject[key] = value;
+    clearExpiry(contextObject, [key]);
+    markWritten(contextObject, [key]);
+    return contextObject;
+  }
+
+  /**
+   * Stores a value computed from the active context on first read. Unlike
+   * `addLazy`, the result is memoized per store, so `runWith` children
+   * recompute it against their own values.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If the key is read-only.
+   *
+   * @example
+   * ```ts
+   * Context.addComputed("isAdmin", () =>
+   *   Context.getValue<string[]>("roles", [])!.includes("admin")
+   * );
+   * ```
+   */
+  static addComputed<K extends RegisteredContextKey>(
+    key: K,
+    compute: () => RegisteredContextValue<K> | Promise<RegisteredContextValue<K>>
+  ): ContextStore;
+  static addComputed<T = unknown>(
+    key: UntypedContextKey,
+    compute: () => T
+  ): ContextStore;
+  static addComputed(key: string, compute: () => unknown): ContextStore {
+    const contextObject = this.requireStore();
+    assertWritable(contextObject, [key]);
+    const value = computedValue(compute);
+    this.recordAudit(contextObject, "addComputed", key, {
+      ...auditPrevious(contextObject, key),
+      next: value,
+    });
+    contextObject[key] = value;
+    clearExpiry(contextObject, [key]);
+    markWritten(contextObject, [key]);
+    return contextObject;
+  }
+
+  /**
+   * Merges an object of values into the active asynchronous context.
+   *
+   * @param {ContextStore} object - Object containing key/value pairs to merge.
+   * @returns {Record<string, any>} The merged context object.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If any key is read-only.
+   *
+   * @example
+   * ```ts
+   * Context.addObjectValue({ feature: "beta", locale: "pt-BR" });
+   * ```
+   */
+  static addObjectValue(object: ContextStore): ContextStore {
+    const contextObject = this.requireStore();
+    assertWritable(contextObject, Object.keys(object));
+    const values = this.applySchema(object, "addObjectValue", contextObject);
+    for (const [key, value] of Object.entries(values)) {
+      this.recordAudit(contextObject, "addObjectValue", key, {
+        ...auditPrevious(contextObject, key),
+        next: value,
+      });
+    }
+    clearExpiry(contextObject, Object.keys(values));
+    markWritten(contextObject, Object.keys(values));
+    return Object.assign(contextObject, values) as ContextStore;
+  }
+
+  /**
+   * Merges an options object into the active context.
+   * Creates the options bag when it does not exist.
+   *
+   * @param {Record<string, any>} options - Options to merge into the context.
+   * @param {string} key - Optional key name for the options bag.
+   * @returns {Record<string, any>} The updated context object.
+   *
+   * @throws {Error} If called outside of an active `Context.run(...)`.
+   * @throws {Error} If the existing options bag is not an object.
+   * @throws {Error} If the options key is read-only.
+   *
+   * @example
+   * ```ts
+   * Context.addOptions({ retry: 2, feature: "beta" });
+   * ```
+   */
+  static addOptions(options: Record<string, any>, key = "options"): ContextStore {
+    const contextObject = this.requireStore();
+    assertWritable(contextObject, [key]);
+    this.ownValue(contextObject, key);
+    const existing = contextObject[key];
+
+    if (existing === undefined) {
+      const values = this.applySchema(
+        { [key]: { ...options } },
+        "addOptions",
+        contextObject
+      );
+      if (Object.prototype.hasOwnProperty.call(values, key)) {
+        this.recordAudit(contextObject, "addOptions", key, { next: values[key] });
+        markWritten(contextObject, [key]);
+      }
+      return Object.assign(contextObject, values);
+    }
+
+    if (existing && typeof existing === "object" && !Array.isArray(existing)) {
+      const merged = { ...(existing as Record<string, any>), ...options };
+      const values = this.applySchema({ [key]: merged }, "addOptions", contextObject);
+      if (Object.prototype.hasOwnProperty.call(values, key)) {
+        this.recordAudit(contextObject, "addOptions", key, {
+          previous: existing,
+          next: merged,
+        });
+        Object.assign(existing as Record<string, any>, options);
+        markWritten(contextObject, [key]);
+      }
+      return contextObject;
+    }
+
+    throw new Error(`Context value "${key}" is not an object.`);
+  }
+
+  /**
+   * Records a performance entry in the active context.
+   *
+   * @example
+   * ```ts
+   * Context.recordPerformance({
+   *   name: "db.query",
+   *   startedAt: Date.now(),
+   *   endedAt: Date.now(),
+   *   durationMs: 0,
+   * });
+   * ```
+   */
+  static recordPerformance(
+    entry: PerformanceEntry,
+    options: PerformanceRecordOptions = {}
+  ): void {
+    const contextObject = this.getStore<Record<string, unknown>>();
+    if (!contextObject) return;
+
+    const key = options.key ?? "perf";
+    const mode = options.mode ?? "append";
+    const parentId = entry.parentId ?? this.measureStorage.getStore();
+    if (parentId !== undefined && entry.parentId === undefined) {
+      entry = { ...entry, parentId };
+    }
+    this.recordAudit(contextObject, "recordPerformance", key, { next: entry });
+    this.ownValue(contextObject, key);
+    markWritten(contextObject, [key]);
+    markPerformanceKey(contextObject, key);
+    this.checkPerformanceBudgets(entry);
+
+    if (mode === "overwrite") {
+      contextObject[key] = entry;
+      return;
+    }
+
+    const existing = contextObject[key];
+    if (Array.isArray(existing)) {
+      existing.push(entry);
+      return;
+    }
+
+    if (existing === undefined) {
+      contextObject[key] = [entry];
+      return;
+    }
+
+    contextObject[key] = [existing, entry];
+  }
+
+  /**
+   * Registers (or clears with `false`) duration budgets for the performance
+   * entries of this namespace. Entries recorded by `measure`,
+   * `recordPerformance`, and the integrations are checked against every
+   * matching budget.
+   *
+   * @example
+   * ```ts
+   * Context.setPerformanceBudgets({
+   *   budgets: { "db.*": 50, request: 500 },
+   *   logger,
+   *   onViolation: ({ budget }) => metrics.increment("perf.budget", { budget }),
+   * });
+   * ```
+   */
+  static setPerformanceBudgets(options: PerformanceBudgetOptions | false): void {
+    if (options === false) {
+      this.budgetConfig = undefined;
+      return;
+    }
+    const { budgets, ...rest } = options;
+    this.budgetConfig = {
+      ...rest,
+      rules: Object.entries(budgets).map(([budget, maxMs]) => ({
+        budget,
+        maxMs,
+        pattern: compileGlob(budget),
+      })),
+    };
+  }
+
+  /**
+   * Reports an entry that exceeds a registered budget.
+   *
+   * @private
+   * @example
+   * ```ts
+   * this.checkPerformanceBudgets(entry);
+   * ```
+   */
+  private static checkPerformanceBudgets(entry: PerformanceEntry): void {
+    const config = this.budgetConfig;
+    if (!config) return;
+
+    for (const rule of config.rules) {
+      if (entry.durationMs <= rule.maxMs || !rule.pattern.test(entry.name)) continue;
+      const store = this.getStore();
+      const violation: PerformanceBudgetViolation = {
+        budget: rule.budget,
+        maxMs: rule.maxMs,
+        overByMs: entry.durationMs - rule.maxMs,
+        entry,
+        context: store
+          ? copyStore(store, "placeholder", {
+              now: this.clock(),
+              excludeKeys: performanceKeys.get(store),
+            })
+          : undefined,
+      };
+      try {
+        config.logger?.log(config.level ?? "warn", "performance budget exceeded", {
+          budget: violation.budget,
+          maxMs: violation.maxMs,
+          overByMs: violation.overByMs,
+          entry,
+        });
+        config.onViolation?.(violation);
+      } catch {
+        // Budget reporting must not break the measured work.
+      }
+    }
+  }
+
+  /**
+   * Enables (or disables with `false`) resource capture for every `measure`
+   * of this namespace, optionally for a sampled fraction of calls.
+   *
+   * @example
+   * ```ts
+   * Context.setResourceUsage({ sampleRate: 0.05 });
+   * ```
+   */
+  static setResourceUsage(options: PerformanceResourceUsageOptions | boolean = true): void {
+    this.resourceUsageConfig = options === false ? undefined : options === true ? {} : options;
+  }
+
+  /**
+   * Measures sync/async work and stores the timing in the active context.
+   * With `resourceUsage`, sampled calls also store CPU, heap and event loop
+   * deltas under `resources`.
+   *
+   * @example
+   * ```ts
+   * await Context.measure("cache.lookup", async () => {
+   *   await Promise.resolve();
+   * });
+   *
+   * Context.measure("report.render", render, { resourceUsage: { sampleRate: 0.1 } });
+   * ```
+   */
+  static measure<T>(
+    name: string,
+    callback: () => T,
+    options: PerformanceMeasureOptions = {}
+  ): T {
+    const resources = shouldSample(options.resourceUsage ?? this.resourceUsageConfig)
+      ? startResourceUsage()
+      : undefined;
+    const now =
+      options.highResolution || resources !== undefined
+        ? highResolutionNow
+        : options.now ?? Date.now;
+    const startedAt = now();
+    const id = crypto.randomUUID();
+    const parentId = this.measureStorage.getStore();
+
+    const finalize = (error?: unknown) => {
+      const endedAt = now();
+      const entry: PerformanceEntry = {
+        name,
+        id,
+        ...(parentId === undefined ? {} : { parentId }),
+        startedAt,
+        endedAt,
+        durationMs: Math.max(0, endedAt - startedAt),
+      };
+
+      if (resources) {
+        entry.resources = endResourceUsage(resources);
+      }
 
       if (options.data) {
         entry.data = { ...options.data };
       }
 
-      if (error) {
-        entry.error = normalizePerformanceError(error);
-      }
+      if (error) {
+        entry.error = normalizePerformanceError(error);
+      }
+
+      this.recordPerformance(entry, options);
+    };
+
+    try {
+      const result = this.measureStorage.run(id, callback);
+      if (isPromiseLike(result)) {
+        return (result
+          .then((value) => {
+            finalize();
+            return value;
+          })
+          .catch((error) => {
+            finalize(error);
+            throw error;
+          })) as T;
+      }
+      finalize();
+      return result;
+    } catch (error) {
+      finalize(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuilds the hierarchy of the performance entries in the active context
+   * from their `id`/`parentId`, ordered by start time. Entries whose parent
+   * is missing become roots.
+   *
+   * @example
+   * ```ts
+   * await Context.measure("handler", () => Context.measure("db.query", query));
+   * Context.performanceTree();
+   * // [{ name: "handler", totalMs: 12, selfMs: 2, children: [{ name: "db.query", ... }] }]
+   * ```
+   */
+  static performanceTree(
+    options: Pick<PerformanceRecordOptions, "key"> = {}
+  ): PerformanceTreeNode[] {
+    return buildPerformanceTree(
+      readPerformanceEntries(this.getStore()?.[options.key ?? "perf"])
+    );
+  }
+
+  /**
+   * Aggregates the performance entries in the active context by name (and
+   * optionally by a `data` field): count, errors, total, min, max, mean, p50
+   * and p95 durations.
+   *
+   * @example
+   * ```ts
+   * const summary = Context.performanceSummary({ groupBy: "table" });
+   * // { count: 120, errors: 1, totalMs: 340,
+   * //   groups: [{ name: "db.query", group: "orders", count: 80, p95Ms: 9, ... }] }
+   * ```
+   */
+  static performanceSummary(options: PerformanceSummaryOptions = {}): PerformanceSummary {
+    const entries = readPerformanceEntries(this.getStore()?.[options.key ?? "perf"]);
+    const groups = new Map<string, { name: string; group?: string; entries: PerformanceEntry[] }>();
+
+    for (const entry of entries) {
+      const field = options.groupBy === undefined ? undefined : entry.data?.[options.groupBy];
+      const group = field === undefined || field === null ? undefined : String(field);
+      const groupKey = JSON.stringify([entry.name, group ?? null]);
+      let bucket = groups.get(groupKey);
+      if (!bucket) {
+        bucket = { name: entry.name, ...(group === undefined ? {} : { group }), entries: [] };
+        groups.set(groupKey, bucket);
+      }
+      bucket.entries.push(entry);
+    }
+
+    const summaries = [...groups.values()].map(({ entries: bucket, ...labels }) =>
+      summarizePerformanceGroup(labels, bucket)
+    );
+    return {
+      count: entries.length,
+      errors: summaries.reduce((sum, group) => sum + group.errors, 0),
+      totalMs: summaries.reduce((sum, group) => sum + group.totalMs, 0),
+      groups: summaries.sort((a, b) => b.totalMs - a.totalMs),
+    };
+  }
+
+  /**
+   * Removes a key from the active context (no-op if missing).
+   *
+   * @throws {Error} If the key is read-only or protected.
+   *
+   * @example
+   * ```ts
+   * Context.remove("token");
+   * ```
+   */
+  static remove(key: string): ContextStore {
+    const contextObject = this.requireStore();
+    assertRemovable(contextObject, key);
+    if (Object.prototype.hasOwnProperty.call(contextObject, key)) {
+      this.recordAudit(contextObject, "remove", key, {
+        previous: contextObject[key],
+      });
+      delete contextObject[key];
+    }
+    clearExpiry(contextObject, [key]);
+    return contextObject;
+  }
+
+  /**
+   * Removes a key from the active context, throwing if it does not exist.
+   *
+   * @throws {Error} If the key is read-only or protected.
+   *
+   * @example
+   * ```ts
+   * Context.safeRemove("token");
+   * ```
+   */
+  static safeRemove(key: string): ContextStore {
+    const contextObject = this.requireStore();
+    this.expireValues(contextObject, [key]);
+    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
+      throw new Error(
+        "You are trying to remove something that does not exist."
+      );
+    }
+    assertRemovable(contextObject, key);
+    this.recordAudit(contextObject, "remove", key, { previous: contextObject[key] });
+    delete contextObject[key];
+    clearExpiry(contextObject, [key]);
+    return contextObject;
+  }
+}
+
+const staticMethods = Object.entries(Object.getOwnPropertyDescriptors(Context)).filter(
+  ([, descriptor]) => !descriptor.enumerable && typeof descriptor.value === "function"
+);
+bindStaticMethods(Context);
+
+/**
+ * Binds the static methods of `Context` to a namespace, so detached calls
+ * such as `const { getValue } = Context` or `array.map(Context.getValue)`
+ * keep their namespace.
+ *
+ * @example
+ * ```ts
+ * bindStaticMethods(namespace);
+ * ```
+ */
+function bindStaticMethods(namespace: ContextNamespace): void {
+  for (const [name, descriptor] of staticMethods) {
+    Object.defineProperty(namespace, name, {
+      ...descriptor,
+      value: descriptor.value.bind(namespace),
+    });
+  }
+}
+
+/**
+ * Checks whether a value behaves like a Promise.
+ *
+ * @example
+ * ```ts
+ * const ok = isPromiseLike(Promise.resolve());
+ * ```
+ */
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+  return !!value && typeof (value as Promise<T>).then === "function";
+}
+
+/**
+ * Creates a lazy value to place in a store or seed. The factory runs on first
+ * read and its result is memoized. Typed as the produced value so it fits
+ * typed stores.
+ *
+ * @example
+ * ```ts
+ * createAsyncContextExpressMiddleware({
+ *   seed: (req) => ({ claims: lazyValue(() => decodeJwt(req.headers.authorization)) }),
+ * });
+ * ```
+ */
+export function lazyValue<T>(factory: () => T): T {
+  const value: LazyContextValue = {
+    [LAZY_VALUE]: "lazy",
+    factory,
+    computed: new WeakMap(),
+  };
+  return value as unknown as T;
+}
+
+/**
+ * Creates a computed value to place in a store or seed. The function runs on
+ * first read inside the active context and is memoized per store.
+ *
+ * @example
+ * ```ts
+ * const isAdmin = () => Context.getValue<string[]>("roles", [])!.includes("admin");
+ * Context.run({ roles: ["admin"], isAdmin: computedValue(isAdmin) }, handler);
+ * ```
+ */
+export function computedValue<T>(compute: () => T): T {
+  const value: LazyContextValue = {
+    [LAZY_VALUE]: "computed",
+    factory: compute,
+    computed: new WeakMap(),
+  };
+  return value as unknown as T;
+}
+
+/**
+ * Checks whether a value is a lazy or computed context value.
+ *
+ * @example
+ * ```ts
+ * if (isLazyValue(store.claims)) {
+ *   // not evaluated through the store yet
+ * }
+ * ```
+ */
+function isLazyValue(value: unknown): value is LazyContextValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.prototype.hasOwnProperty.call(value, LAZY_VALUE)
+  );
+}
+
+/**
+ * Returns a shallow copy of a store without changing it. Pending lazy values
+ * follow `policy`; with `now`, values expired by then are left out.
+ *
+ * @example
+ * ```ts
+ * copyStore(store, "placeholder", { now: Date.now(), excludeKeys: new Set(["perf"]) });
+ * ```
+ */
+function copyStore(
+  store: ContextStore,
+  policy: ContextLazyPolicy,
+  options: { now?: number; excludeKeys?: Set<string> } = {}
+): ContextStore {
+  const { now, excludeKeys } = options;
+  const expiry = now === undefined ? undefined : valueExpiry.get(store);
+  const copy: ContextStore = {};
+  for (const [key, value] of Object.entries(store)) {
+    if (excludeKeys?.has(key)) continue;
+    const expiresAt = expiry?.get(key)?.expiresAt;
+    if (expiresAt !== undefined && now! >= expiresAt) continue;
+    if (!isLazyValue(value)) {
+      copy[key] = value;
+    } else if (policy === "evaluate" || isLazyEvaluated(value, store)) {
+      copy[key] = resolveLazyValue(value, store);
+    } else if (policy === "placeholder") {
+      copy[key] = LAZY_PLACEHOLDER;
+    }
+  }
+  return copy;
+}
+
+/**
+ * Checks whether a lazy value was already evaluated for a store.
+ *
+ * @example
+ * ```ts
+ * const ready = isLazyEvaluated(value, store);
+ * ```
+ */
+function isLazyEvaluated(value: LazyContextValue, store: ContextStore): boolean {
+  return value[LAZY_VALUE] === "lazy"
+    ? value.evaluated !== undefined
+    : value.computed.has(store);
+}
+
+/**
+ * Returns plain values as-is and evaluates lazy values, memoizing the result.
+ * Rejected async results are not memoized so the next read retries.
+ *
+ * @example
+ * ```ts
+ * const claims = resolveLazyValue(store.claims, store);
+ * ```
+ */
+function resolveLazyValue(value: unknown, store: ContextStore): unknown {
+  if (!isLazyValue(value)) return value;
+
+  if (value[LAZY_VALUE] === "lazy") {
+    if (value.evaluated) return value.evaluated.value;
+    const result = value.factory();
+    const evaluated = { value: result };
+    value.evaluated = evaluated;
+    if (isPromiseLike(result)) {
+      result.then(undefined, () => {
+        if (value.evaluated === evaluated) value.evaluated = undefined;
+      });
+    }
+    return result;
+  }
+
+  if (value.computed.has(store)) return value.computed.get(store);
+  const result = value.factory();
+  value.computed.set(store, result);
+  if (isPromiseLike(result)) {
+    result.then(undefined, () => {
+      if (value.computed.get(store) === result) value.computed.delete(store);
+    });
+  }
+  return result;
+}
+
+/**
+ * Returns the values without lazy entries, or the same object when it has none.
+ *
+ * @example
+ * ```ts
+ * const checked = omitLazyValues({ a: 1, claims: lazyValue(load) }); // { a: 1 }
+ * ```
+ */
+function omitLazyValues<T extends ContextStore>(values: T): T {
+  if (!Object.values(values).some(isLazyValue)) return values;
+  const plain: ContextStore = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (!isLazyValue(value)) plain[key] = value;
+  }
+  return plain as T;
+}
+
+/**
+ * Records the baseline of a `runWith` child: the inherited values and array
+ * lengths used to detect appends, the keys shared copy-on-write, and the keys
+ * written since the last join.
+ *
+ * @example
+ * ```ts
+ * forks.set(childStore, createFork(childStore, parentStore, true));
+ * ```
+ */
+function createFork(
+  store: ContextStore,
+  parent: ContextStore,
+  copyOnWrite: boolean
+): ContextFork {
+  const fork: ContextFork = {
+    parent,
+    baseline: new Map(),
+    lengths: new Map(),
+    shared: new Set(),
+    written: new Set(),
+  };
+  rebaseFork(fork, store);
+  if (copyOnWrite) {
+    for (const [key, value] of Object.entries(store)) {
+      if (value !== parent[key]) continue;
+      if (typeof value === "object" && value !== null && !isLazyValue(value)) {
+        fork.shared.add(key);
+      }
+    }
+  }
+  return fork;
+}
+
+/**
+ * Marks keys of a `runWith` child as written, so a join merges them and they
+ * are no longer shared copy-on-write with the parent.
+ *
+ * @example
+ * ```ts
+ * markWritten(childStore, ["tenantId"]);
+ * ```
+ */
+function markWritten(store: ContextStore, keys: string[]): void {
+  const fork = forks.get(store);
+  if (!fork) return;
+  for (const key of keys) {
+    fork.shared.delete(key);
+    fork.written.add(key);
+  }
+}
+
+/**
+ * Moves the baseline of a fork to the current values of the child store.
+ *
+ * @example
+ * ```ts
+ * rebaseFork(fork, childStore);
+ * ```
+ */
+function rebaseFork(fork: ContextFork, store: ContextStore): void {
+  fork.baseline = new Map(Object.entries(store));
+  fork.lengths = new Map();
+  fork.written = new Set();
+  for (const [key, value] of fork.baseline) {
+    if (Array.isArray(value)) fork.lengths.set(key, value.length);
+  }
+}
+
+/**
+ * Checks whether a value looks like a performance entry.
+ *
+ * @example
+ * ```ts
+ * isPerformanceEntry({ name: "db", startedAt: 0, endedAt: 1, durationMs: 1 }); // true
+ * ```
+ */
+function isPerformanceEntry(value: unknown): value is PerformanceEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as PerformanceEntry;
+  return (
+    typeof entry.name === "string" &&
+    typeof entry.startedAt === "number" &&
+    typeof entry.endedAt === "number" &&
+    typeof entry.durationMs === "number"
+  );
+}
+
+/**
+ * Decides whether a `measure` call captures resource usage.
+ *
+ * @example
+ * ```ts
+ * shouldSample({ sampleRate: 0.1 }); // true for ~10% of calls
+ * ```
+ */
+function shouldSample(options: boolean | PerformanceResourceUsageOptions | undefined): boolean {
+  if (!options) return false;
+  const sampleRate = options === true ? 1 : options.sampleRate ?? 1;
+  return sampleRate >= 1 || (sampleRate > 0 && Math.random() < sampleRate);
+}
+
+/**
+ * Returns the current epoch time in milliseconds with sub-millisecond
+ * precision.
+ *
+ * @example
+ * ```ts
+ * highResolutionNow(); // 1760886000123.456
+ * ```
+ */
+function highResolutionNow(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Reads the counters `endResourceUsage` diffs against.
+ *
+ * @example
+ * ```ts
+ * const start = startResourceUsage();
+ * ```
+ */
+function startResourceUsage(): ResourceUsageStart {
+  return {
+    cpu: process.cpuUsage(),
+    heapUsed: v8.getHeapStatistics().used_heap_size,
+    eventLoop: performance.eventLoopUtilization(),
+  };
+}
+
+/**
+ * Computes the resource deltas since `startResourceUsage`.
+ *
+ * @example
+ * ```ts
+ * endResourceUsage(start); // { cpuUserMs: 1.2, cpuSystemMs: 0.1, ... }
+ * ```
+ */
+function endResourceUsage(start: ResourceUsageStart): PerformanceResourceUsage {
+  const cpu = process.cpuUsage(start.cpu);
+  return {
+    cpuUserMs: cpu.user / 1000,
+    cpuSystemMs: cpu.system / 1000,
+    heapUsedDeltaBytes: v8.getHeapStatistics().used_heap_size - start.heapUsed,
+    eventLoopUtilization: performance.eventLoopUtilization(start.eventLoop).utilization,
+  };
+}
+
+/**
+ * Compiles a budget glob (`*` for any characters, `?` for one) to a RegExp.
+ *
+ * @example
+ * ```ts
+ * compileGlob("db.*").test("db.query"); // true
+ * ```
+ */
+function compileGlob(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[\\^$.|+()[\]{}]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns the performance entries stored under a key, whether it holds a
+ * list or a single (overwritten) entry.
+ *
+ * @example
+ * ```ts
+ * readPerformanceEntries(Context.getValue("perf")); // PerformanceEntry[]
+ * ```
+ */
+export function readPerformanceEntries(value: unknown): PerformanceEntry[] {
+  return (Array.isArray(value) ? value : value ? [value] : []).filter(isPerformanceEntry);
+}
+
+/**
+ * Computes the statistics of one summary group.
+ *
+ * @example
+ * ```ts
+ * summarizePerformanceGroup({ name: "db.query" }, entries); // { count: 3, p95Ms: 12, ... }
+ * ```
+ */
+function summarizePerformanceGroup(
+  labels: Pick<PerformanceSummaryGroup, "name" | "group">,
+  entries: PerformanceEntry[]
+): PerformanceSummaryGroup {
+  const durations = entries.map((entry) => entry.durationMs).sort((a, b) => a - b);
+  const totalMs = durations.reduce((sum, duration) => sum + duration, 0);
+  return {
+    ...labels,
+    count: entries.length,
+    errors: entries.filter((entry) => entry.error !== undefined).length,
+    totalMs,
+    minMs: durations[0],
+    maxMs: durations[durations.length - 1],
+    meanMs: totalMs / durations.length,
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending, non-empty list.
+ *
+ * @example
+ * ```ts
+ * percentile([1, 2, 3, 4], 50); // 2
+ * ```
+ */
+function percentile(sorted: number[], rank: number): number {
+  const index = Math.ceil((rank / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
 
-      Context.recordPerformance(entry, options);
+/**
+ * Links entries to their parents and computes self time from the union of
+ * each node's child intervals, so concurrent children are not counted twice.
+ *
+ * @example
+ * ```ts
+ * buildPerformanceTree(Context.getValue("perf") ?? []);
+ * ```
+ */
+function buildPerformanceTree(entries: PerformanceEntry[]): PerformanceTreeNode[] {
+  const nodes = new Map<PerformanceEntry, PerformanceTreeNode>();
+  const byId = new Map<string, PerformanceTreeNode>();
+  for (const entry of entries) {
+    const node: PerformanceTreeNode = {
+      ...(entry.id === undefined ? {} : { id: entry.id }),
+      name: entry.name,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
+      totalMs: entry.durationMs,
+      selfMs: entry.durationMs,
+      ...(entry.data ? { data: entry.data } : {}),
+      ...(entry.error ? { error: entry.error } : {}),
+      ...(entry.resources ? { resources: entry.resources } : {}),
+      children: [],
     };
+    nodes.set(entry, node);
+    if (entry.id !== undefined) byId.set(entry.id, node);
+  }
 
-    try {
-      const result = callback();
-      if (isPromiseLike(result)) {
-        return (result
-          .then((value) => {
-            finalize();
-            return value;
-          })
-          .catch((error) => {
-            finalize(error);
-            throw error;
-          })) as T;
-      }
-      finalize();
-      return result;
-    } catch (error) {
-      finalize(error);
-      throw error;
-    }
+  const roots: PerformanceTreeNode[] = [];
+  for (const entry of entries) {
+    const node = nodes.get(entry)!;
+    const parent = entry.parentId === undefined ? undefined : byId.get(entry.parentId);
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
   }
 
-  /**
-   * Removes a key from the active context (no-op if missing).
-   *
-   * @example
-   * ```ts
-   * Context.remove("token");
-   * ```
-   */
-  static remove(key: string): ContextStore {
-    const contextObject = Context.requireStore();
-    if (Object.prototype.hasOwnProperty.call(contextObject, key)) {
-      delete contextObject[key];
+  const byStart = (a: PerformanceTreeNode, b: PerformanceTreeNode) => a.startedAt - b.startedAt;
+  for (const node of nodes.values()) {
+    node.children.sort(byStart);
+    node.selfMs = Math.max(0, node.totalMs - coveredDuration(node));
+  }
+  return roots.sort(byStart);
+}
+
+/**
+ * Returns how much of a node's interval is covered by its children.
+ *
+ * @example
+ * ```ts
+ * coveredDuration(node); // 8 for children [0, 5] and [3, 8] inside [0, 10]
+ * ```
+ */
+function coveredDuration(node: PerformanceTreeNode): number {
+  let covered = 0;
+  let cursor = node.startedAt;
+  for (const child of node.children) {
+    const start = Math.max(child.startedAt, cursor);
+    const end = Math.min(child.endedAt, node.endedAt);
+    if (end > start) {
+      covered += end - start;
+      cursor = end;
     }
-    return contextObject;
   }
+  return covered;
+}
 
-  /**
-   * Removes a key from the active context, throwing if it does not exist.
-   *
-   * @example
-   * ```ts
-   * Context.safeRemove("token");
-   * ```
-   */
-  static safeRemove(key: string): ContextStore {
-    const contextObject = Context.requireStore();
-    if (!Object.prototype.hasOwnProperty.call(contextObject, key)) {
-      throw new Error(
-        "You are trying to remove something that does not exist."
-      );
+/**
+ * Remembers that a key of a store holds performance entries.
+ *
+ * @example
+ * ```ts
+ * markPerformanceKey(store, "perf");
+ * ```
+ */
+function markPerformanceKey(store: ContextStore, key: string): void {
+  let keys = performanceKeys.get(store);
+  if (!keys) {
+    keys = new Set();
+    performanceKeys.set(store, keys);
+  }
+  keys.add(key);
+}
+
+/**
+ * Returns a shallow copy of arrays, plain objects, maps, and sets; other
+ * values are returned as-is.
+ *
+ * @example
+ * ```ts
+ * const copy = cloneShallow({ retry: 1 });
+ * ```
+ */
+function cloneShallow(value: unknown): unknown {
+  if (Array.isArray(value)) return value.slice();
+  if (value instanceof Map) return new Map(value);
+  if (value instanceof Set) return new Set(value);
+  if (typeof value === "object" && value !== null) {
+    const proto = Object.getPrototypeOf(value);
+    if (proto === Object.prototype || proto === null) return { ...value };
+  }
+  return value;
+}
+
+/**
+ * Returns the previous value of a key for an audit entry, or nothing when the
+ * key is missing.
+ *
+ * @example
+ * ```ts
+ * this.recordAudit(store, "addValue", key, { ...auditPrevious(store, key), next });
+ * ```
+ */
+function auditPrevious(store: ContextStore, key: string): ContextAuditChange {
+  return Object.prototype.hasOwnProperty.call(store, key)
+    ? { previous: store[key] }
+    : {};
+}
+
+/**
+ * Copies the audit trail of a parent store into a child store.
+ *
+ * @example
+ * ```ts
+ * inheritAudit(childStore, parentStore);
+ * ```
+ */
+function inheritAudit(store: ContextStore, parent: ContextStore): void {
+  const trail = auditTrails.get(parent);
+  if (trail) auditTrails.set(store, [...trail]);
+}
+
+/**
+ * Describes a value for the audit trail: its full JSON text when it can be
+ * serialized, otherwise a readable placeholder.
+ *
+ * @example
+ * ```ts
+ * describeAuditValue({ id: 1 }); // { text: "{\"id\":1}", json: true }
+ * describeAuditValue(() => 1); // { text: "[Function anonymous]", json: false }
+ * ```
+ */
+function describeAuditValue(value: unknown): ContextAuditValue {
+  if (isLazyValue(value)) return { text: LAZY_PLACEHOLDER, json: false };
+  if (typeof value === "function") {
+    return { text: `[Function ${value.name || "anonymous"}]`, json: false };
+  }
+  if (typeof value === "bigint" || typeof value === "symbol") {
+    return { text: value.toString(), json: false };
+  }
+  if (value === undefined) return { text: "undefined", json: false };
+  try {
+    const text = JSON.stringify(value);
+    if (text !== undefined) return { text, json: true };
+    return { text: String(value), json: false };
+  } catch {
+    return { text: Object.prototype.toString.call(value), json: false };
+  }
+}
+
+/**
+ * Summarizes a recorded audit value after passing a copy of it through `redact`.
+ *
+ * @example
+ * ```ts
+ * redactAuditValue("user", { text: "{\"password\":\"x\"}", json: true }, redact, 80);
+ * // "{\"password\":\"[REDACTED]\"}"
+ * ```
+ */
+function redactAuditValue(
+  key: string,
+  value: ContextAuditValue,
+  redact: (key: string, value: unknown) => unknown,
+  maxLength: number
+): string {
+  const original: unknown = value.json ? JSON.parse(value.text) : value.text;
+  const redacted = redact(key, original);
+  let text = value.text;
+  if (typeof redacted === "string" && redacted !== original) {
+    text = redacted;
+  } else if (value.json) {
+    text = JSON.stringify(redacted) ?? "undefined";
+  }
+  return truncateSummary(text, maxLength);
+}
+
+/**
+ * Truncates an audit summary to `maxLength`.
+ *
+ * @example
+ * ```ts
+ * truncateSummary("abcdef", 3); // "abc..."
+ * ```
+ */
+function truncateSummary(summary: string, maxLength: number): string {
+  return summary.length > maxLength ? `${summary.slice(0, maxLength)}...` : summary;
+}
+
+/**
+ * Returns the first stack frame outside this module, without the `at ` prefix.
+ *
+ * @example
+ * ```ts
+ * captureCallSite(); // "handler (/app/routes.ts:12:5)"
+ * ```
+ */
+function captureCallSite(): string | undefined {
+  const frames = (new Error().stack ?? "")
+    .split("\n")
+    .slice(1)
+    .map((frame) => frame.trim().replace(/^at /, ""));
+  if (frames.length === 0) return undefined;
+
+  if (moduleFile === undefined) {
+    const match = /\(?([^()\s]+):\d+:\d+\)?$/.exec(frames[0]);
+    moduleFile = match?.[1] ?? "";
+  }
+  const file = moduleFile;
+  return frames.find((frame) => !file || !frame.includes(file));
+}
+
+/**
+ * Registers the expiry of a key in a store.
+ *
+ * @example
+ * ```ts
+ * setExpiry(store, "accessToken", { expiresAt: Date.now() + 1000, ttlMs: 1000 });
+ * ```
+ */
+function setExpiry(store: ContextStore, key: string, entry: ContextValueExpiry): void {
+  let expiry = valueExpiry.get(store);
+  if (!expiry) {
+    expiry = new Map();
+    valueExpiry.set(store, expiry);
+  }
+  expiry.set(key, entry);
+}
+
+/**
+ * Removes the expiry of keys that were overwritten or removed.
+ *
+ * @example
+ * ```ts
+ * clearExpiry(store, ["accessToken"]);
+ * ```
+ */
+function clearExpiry(store: ContextStore, keys: string[]): void {
+  const expiry = valueExpiry.get(store);
+  if (!expiry) return;
+  for (const key of keys) expiry.delete(key);
+}
+
+/**
+ * Copies the expiry of parent keys that a child store did not override.
+ *
+ * @example
+ * ```ts
+ * inheritExpiry(childStore, parentStore, ["feature"]);
+ * ```
+ */
+function inheritExpiry(
+  store: ContextStore,
+  parent: ContextStore,
+  overridden: string[]
+): void {
+  const expiry = valueExpiry.get(parent);
+  if (!expiry || expiry.size === 0) return;
+  const inherited = new Map(expiry);
+  for (const key of overridden) inherited.delete(key);
+  valueExpiry.set(store, inherited);
+}
+
+/**
+ * Registers read-only and protected keys for a store, inheriting the
+ * protection of an optional parent store.
+ *
+ * @example
+ * ```ts
+ * protectKeys(store, { readOnlyKeys: ["instance_id"] }, parentStore);
+ * ```
+ */
+function protectKeys(
+  store: ContextStore,
+  options: ContextRunOptions,
+  parent?: ContextStore
+): void {
+  const inherited = parent ? keyProtection.get(parent) : undefined;
+  const { readOnlyKeys = [], protectedKeys = [] } = options;
+  if (!inherited && readOnlyKeys.length === 0 && protectedKeys.length === 0) return;
+
+  const current = keyProtection.get(store);
+  const protection: ContextKeyProtection = {
+    readOnly: new Set([...(current?.readOnly ?? []), ...(inherited?.readOnly ?? [])]),
+    protected: new Set([
+      ...(current?.protected ?? []),
+      ...(inherited?.protected ?? []),
+    ]),
+  };
+  for (const key of readOnlyKeys) protection.readOnly.add(getContextKeyName(key));
+  for (const key of protectedKeys) protection.protected.add(getContextKeyName(key));
+  keyProtection.set(store, protection);
+}
+
+/**
+ * Checks whether a key is read-only or protected in a store.
+ *
+ * @example
+ * ```ts
+ * if (isKeyProtected(store, "instance_id")) return;
+ * ```
+ */
+function isKeyProtected(store: ContextStore, key: string): boolean {
+  const protection = keyProtection.get(store);
+  if (!protection) return false;
+  return protection.readOnly.has(key) || protection.protected.has(key);
+}
+
+/**
+ * Throws when any of the keys is read-only and already set in the store.
+ *
+ * @example
+ * ```ts
+ * assertWritable(store, ["instance_id"]);
+ * ```
+ */
+function assertWritable(store: ContextStore, keys: string[]): void {
+  const protection = keyProtection.get(store);
+  if (!protection) return;
+  for (const key of keys) {
+    if (
+      protection.readOnly.has(key) &&
+      Object.prototype.hasOwnProperty.call(store, key)
+    ) {
+      throw new Error(`Context value "${key}" is read-only.`);
     }
-    delete contextObject[key];
-    return contextObject;
   }
 }
 
 /**
- * Checks whether a value behaves like a Promise.
+ * Throws when a key is read-only or protected in the store.
  *
  * @example
  * ```ts
- * const ok = isPromiseLike(Promise.resolve());
+ * assertRemovable(store, "instance_id");
  * ```
  */
-function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
-  return !!value && typeof (value as Promise<T>).then === "function";
+function assertRemovable(store: ContextStore, key: string): void {
+  if (isKeyProtected(store, key)) {
+    throw new Error(`Context value "${key}" is protected and cannot be removed.`);
+  }
 }
 
 /**
@@ -515,3 +2962,63 @@ function normalizePerformanceError(error: unknown): PerformanceError {
   }
   return { message: String(error) };
 }
+
+/**
+ * Creates a typed token for reading and writing a context value.
+ *
+ * @example
+ * ```ts
+ * const TenantId = createContextKey<string>("tenantId");
+ * const Locale = createContextKey("locale", { default: "en-US" });
+ *
+ * Context.run({}, () => {
+ *   Context.set(TenantId, "t_123");
+ *   Context.get(Locale); // "en-US"
+ * });
+ * ```
+ */
+export function createContextKey<T>(
+  name: string,
+  options: ContextKeyOptions<T> & { default: T }
+): DefaultedContextKey<T>;
+export function createContextKey<T>(
+  name: string,
+  options?: ContextKeyOptions<T>
+): ContextKey<T>;
+export function createContextKey<T>(
+  name: string,
+  options: ContextKeyOptions<T> = {}
+): ContextKey<T> {
+  const key: { -readonly [K in keyof ContextKey<T>]: ContextKey<T>[K] } = { name };
+  if (Object.prototype.hasOwnProperty.call(options, "default")) {
+    key.default = options.default;
+  }
+  if (options.validate) key.validate = options.validate;
+  return Object.freeze(key);
+}
+
+/**
+ * Resolves the store key for a string or typed context key.
+ *
+ * @example
+ * ```ts
+ * getContextKeyName(TenantId); // "tenantId"
+ * ```
+ */
+export function getContextKeyName(key: ContextKeyLike): string {
+  return typeof key === "string" ? key : key.name;
+}
+
+/**
+ * Checks whether a typed key was created with a default value.
+ *
+ * @example
+ * ```ts
+ * if (hasContextKeyDefault(Locale)) {
+ *   // ...
+ * }
+ * ```
+ */
+function hasContextKeyDefault<T>(key: ContextKey<T>): key is DefaultedContextKey<T> {
+  return Object.prototype.hasOwnProperty.call(key, "default");
+}
@@ -1,4 +1,61 @@
-export { Context, type ContextStore } from "./context";
+export {
+  Context,
+  computedValue,
+  createContextKey,
+  lazyValue,
+  type AsyncContextRegistry,
+  type AsyncContextRegistryConfig,
+  type ContextAuditEntry,
+  type ContextAuditOperation,
+  type ContextAuditOptions,
+  type ContextEmitterLike,
+  type ContextFanOutOptions,
+  type ContextHistoryOptions,
+  type ContextJoinOptions,
+  type ContextJoinReducer,
+  type ContextJoinStrategy,
+  type ContextKey,
+  type ContextKeyLike,
+  type ContextKeyOptions,
+  type ContextLazyPolicy,
+  type ContextNamespace,
+  type ContextPipelineCallback,
+  type ContextPipelineStream,
+  type ContextProtectOptions,
+  type ContextRunOptions,
+  type ContextRunner,
+  type ContextRunWithOptions,
+  type ContextSnapshotOptions,
+  type ContextStore,
+  type ContextValueOptions,
+  type DefaultedContextKey,
+  type RegisteredContextKey,
+  type RegisteredContextValue,
+  type UnregisteredContextKey,
+} from "./context";
+export {
+  AsyncContext,
+  AsyncContextSnapshot,
+  AsyncContextVariable,
+  type AsyncContextVariableOptions,
+} from "./async-context";
+export {
+  ContextValidationError,
+  schema,
+  validateContextValues,
+  type ContextParserLike,
+  type ContextSchema,
+  type ContextSchemaEntry,
+  type ContextSchemaLogger,
+  type ContextSchemaMode,
+  type ContextSchemaOptions,
+  type ContextSchemaShape,
+  type ContextSchemaValidator,
+  type ContextValidationIssue,
+  type ContextValidationPath,
+  type InferContextSchema,
+  type InferContextSchemaValue,
+} from "./schema";
 export {
   AsyncContextExpresssMiddleware,
   AsyncContextExpressMiddleware,
@@ -7,13 +64,17 @@ export {
   type AsyncContextExpressSeed,
 } from "./integrations/express";
 export { AsyncContextNestMiddleware } from "./integrations/nest";
-export { AsyncContextAdonisMiddleware } from "./integrations/adonis";
+export {
+  AsyncContextAdonisMiddleware,
+  type AsyncContextAdonisOptions,
+} from "./integrations/adonis";
 export {
   createAsyncContextFastifyHook,
   registerAsyncContextFastify,
   type AsyncContextFastifyOptions,
   type AsyncContextFastifySeed,
   type FastifyHook,
+  type FastifyRequestIdOptions,
   type FastifyRequestLike,
   type FastifyReplyLike,
 } from "./integrations/fastify";
@@ -30,6 +91,117 @@ export {
   type AsyncContextNextSeed,
   type NextApiHandler,
 } from "./integrations/next";
+export { readRequestId, type RequestIdOptions } from "./integrations/request-id";
+export type { PerformanceSummaryLogOptions } from "./integrations/performance-summary";
+export {
+  formatServerTimingHeader,
+  type ServerTimingOptions,
+} from "./integrations/server-timing";
+export {
+  createOutgoingHttpHeaders,
+  instrumentOutgoingHttp,
+  type OutgoingHttpInstrumentationOptions,
+  type OutgoingHttpRequestInfo,
+} from "./integrations/http-client";
+export {
+  captureWorkerContext,
+  createContextWorkerPool,
+  createWorkerWithContext,
+  handleWorkerTasks,
+  isWorkerContextMessage,
+  onMessageWithContext,
+  postMessageWithContext,
+  runWithWorkerContext,
+  wrapWorkerMessage,
+  type ContextWorkerLike,
+  type ContextWorkerPool,
+  type ContextWorkerPoolOptions,
+  type WorkerContextMessage,
+  type WorkerContextOptions,
+  type WorkerMessageSource,
+  type WorkerMessageTarget,
+  type WorkerTaskHandler,
+  type WorkerTaskHandlerOptions,
+} from "./integrations/worker-threads";
+export {
+  CHILD_CONTEXT_ENV,
+  decodeChildContext,
+  encodeChildContext,
+  enterInheritedContext,
+  forkWithContext,
+  isContextHandshake,
+  readInheritedContext,
+  receiveContextHandshake,
+  runWithInheritedContext,
+  spawnWithContext,
+  withContextEnv,
+  type ChildContextEnvOptions,
+  type ChildContextOptions,
+  type ContextHandshakeMessage,
+  type ContextHandshakeOptions,
+  type ForkWithContextOptions,
+  type InheritedContextOptions,
+} from "./integrations/child-process";
+export {
+  JOB_CONTEXT_FIELD,
+  createContextJobConsumer,
+  createContextJobProducer,
+  createInMemoryJobQueue,
+  createJobContextEnvelope,
+  jobAdapters,
+  readJobContext,
+  stripJobContext,
+  withJobContext,
+  type ContextJobConsumerOptions,
+  type InMemoryJob,
+  type InMemoryJobQueue,
+  type InMemoryJobQueueOptions,
+  type JobAdapter,
+  type JobContextEnvelope,
+  type JobContextOptions,
+  type JobDescriptor,
+  type JobHandler,
+  type JobHandlerHelpers,
+  type JobPayloadWithContext,
+} from "./integrations/jobs";
+export {
+  createContextHeaders,
+  extractMessageContext,
+  injectMessageContext,
+  messageHeaderAdapters,
+  parseContextHeaders,
+  runWithMessageContext,
+  type MessageHeaderAdapter,
+  type MessageHeaderCodecOptions,
+  type MessageHeaderDropReason,
+  type MessageHeaders,
+  type MessageHeaderValue,
+} from "./integrations/message-headers";
+export {
+  TRACE_CONTEXT_KEY,
+  createCompositePropagator,
+  createTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  getTraceContext,
+  injectTraceContextHeaders,
+  isTraceContext,
+  parseTraceparent,
+  parseTracestate,
+  resolveTracePropagator,
+  tracePropagators,
+  type CompositePropagatorOptions,
+  type InjectTraceContextOptions,
+  type ParsedTraceparent,
+  type RemoteSpanContext,
+  type TraceContext,
+  type TraceContextHeaders,
+  type TraceContextOptions,
+  type TracePropagator,
+  type TracePropagatorInput,
+  type TracePropagatorName,
+} from "./trace-context";
 export { Logger, createLogger, createConsoleTransport } from "./logging/logger";
 export type {
   LogLevel,
@@ -61,6 +233,7 @@ export {
   bindAsyncContextToSentryScope,
   captureExceptionWithContext,
   initSentryWithAsyncContext,
+  tagSentryScopeWithBudgetViolation,
   sentryAsyncContextExpressMiddleware,
   sentryErrorHandler,
 } from "./integrations/sentry";
@@ -77,6 +250,8 @@ export {
   getCachedOpenTelemetryApi,
   withOpenTelemetrySpan,
   recordOpenTelemetrySpan,
+  recordOpenTelemetryPerformanceTree,
+  recordOpenTelemetryBudgetViolation,
   getActiveOpenTelemetrySpanContext,
   setOpenTelemetryBaggageFromContext,
   mergeContextFromOpenTelemetryBaggage,
@@ -94,6 +269,7 @@ export type {
   OpenTelemetrySpanSummary,
   OpenTelemetrySpanOptions,
   OpenTelemetrySpanRecordOptions,
+  OpenTelemetryPerformanceTreeOptions,
   OpenTelemetryBaggageFromContextOptions,
   OpenTelemetryContextFromBaggageOptions,
   OpenTelemetryHeaderPropagationOptions,
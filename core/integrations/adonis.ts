@@ -1,12 +1,40 @@
 import crypto from "node:crypto";
-import { Context } from "../context";
+import { Context, type ContextStore } from "../context";
+import {
+  createTraceContext,
+  resolveTracePropagator,
+  TRACE_CONTEXT_KEY,
+  type TracePropagatorInput,
+} from "../trace-context";
+import { echoRequestId, resolveRequestId, type RequestIdOptions } from "./request-id";
 
 type NextFunction = () => Promise<unknown>;
 type AdonisContext = Record<string, unknown>;
 
+export type AsyncContextAdonisOptions = {
+  /**
+   * Continues the W3C trace from incoming `traceparent`/`tracestate` headers
+   * (or starts a new one) and stores it under `traceContext`.
+   * @default false
+   */
+  traceContext?: boolean;
+  /**
+   * Header formats used to continue incoming traces, e.g. `["tracecontext", "b3"]`.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  /**
+   * Adopts a valid incoming `x-request-id`/`x-correlation-id` as `instance_id`
+   * (generating one otherwise) and echoes it through `ctx.response.header`.
+   * Incoming ids are ignored unless this is set.
+   */
+  requestId?: RequestIdOptions;
+};
+
 /**
  * AdonisJS middleware that initializes a new asynchronous context
- * for each incoming request.
+ * for each incoming request. `instance_id` is read-only. Subclass it and pass
+ * options to `super` to configure it.
  *
  * Compatible with AdonisJS' middleware signature:
  * `async handle(ctx, next)`.
@@ -14,9 +42,16 @@ type AdonisContext = Record<string, unknown>;
  * @example
  * ```ts
  * // Register AsyncContextAdonisMiddleware in AdonisJS middleware pipeline.
+ * export default class AsyncContext extends AsyncContextAdonisMiddleware {
+ *   constructor() {
+ *     super({ traceContext: true });
+ *   }
+ * }
  * ```
  */
 export class AsyncContextAdonisMiddleware {
+  constructor(private readonly options: AsyncContextAdonisOptions = {}) {}
+
   /**
    * Adonis middleware entrypoint.
    *
@@ -25,10 +60,32 @@ export class AsyncContextAdonisMiddleware {
    * // Called by AdonisJS at runtime.
    * ```
    */
-  async handle(_ctx: AdonisContext, next: NextFunction) {
-    const uuid = crypto.randomUUID();
-    const localStorageInstance = Context.getInstance();
+  async handle(ctx: AdonisContext, next: NextFunction) {
+    const { requestId } = this.options;
+    const headers = readAdonisHeaders(ctx);
+    const id = resolveRequestId(headers, () => crypto.randomUUID(), requestId);
+    const store: ContextStore = { instance_id: id };
+    if (this.options.traceContext) {
+      const propagator = resolveTracePropagator(this.options.propagator);
+      store[TRACE_CONTEXT_KEY] = createTraceContext(headers, { propagator });
+    }
+    echoRequestId(ctx?.response, id, requestId);
 
-    return localStorageInstance.run({ instance_id: uuid }, () => next());
+    return Context.run(store, () => next(), {
+      readOnlyKeys: ["instance_id"],
+    });
   }
 }
+
+/**
+ * Reads request headers through AdonisJS' `ctx.request.headers()`.
+ *
+ * @example
+ * ```ts
+ * readAdonisHeaders(ctx); // { traceparent: "00-..." }
+ * ```
+ */
+function readAdonisHeaders(ctx: AdonisContext): Record<string, unknown> | undefined {
+  const request = ctx?.request as { headers?: () => Record<string, unknown> } | undefined;
+  return typeof request?.headers === "function" ? request.headers() : undefined;
+}
@@ -0,0 +1,323 @@
+import {
+  fork,
+  spawn,
+  type ChildProcess,
+  type ForkOptions,
+  type SpawnOptions,
+} from "node:child_process";
+import {
+  Context,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type ContextStore,
+} from "../context";
+import { selectSerializableContext, warnDroppedKeys } from "../propagation";
+
+/**
+ * Environment variable carrying the encoded parent context.
+ */
+export const CHILD_CONTEXT_ENV = "ASYNC_CONTEXT";
+
+export type ChildContextOptions = {
+  /**
+   * Context namespace to encode.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Only these keys are sent to the child, for example the request id,
+   * tenant, and trace context. Defaults to the whole snapshot.
+   */
+  keys?: ContextKeyLike[];
+  /**
+   * Keys never sent to the child. Performance entries (`perf`) are always skipped.
+   */
+  excludeKeys?: ContextKeyLike[];
+  /**
+   * Called with the keys dropped because they are not JSON-serializable.
+   * @default process.emitWarning
+   */
+  onDropped?: (keys: string[]) => void;
+};
+
+export type ChildContextEnvOptions = ChildContextOptions & {
+  /**
+   * @default "ASYNC_CONTEXT"
+   */
+  variable?: string;
+};
+
+export type ForkWithContextOptions = ChildContextEnvOptions & {
+  /**
+   * Also send the context as the first IPC message, read in the child with
+   * `receiveContextHandshake`.
+   * @default false
+   */
+  handshake?: boolean;
+};
+
+export type InheritedContextOptions = {
+  /**
+   * @default process.env
+   */
+  env?: NodeJS.ProcessEnv;
+  /**
+   * @default "ASYNC_CONTEXT"
+   */
+  variable?: string;
+  /**
+   * Namespace that receives the inherited store.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+};
+
+export type ContextHandshakeOptions = {
+  /**
+   * Process receiving the handshake.
+   * @default process
+   */
+  process?: NodeJS.Process | NodeJS.EventEmitter;
+  /**
+   * Resolves with `undefined` when no handshake arrives in time.
+   * @default 1000
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * IPC message sent by `forkWithContext` with `handshake: true`.
+ */
+export type ContextHandshakeMessage = { __asyncContextHandshake: ContextStore };
+
+/**
+ * Encodes the active context (selected keys, JSON-serializable values only)
+ * as a base64url string for an environment variable.
+ *
+ * @example
+ * ```ts
+ * const encoded = encodeChildContext({ keys: ["instance_id", "tenantId"] });
+ * ```
+ */
+export function encodeChildContext(options: ChildContextOptions = {}): string | undefined {
+  const store = captureChildContext(options);
+  if (Object.keys(store).length === 0) return undefined;
+  return Buffer.from(JSON.stringify(store), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a value produced by `encodeChildContext`. Plain JSON objects are
+ * accepted too. Returns `undefined` for missing or malformed values.
+ *
+ * @example
+ * ```ts
+ * decodeChildContext(process.env.ASYNC_CONTEXT); // { instance_id: "..." }
+ * ```
+ */
+export function decodeChildContext(value: string | undefined): ContextStore | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const json = trimmed.startsWith("{")
+    ? trimmed
+    : Buffer.from(trimmed, "base64url").toString("utf8");
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+    return parsed as ContextStore;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns a copy of `env` with the active context encoded in `ASYNC_CONTEXT`.
+ * Without an active context, the variable is removed so a stale value from
+ * the parent's own environment is not passed on.
+ *
+ * @example
+ * ```ts
+ * execFile("node", ["report.js"], { env: withContextEnv() });
+ * ```
+ */
+export function withContextEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  options: ChildContextEnvOptions = {}
+): NodeJS.ProcessEnv {
+  const { variable = CHILD_CONTEXT_ENV } = options;
+  const encoded = encodeChildContext(options);
+  const next = { ...env };
+  if (encoded) {
+    next[variable] = encoded;
+  } else {
+    delete next[variable];
+  }
+  return next;
+}
+
+/**
+ * `child_process.spawn` with the active context in the child's environment.
+ *
+ * @example
+ * ```ts
+ * spawnWithContext("node", ["scripts/export.js"], { stdio: "inherit" }, {
+ *   keys: ["instance_id", "tenantId"],
+ * });
+ * ```
+ */
+export function spawnWithContext(
+  command: string,
+  args: readonly string[] = [],
+  spawnOptions: SpawnOptions = {},
+  options: ChildContextEnvOptions = {}
+): ChildProcess {
+  return spawn(command, args, {
+    ...spawnOptions,
+    env: withContextEnv(spawnOptions.env, options),
+  });
+}
+
+/**
+ * `child_process.fork` with the active context in the child's environment
+ * and, with `handshake: true`, as the first IPC message.
+ *
+ * @example
+ * ```ts
+ * const child = forkWithContext("./jobs/resize.js", [], {}, { handshake: true });
+ * ```
+ */
+export function forkWithContext(
+  modulePath: string,
+  args: readonly string[] = [],
+  forkOptions: ForkOptions = {},
+  options: ForkWithContextOptions = {}
+): ChildProcess {
+  const store = options.handshake ? captureChildContext(options) : undefined;
+  const child = fork(modulePath, args, {
+    ...forkOptions,
+    env: withContextEnv(forkOptions.env, options),
+  });
+  if (store) {
+    const message: ContextHandshakeMessage = { __asyncContextHandshake: store };
+    child.send(message);
+  }
+  return child;
+}
+
+/**
+ * Reads the store inherited from the parent process, if any.
+ *
+ * @example
+ * ```ts
+ * readInheritedContext(); // { instance_id: "...", tenantId: "t_1" }
+ * ```
+ */
+export function readInheritedContext(
+  options: InheritedContextOptions = {}
+): ContextStore | undefined {
+  const { env = process.env, variable = CHILD_CONTEXT_ENV } = options;
+  return decodeChildContext(env[variable]);
+}
+
+/**
+ * Child-side bootstrap: runs the callback inside the store inherited from the
+ * parent, or without a context when nothing was inherited.
+ *
+ * @example
+ * ```ts
+ * // jobs/export.js
+ * runWithInheritedContext(async () => {
+ *   logger.info("export started"); // includes the parent's instance_id
+ *   await runExport();
+ * });
+ * ```
+ */
+export function runWithInheritedContext<T>(
+  callback: () => T,
+  options: InheritedContextOptions = {}
+): T {
+  const store = readInheritedContext(options);
+  if (!store) return callback();
+  return (options.namespace ?? Context).run(store, callback);
+}
+
+/**
+ * Child-side bootstrap for code that cannot be wrapped in a callback: enters
+ * the inherited store for the rest of the current execution.
+ *
+ * @example
+ * ```ts
+ * // first line of the child entry point
+ * enterInheritedContext();
+ * ```
+ */
+export function enterInheritedContext(options: InheritedContextOptions = {}): boolean {
+  const store = readInheritedContext(options);
+  if (!store) return false;
+  (options.namespace ?? Context).enterWith(store);
+  return true;
+}
+
+/**
+ * Waits for the IPC handshake sent by `forkWithContext`.
+ *
+ * @example
+ * ```ts
+ * const store = await receiveContextHandshake();
+ * await Context.run(store ?? {}, main);
+ * ```
+ */
+export function receiveContextHandshake(
+  options: ContextHandshakeOptions = {}
+): Promise<ContextStore | undefined> {
+  const { process: target = process, timeoutMs = 1000 } = options;
+
+  return new Promise((resolve) => {
+    const listener = (message: unknown) => {
+      if (!isContextHandshake(message)) return;
+      done(message.__asyncContextHandshake);
+    };
+    const timer = setTimeout(() => done(undefined), timeoutMs);
+    const done = (store: ContextStore | undefined) => {
+      clearTimeout(timer);
+      target.off("message", listener);
+      resolve(store);
+    };
+    target.on("message", listener);
+  });
+}
+
+/**
+ * Checks whether an IPC message is a context handshake.
+ *
+ * @example
+ * ```ts
+ * process.on("message", (message) => {
+ *   if (isContextHandshake(message)) return;
+ *   handle(message);
+ * });
+ * ```
+ */
+export function isContextHandshake(value: unknown): value is ContextHandshakeMessage {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as ContextHandshakeMessage).__asyncContextHandshake === "object"
+  );
+}
+
+/**
+ * Returns the filtered, JSON-serializable part of the active context.
+ *
+ * @example
+ * ```ts
+ * captureChildContext({ keys: ["tenantId"] }); // { tenantId: "t_1" }
+ * ```
+ */
+function captureChildContext(options: ChildContextOptions): ContextStore {
+  return selectSerializableContext({
+    namespace: options.namespace,
+    keys: options.keys,
+    excludeKeys: options.excludeKeys,
+    onDropped: options.onDropped ?? ((keys) => warnDroppedKeys(keys, "a child process")),
+  });
+}
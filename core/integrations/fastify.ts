@@ -1,13 +1,42 @@
 import crypto from "node:crypto";
-import { Context, type ContextStore } from "../context";
+import {
+  Context,
+  type ContextNamespace,
+  type ContextStore,
+} from "../context";
+import {
+  createTraceContext,
+  resolveTracePropagator,
+  TRACE_CONTEXT_KEY,
+  type TracePropagatorInput,
+} from "../trace-context";
+import {
+  logPerformanceSummaryOnFinish,
+  type PerformanceSummaryLogOptions,
+} from "./performance-summary";
+import { echoRequestId, resolveRequestId, type RequestIdOptions } from "./request-id";
+import { recordRequestPerformanceOnFinish } from "./request-timing";
+import { addServerTimingHeader, type ServerTimingOptions } from "./server-timing";
 
 export type FastifyRequestLike = {
   id?: string;
+  headers?: Record<string, unknown>;
   raw?: { method?: string; url?: string; headers?: Record<string, unknown> };
 };
 
 export type FastifyReplyLike = {
   getHeader?: (name: string) => unknown;
+  header?: (name: string, value: string) => unknown;
+  raw?: { once?: (event: string, listener: () => void) => unknown };
+};
+
+export type FastifyRequestIdOptions = RequestIdOptions & {
+  /**
+   * Prefers Fastify's `request.id` (which honours its `requestIdHeader`
+   * setting) over the incoming headers.
+   * @default false
+   */
+  useFastifyId?: boolean;
 };
 
 export type FastifyDone = (err?: Error) => void;
@@ -34,6 +63,50 @@ export type AsyncContextFastifyOptions<
    * Optional seed object (or factory) to merge into the store.
    */
   seed?: AsyncContextFastifySeed<Req, Reply>;
+  /**
+   * Context namespace that receives the request store.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Marks `idKey` as read-only so handlers cannot overwrite or remove it.
+   * @default true
+   */
+  readOnlyIdKey?: boolean;
+  /**
+   * Continues the W3C trace from incoming `traceparent`/`tracestate` headers
+   * (or starts a new one) and stores it under `traceContext`.
+   * @default false
+   */
+  traceContext?: boolean;
+  /**
+   * Header formats used to continue incoming traces, e.g. `["tracecontext", "b3"]`.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  /**
+   * Adopts a valid incoming `x-request-id`/`x-correlation-id` as the request
+   * id (generating one otherwise) and echoes it in a response header.
+   * Incoming ids are ignored unless this is set.
+   */
+  requestId?: FastifyRequestIdOptions;
+  /**
+   * Logs the request's `performanceSummary()` through the given logger when
+   * the response finishes.
+   */
+  performanceSummary?: PerformanceSummaryLogOptions;
+  /**
+   * Sends the request's performance entries as a `Server-Timing` header when
+   * the response headers are written.
+   * @default false
+   */
+  serverTiming?: boolean | ServerTimingOptions;
+  /**
+   * Records a `request` performance entry (or one with this name) spanning
+   * each request, checked against `Context.setPerformanceBudgets` budgets.
+   * @default false
+   */
+  measureRequest?: boolean | string;
 };
 
 export type FastifyHook<Req = FastifyRequestLike, Reply = FastifyReplyLike> = (
@@ -58,8 +131,19 @@ export function createAsyncContextFastifyHook<
   Req = FastifyRequestLike,
   Reply = FastifyReplyLike
 >(options: AsyncContextFastifyOptions<Req, Reply> = {}): FastifyHook<Req, Reply> {
-  const { idKey = "instance_id", idFactory = () => crypto.randomUUID(), seed } =
-    options;
+  const {
+    idKey = "instance_id",
+    idFactory = () => crypto.randomUUID(),
+    seed,
+    namespace = Context,
+    readOnlyIdKey = true,
+    traceContext = false,
+    requestId,
+    performanceSummary,
+    serverTiming = false,
+    measureRequest = false,
+  } = options;
+  const propagator = resolveTracePropagator(options.propagator);
 
   return function asyncContextFastifyHook(
     request: Req,
@@ -67,16 +151,39 @@ export function createAsyncContextFastifyHook<
     done?: FastifyDone
   ) {
     const seedValue = typeof seed === "function" ? seed(request, reply) : seed;
+    const fastifyRequest = request as FastifyRequestLike;
+    const fastifyReply = reply as FastifyReplyLike;
+    const headers = fastifyRequest.headers ?? fastifyRequest.raw?.headers;
+    const id = resolveRequestId(
+      headers,
+      idFactory,
+      requestId,
+      requestId?.useFastifyId ? fastifyRequest.id : undefined
+    );
     const store: ContextStore = {
+      ...(traceContext
+        ? { [TRACE_CONTEXT_KEY]: createTraceContext(headers, { propagator }) }
+        : {}),
       ...(seedValue ?? {}),
-      [idKey]: idFactory(),
+      [idKey]: id,
     };
+    echoRequestId(reply, id, requestId);
 
     const runner = () => {
+      recordRequestPerformanceOnFinish(
+        fastifyReply.raw,
+        namespace,
+        measureRequest,
+        fastifyRequest.raw
+      );
+      logPerformanceSummaryOnFinish(fastifyReply.raw, namespace, performanceSummary);
+      addServerTimingHeader(fastifyReply.raw, namespace, serverTiming);
       if (done) return done();
     };
 
-    return Context.getInstance().run(store, runner);
+    return namespace.run(store, runner, {
+      readOnlyKeys: readOnlyIdKey ? [idKey] : [],
+    });
   };
 }
 
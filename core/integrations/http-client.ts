@@ -0,0 +1,370 @@
+import http from "node:http";
+import https from "node:https";
+import { syncBuiltinESMExports } from "node:module";
+import {
+  Context,
+  getContextKeyName,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type ContextRunner,
+  type PerformanceEntry,
+} from "../context";
+import type { TracePropagatorInput } from "../trace-context";
+import { injectOpenTelemetryContextToHeaders, type OpenTelemetryApi } from "./opentelemetry";
+
+export type OutgoingHttpRequestInfo = {
+  method: string;
+  url: string;
+  host: string;
+};
+
+export type OutgoingHttpInstrumentationOptions = {
+  /**
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Context values sent on every call, keyed by header name, e.g.
+   * `{ "x-request-id": "instance_id" }`. Headers set by the caller win.
+   */
+  contextHeaders?: Record<string, ContextKeyLike>;
+  /**
+   * Injects trace headers: OpenTelemetry's when available, the built-in
+   * trace context otherwise.
+   * @default true
+   */
+  traceHeaders?: boolean;
+  /**
+   * Trace header formats written.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  api?: OpenTelemetryApi;
+  /**
+   * Wraps `globalThis.fetch`.
+   * @default true
+   */
+  fetch?: boolean;
+  /**
+   * Wraps `request` and `get` of `node:http` and `node:https`.
+   * @default true
+   */
+  http?: boolean;
+  /**
+   * Records an `http:<METHOD> <host>` performance entry per call, ending when
+   * the response headers arrive.
+   * @default true
+   */
+  recordPerformance?: boolean;
+  /**
+   * @default "perf"
+   */
+  performanceKey?: string;
+  /**
+   * Return `false` to leave a call untouched.
+   */
+  filter?: (request: OutgoingHttpRequestInfo) => boolean;
+};
+
+type HttpModule = typeof http | typeof https;
+
+type CallRecorder = (status?: number, error?: unknown) => void;
+
+const HEADER_VALUE_PATTERN = /^[\t\x20-\x7e\x80-\xff]*$/;
+
+let uninstallActive: (() => void) | undefined;
+
+/**
+ * Wraps global `fetch` and `http`/`https` `request`/`get` so outgoing calls
+ * carry configured context values and trace headers and are recorded as
+ * performance entries in the calling context. Returns a function that
+ * restores the originals.
+ *
+ * @throws {Error} If the instrumentation is already installed.
+ *
+ * @example
+ * ```ts
+ * const uninstall = instrumentOutgoingHttp({
+ *   contextHeaders: { "x-request-id": "instance_id" },
+ * });
+ * // ...
+ * uninstall();
+ * ```
+ */
+export function instrumentOutgoingHttp(
+  options: OutgoingHttpInstrumentationOptions = {}
+): () => void {
+  if (uninstallActive) {
+    throw new Error(
+      "Outgoing HTTP instrumentation is already installed. " +
+        "Call the returned uninstall function first."
+    );
+  }
+
+  const restores: Array<() => void> = [];
+  if (options.fetch !== false && typeof globalThis.fetch === "function") {
+    const original = globalThis.fetch;
+    globalThis.fetch = createFetchWrapper(original, options);
+    restores.push(() => {
+      globalThis.fetch = original;
+    });
+  }
+  if (options.http !== false) {
+    for (const httpModule of [http, https] as HttpModule[]) {
+      restores.push(patchHttpModule(httpModule, options));
+    }
+    syncBuiltinESMExports();
+  }
+
+  const uninstall = () => {
+    if (uninstallActive !== uninstall) return;
+    uninstallActive = undefined;
+    for (const restore of restores.reverse()) restore();
+    if (options.http !== false) syncBuiltinESMExports();
+  };
+  uninstallActive = uninstall;
+  return uninstall;
+}
+
+/**
+ * Returns the headers an outgoing call should carry in the active context:
+ * the configured context values plus trace headers.
+ *
+ * @example
+ * ```ts
+ * const headers = createOutgoingHttpHeaders({ contextHeaders: { "x-tenant-id": "tenantId" } });
+ * ```
+ */
+export function createOutgoingHttpHeaders(
+  options: OutgoingHttpInstrumentationOptions = {}
+): Record<string, string> {
+  const namespace = options.namespace ?? Context;
+  const headers: Record<string, string> = {};
+
+  for (const [name, key] of Object.entries(options.contextHeaders ?? {})) {
+    const value = toHeaderValue(namespace.getValue(getContextKeyName(key)));
+    if (value !== undefined) headers[name.toLowerCase()] = value;
+  }
+
+  if (options.traceHeaders !== false) {
+    const trace: Record<string, unknown> = {};
+    injectOpenTelemetryContextToHeaders(trace, {
+      api: options.api,
+      namespace,
+      propagator: options.propagator,
+    });
+    for (const [name, value] of Object.entries(trace)) {
+      const headerValue = toHeaderValue(value);
+      if (headerValue !== undefined) headers[name.toLowerCase()] = headerValue;
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Wraps a fetch implementation to add headers and record the call.
+ *
+ * @example
+ * ```ts
+ * globalThis.fetch = createFetchWrapper(globalThis.fetch, options);
+ * ```
+ */
+function createFetchWrapper(
+  original: typeof fetch,
+  options: OutgoingHttpInstrumentationOptions
+): typeof fetch {
+  return function fetchWithContext(input, init) {
+    const request = input instanceof Request ? input : undefined;
+    const url = parseUrl(request?.url ?? String(input));
+    if (!url) return original(input, init);
+    const info: OutgoingHttpRequestInfo = {
+      method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+      url: url.href,
+      host: url.host,
+    };
+    if (options.filter && !options.filter(info)) return original(input, init);
+
+    const headers = new Headers(init?.headers ?? request?.headers);
+    for (const [name, value] of Object.entries(createOutgoingHttpHeaders(options))) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+
+    const record = createCallRecorder(info, options);
+    return original(input, { ...init, headers }).then(
+      (response) => {
+        record?.(response.status);
+        return response;
+      },
+      (error) => {
+        record?.(undefined, error);
+        throw error;
+      }
+    );
+  };
+}
+
+/**
+ * Replaces `request` and `get` on an http module. Returns the restore function.
+ *
+ * @example
+ * ```ts
+ * const restore = patchHttpModule(https, options);
+ * ```
+ */
+function patchHttpModule(
+  httpModule: HttpModule,
+  options: OutgoingHttpInstrumentationOptions
+): () => void {
+  const originalRequest = httpModule.request;
+  const originalGet = httpModule.get;
+
+  const request = function requestWithContext(this: unknown, ...args: unknown[]) {
+    const clientRequest = (originalRequest as (...params: unknown[]) => http.ClientRequest)
+      .apply(this, args);
+    instrumentClientRequest(clientRequest, options);
+    return clientRequest;
+  } as typeof httpModule.request;
+
+  const get = function getWithContext(this: unknown, ...args: unknown[]) {
+    const clientRequest = (request as (...params: unknown[]) => http.ClientRequest)
+      .apply(this, args);
+    clientRequest.end();
+    return clientRequest;
+  } as typeof httpModule.get;
+
+  httpModule.request = request;
+  httpModule.get = get;
+  return () => {
+    httpModule.request = originalRequest;
+    httpModule.get = originalGet;
+  };
+}
+
+/**
+ * Adds headers to a freshly created `ClientRequest` and records its outcome.
+ *
+ * @example
+ * ```ts
+ * instrumentClientRequest(http.request(url), options);
+ * ```
+ */
+function instrumentClientRequest(
+  request: http.ClientRequest,
+  options: OutgoingHttpInstrumentationOptions
+): void {
+  const protocol = request.protocol ?? "http:";
+  const host = String(request.getHeader("host") ?? request.host ?? "");
+  const info: OutgoingHttpRequestInfo = {
+    method: (request.method ?? "GET").toUpperCase(),
+    url: `${protocol}//${host}${request.path ?? "/"}`,
+    host,
+  };
+  if (options.filter && !options.filter(info)) return;
+
+  if (!request.headersSent) {
+    for (const [name, value] of Object.entries(createOutgoingHttpHeaders(options))) {
+      if (request.getHeader(name) === undefined) request.setHeader(name, value);
+    }
+  }
+
+  const record = createCallRecorder(info, options);
+  if (!record) return;
+  request.once("response", (response: http.IncomingMessage) => {
+    record(response.statusCode);
+    // Without other listeners Node would discard the body; keep that behaviour.
+    if (request.listenerCount("response") === 0) response.resume();
+  });
+  request.once("error", (error) => record(undefined, error));
+}
+
+/**
+ * Starts timing a call and returns a one-shot recorder that writes the
+ * performance entry into the calling context.
+ *
+ * @example
+ * ```ts
+ * const record = createCallRecorder(info, options);
+ * record?.(200);
+ * ```
+ */
+function createCallRecorder(
+  info: OutgoingHttpRequestInfo,
+  options: OutgoingHttpInstrumentationOptions
+): CallRecorder | undefined {
+  const namespace = options.namespace ?? Context;
+  if (options.recordPerformance === false || !namespace.getStore()) return undefined;
+
+  const run: ContextRunner = namespace.capture();
+  const startedAt = Date.now();
+  let recorded = false;
+
+  return (status, error) => {
+    if (recorded) return;
+    recorded = true;
+    const endedAt = Date.now();
+    const entry: PerformanceEntry = {
+      name: `http:${info.method} ${info.host}`,
+      startedAt,
+      endedAt,
+      durationMs: Math.max(0, endedAt - startedAt),
+      data: { method: info.method, host: info.host, status },
+    };
+    if (error) entry.error = toPerformanceError(error);
+    run(() => namespace.recordPerformance(entry, { key: options.performanceKey }));
+  };
+}
+
+/**
+ * Converts a context value to a header value, or `undefined` when it cannot
+ * be sent as one.
+ *
+ * @example
+ * ```ts
+ * toHeaderValue(42); // "42"
+ * toHeaderValue({ id: 1 }); // "{\"id\":1}"
+ * ```
+ */
+function toHeaderValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  let text: string | undefined;
+  if (typeof value === "string") text = value;
+  else if (typeof value === "number" || typeof value === "boolean") text = String(value);
+  else {
+    try {
+      text = JSON.stringify(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return text !== undefined && HEADER_VALUE_PATTERN.test(text) ? text : undefined;
+}
+
+/**
+ * Parses an absolute URL, or returns `undefined` so fetch reports the error.
+ *
+ * @example
+ * ```ts
+ * parseUrl("https://api.example.com/orders")?.host; // "api.example.com"
+ * ```
+ */
+function parseUrl(value: string): URL | undefined {
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalizes a request error for a performance entry.
+ *
+ * @example
+ * ```ts
+ * toPerformanceError(new Error("ECONNREFUSED")); // { name: "Error", message: "ECONNREFUSED" }
+ * ```
+ */
+function toPerformanceError(error: unknown): PerformanceEntry["error"] {
+  if (error instanceof Error) return { name: error.name, message: error.message };
+  return { message: String(error) };
+}
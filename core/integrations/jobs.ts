@@ -0,0 +1,409 @@
+import crypto from "node:crypto";
+import {
+  Context,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type ContextStore,
+} from "../context";
+import { createLogger, type Logger } from "../logging/logger";
+import { selectSerializableContext } from "../propagation";
+import { createTraceContext, TRACE_CONTEXT_KEY } from "../trace-context";
+import {
+  extractOpenTelemetryContextFromHeaders,
+  getCachedOpenTelemetryApi,
+  injectOpenTelemetryContextToHeaders,
+  type OpenTelemetryApi,
+} from "./opentelemetry";
+
+/**
+ * Payload field holding the context envelope.
+ */
+export const JOB_CONTEXT_FIELD = "__asyncContext";
+
+/**
+ * Serialized context stamped into a job payload.
+ */
+export type JobContextEnvelope = {
+  /**
+   * Selected context values.
+   */
+  values: ContextStore;
+  /**
+   * W3C trace context and baggage headers (`traceparent`, `tracestate`, `baggage`)
+   * of the producer.
+   */
+  trace?: Record<string, string>;
+};
+
+export type JobPayloadWithContext<T> = T & { [JOB_CONTEXT_FIELD]?: JobContextEnvelope };
+
+export type JobContextOptions = {
+  /**
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Only these keys are stamped into the job. Defaults to the whole snapshot.
+   */
+  keys?: ContextKeyLike[];
+  /**
+   * Keys never stamped into the job. Performance entries (`perf`) are always
+   * skipped, and `traceContext` travels as `trace` headers instead.
+   */
+  excludeKeys?: ContextKeyLike[];
+  /**
+   * OpenTelemetry API used for trace context and baggage. Defaults to the
+   * cached API; without it the built-in `traceContext` is propagated.
+   */
+  api?: OpenTelemetryApi;
+};
+
+/**
+ * Job fields read by the consumer, normalized by an adapter.
+ */
+export type JobDescriptor = {
+  id?: string;
+  name?: string;
+  data: unknown;
+};
+
+export type JobAdapter<Job> = (job: Job) => JobDescriptor;
+
+export type JobHandlerHelpers<Job> = {
+  job: Job;
+  id?: string;
+  name: string;
+  /**
+   * Child logger bound to the job name and id.
+   */
+  logger: Logger;
+  envelope?: JobContextEnvelope;
+};
+
+export type JobHandler<T, Job, R> = (
+  data: T,
+  helpers: JobHandlerHelpers<Job>
+) => R | Promise<R>;
+
+export type ContextJobConsumerOptions<Job> = {
+  /**
+   * Extracts id, name, and payload from the library's job object.
+   * @default jobAdapters.default
+   */
+  adapter?: JobAdapter<Job>;
+  namespace?: ContextNamespace;
+  /**
+   * Parent of the per-job child logger.
+   * @default createLogger()
+   */
+  logger?: Logger;
+  /**
+   * Name used when the job has none.
+   * @default "job"
+   */
+  defaultName?: string;
+  /**
+   * Context key receiving the job id.
+   * @default "job_id"
+   */
+  jobIdKey?: string;
+  /**
+   * Records a `job:<name>` performance entry around the handler.
+   * @default true
+   */
+  measure?: boolean;
+  api?: OpenTelemetryApi;
+};
+
+export type InMemoryJob<T = unknown> = {
+  id: string;
+  name: string;
+  data: T;
+};
+
+export type InMemoryJobQueue<T = unknown> = {
+  add: (name: string, data: T) => InMemoryJob<T>;
+  process: (handler: (job: InMemoryJob<T>) => unknown) => void;
+  /**
+   * Resolves once every queued job has been processed. Rejects when jobs are
+   * queued but `process` was never called.
+   */
+  drain: () => Promise<void>;
+  readonly size: number;
+  readonly completed: InMemoryJob<T>[];
+  readonly failed: Array<{ job: InMemoryJob<T>; error: unknown }>;
+};
+
+/**
+ * Adapters normalizing job objects from common queue libraries.
+ */
+export const jobAdapters = {
+  /**
+   * `{ id, name, data }` (BullMQ, pg-boss, and the in-memory queue).
+   */
+  default: (job: { id?: string | number | null; name?: string; data: unknown }) => ({
+    id: job.id == null ? undefined : String(job.id),
+    name: job.name,
+    data: job.data,
+  }),
+  /**
+   * Bee-Queue jobs (`{ id, data }`, named after the queue).
+   */
+  beeQueue: (job: { id?: string | number; data: unknown; queue?: { name?: string } }) => ({
+    id: job.id == null ? undefined : String(job.id),
+    name: job.queue?.name,
+    data: job.data,
+  }),
+  /**
+   * Agenda jobs (`job.attrs`).
+   */
+  agenda: (job: { attrs: { _id?: unknown; name?: string; data?: unknown } }) => ({
+    id: job.attrs._id == null ? undefined : String(job.attrs._id),
+    name: job.attrs.name,
+    data: job.attrs.data,
+  }),
+} satisfies Record<string, JobAdapter<any>>;
+
+/**
+ * Captures selected context values and the active trace context for a job.
+ *
+ * @example
+ * ```ts
+ * const envelope = createJobContextEnvelope({ keys: ["instance_id", "tenantId"] });
+ * ```
+ */
+export function createJobContextEnvelope(
+  options: JobContextOptions = {}
+): JobContextEnvelope {
+  const envelope: JobContextEnvelope = {
+    values: selectSerializableContext({
+      namespace: options.namespace,
+      keys: options.keys,
+      excludeKeys: [...(options.excludeKeys ?? []), TRACE_CONTEXT_KEY],
+    }),
+  };
+
+  const headers: Record<string, unknown> = {};
+  injectOpenTelemetryContextToHeaders(headers, {
+    api: options.api,
+    namespace: options.namespace,
+  });
+  const trace: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (typeof value === "string") trace[key] = value;
+  }
+  if (Object.keys(trace).length > 0) envelope.trace = trace;
+
+  return envelope;
+}
+
+/**
+ * Returns a copy of the payload with the context envelope stamped in.
+ *
+ * @example
+ * ```ts
+ * await queue.add("send-email", withJobContext({ to: user.email }));
+ * ```
+ */
+export function withJobContext<T extends object>(
+  payload: T,
+  options: JobContextOptions = {}
+): JobPayloadWithContext<T> {
+  return { ...payload, [JOB_CONTEXT_FIELD]: createJobContextEnvelope(options) };
+}
+
+/**
+ * Reads the context envelope from a job payload, if present.
+ *
+ * @example
+ * ```ts
+ * readJobContext(job.data)?.values.instance_id;
+ * ```
+ */
+export function readJobContext(payload: unknown): JobContextEnvelope | undefined {
+  if (!payload || typeof payload !== "object") return undefined;
+  const envelope = (payload as Record<string, unknown>)[JOB_CONTEXT_FIELD];
+  if (!envelope || typeof envelope !== "object") return undefined;
+  const values = (envelope as JobContextEnvelope).values;
+  return values && typeof values === "object" ? (envelope as JobContextEnvelope) : undefined;
+}
+
+/**
+ * Returns the payload without the context envelope.
+ *
+ * @example
+ * ```ts
+ * const { to } = stripJobContext(job.data);
+ * ```
+ */
+export function stripJobContext<T>(payload: JobPayloadWithContext<T> | T): T {
+  if (!payload || typeof payload !== "object" || !(JOB_CONTEXT_FIELD in payload)) {
+    return payload as T;
+  }
+  const { [JOB_CONTEXT_FIELD]: _envelope, ...rest } = payload as Record<string, unknown>;
+  return rest as T;
+}
+
+/**
+ * Wraps a producer function so every payload it sends carries the context.
+ *
+ * @example
+ * ```ts
+ * const enqueue = createContextJobProducer((name, data) => queue.add(name, data), {
+ *   keys: ["instance_id", "tenantId"],
+ * });
+ * await enqueue("send-email", { to });
+ * ```
+ */
+export function createContextJobProducer<T extends object, A extends unknown[], R>(
+  enqueue: (name: string, payload: JobPayloadWithContext<T>, ...args: A) => R,
+  options: JobContextOptions = {}
+): (name: string, payload: T, ...args: A) => R {
+  return (name, payload, ...args) => enqueue(name, withJobContext(payload, options), ...args);
+}
+
+/**
+ * Wraps a job handler so it runs inside the context stamped by the producer,
+ * with the job id in the store, a child logger, a `job:<name>` performance
+ * entry, and the producer's trace continued under `traceContext` (and as the
+ * active OpenTelemetry context when it is available).
+ *
+ * @example
+ * ```ts
+ * new Worker(
+ *   "emails",
+ *   createContextJobConsumer(async (data, { logger }) => {
+ *     logger.info("sending email"); // includes instance_id and job_id
+ *     await sendEmail(data.to);
+ *   })
+ * );
+ * ```
+ */
+export function createContextJobConsumer<T = any, Job = any, R = unknown>(
+  handler: JobHandler<T, Job, R>,
+  options: ContextJobConsumerOptions<Job> = {}
+): (job: Job) => Promise<R> {
+  const {
+    adapter = jobAdapters.default as unknown as JobAdapter<Job>,
+    namespace = Context,
+    defaultName = "job",
+    jobIdKey = "job_id",
+    measure = true,
+  } = options;
+  const logger = options.logger ?? createLogger();
+
+  return async function contextJobConsumer(job: Job) {
+    const descriptor = adapter(job);
+    const envelope = readJobContext(descriptor.data);
+    const name = descriptor.name ?? defaultName;
+    const store: ContextStore = { ...(envelope?.values ?? {}) };
+    if (descriptor.id !== undefined) store[jobIdKey] = descriptor.id;
+    if (envelope?.trace) {
+      const trace = createTraceContext(envelope.trace);
+      if (trace.parentSpanId) store[TRACE_CONTEXT_KEY] = trace;
+    }
+
+    const helpers: JobHandlerHelpers<Job> = {
+      job,
+      id: descriptor.id,
+      name,
+      logger: logger.child({ job: name, ...(descriptor.id ? { jobId: descriptor.id } : {}) }),
+      envelope,
+    };
+    const data = stripJobContext(descriptor.data) as T;
+    const execute = () => handler(data, helpers);
+    const run = () =>
+      namespace.run(store, async () =>
+        measure
+          ? namespace.measure(`job:${name}`, execute, {
+              data: descriptor.id ? { jobId: descriptor.id } : undefined,
+            })
+          : execute()
+      );
+
+    const api = options.api ?? getCachedOpenTelemetryApi() ?? undefined;
+    const traceContext = envelope?.trace
+      ? extractOpenTelemetryContextFromHeaders(envelope.trace, { api })
+      : undefined;
+    if (traceContext && api?.context?.with) return api.context.with(traceContext, run);
+    return run();
+  };
+}
+
+export type InMemoryJobQueueOptions = {
+  /**
+   * Namespace whose context jobs run outside of.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+};
+
+/**
+ * In-memory queue for tests and local development. Jobs are processed one at
+ * a time outside any context of the namespace (neither the one that enqueued
+ * them nor the one that created the queue), like a real broker.
+ *
+ * @example
+ * ```ts
+ * const queue = createInMemoryJobQueue();
+ * queue.process(createContextJobConsumer(handler));
+ * Context.run({ tenantId: "t_1" }, () => queue.add("email", withJobContext({ to })));
+ * await queue.drain();
+ * ```
+ */
+export function createInMemoryJobQueue<T = unknown>(
+  options: InMemoryJobQueueOptions = {}
+): InMemoryJobQueue<T> {
+  const storage = (options.namespace ?? Context).getInstance();
+  const pending: InMemoryJob<T>[] = [];
+  const completed: InMemoryJob<T>[] = [];
+  const failed: Array<{ job: InMemoryJob<T>; error: unknown }> = [];
+  const waiters: Array<() => void> = [];
+  let handler: ((job: InMemoryJob<T>) => unknown) | undefined;
+  let running = false;
+
+  const pump = () => {
+    if (running || !handler) return;
+    running = true;
+    storage.exit(() =>
+      setImmediate(async () => {
+        while (pending.length > 0) {
+          const job = pending.shift()!;
+          try {
+            await handler!(job);
+            completed.push(job);
+          } catch (error) {
+            failed.push({ job, error });
+          }
+        }
+        running = false;
+        for (const resolve of waiters.splice(0)) resolve();
+      })
+    );
+  };
+
+  return {
+    add(name, data) {
+      const job = { id: crypto.randomUUID(), name, data };
+      pending.push(job);
+      pump();
+      return job;
+    },
+    process(nextHandler) {
+      handler = nextHandler;
+      pump();
+    },
+    drain() {
+      if (pending.length === 0 && !running) return Promise.resolve();
+      if (!handler) {
+        return Promise.reject(new Error("Call process() before draining queued jobs."));
+      }
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+    get size() {
+      return pending.length;
+    },
+    completed,
+    failed,
+  };
+}
@@ -1,9 +1,28 @@
 import crypto from "node:crypto";
-import { Context, type ContextStore } from "../context";
+import {
+  Context,
+  type ContextNamespace,
+  type ContextStore,
+} from "../context";
+import {
+  createTraceContext,
+  resolveTracePropagator,
+  TRACE_CONTEXT_KEY,
+  type TracePropagatorInput,
+} from "../trace-context";
+import {
+  logPerformanceSummaryOnFinish,
+  type PerformanceSummaryLogOptions,
+} from "./performance-summary";
+import { echoRequestId, resolveRequestId, type RequestIdOptions } from "./request-id";
+import { recordRequestPerformanceOnFinish } from "./request-timing";
+import { addServerTimingHeader, type ServerTimingOptions } from "./server-timing";
 
 export type KoaContextLike = {
   request?: { method?: string; url?: string; headers?: Record<string, unknown> };
   req?: { method?: string; url?: string; headers?: Record<string, unknown> };
+  res?: { once?: (event: string, listener: () => void) => unknown };
+  set?: (field: string, value: string) => void;
 };
 
 export type KoaNext = () => Promise<unknown>;
@@ -27,6 +46,50 @@ export type AsyncContextKoaOptions<Ctx = KoaContextLike> = {
    * Optional seed object (or factory) to merge into the store.
    */
   seed?: AsyncContextKoaSeed<Ctx>;
+  /**
+   * Context namespace that receives the request store.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Marks `idKey` as read-only so handlers cannot overwrite or remove it.
+   * @default true
+   */
+  readOnlyIdKey?: boolean;
+  /**
+   * Continues the W3C trace from incoming `traceparent`/`tracestate` headers
+   * (or starts a new one) and stores it under `traceContext`.
+   * @default false
+   */
+  traceContext?: boolean;
+  /**
+   * Header formats used to continue incoming traces, e.g. `["tracecontext", "b3"]`.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  /**
+   * Adopts a valid incoming `x-request-id`/`x-correlation-id` as the request
+   * id (generating one otherwise) and echoes it in a response header.
+   * Incoming ids are ignored unless this is set.
+   */
+  requestId?: RequestIdOptions;
+  /**
+   * Logs the request's `performanceSummary()` through the given logger when
+   * the response finishes.
+   */
+  performanceSummary?: PerformanceSummaryLogOptions;
+  /**
+   * Sends the request's performance entries as a `Server-Timing` header when
+   * the response headers are written.
+   * @default false
+   */
+  serverTiming?: boolean | ServerTimingOptions;
+  /**
+   * Records a `request` performance entry (or one with this name) spanning
+   * each request, checked against `Context.setPerformanceBudgets` budgets.
+   * @default false
+   */
+  measureRequest?: boolean | string;
 };
 
 export type KoaMiddleware<Ctx = KoaContextLike> = (
@@ -49,16 +112,48 @@ export type KoaMiddleware<Ctx = KoaContextLike> = (
 export function createAsyncContextKoaMiddleware<Ctx = KoaContextLike>(
   options: AsyncContextKoaOptions<Ctx> = {}
 ): KoaMiddleware<Ctx> {
-  const { idKey = "instance_id", idFactory = () => crypto.randomUUID(), seed } =
-    options;
+  const {
+    idKey = "instance_id",
+    idFactory = () => crypto.randomUUID(),
+    seed,
+    namespace = Context,
+    readOnlyIdKey = true,
+    traceContext = false,
+    requestId,
+    performanceSummary,
+    serverTiming = false,
+    measureRequest = false,
+  } = options;
+  const propagator = resolveTracePropagator(options.propagator);
 
   return async function asyncContextKoaMiddleware(ctx: Ctx, next: KoaNext) {
     const seedValue = typeof seed === "function" ? seed(ctx) : seed;
+    const koaCtx = ctx as KoaContextLike;
+    const headers = koaCtx.request?.headers ?? koaCtx.req?.headers;
+    const id = resolveRequestId(headers, idFactory, requestId);
     const store: ContextStore = {
+      ...(traceContext
+        ? { [TRACE_CONTEXT_KEY]: createTraceContext(headers, { propagator }) }
+        : {}),
       ...(seedValue ?? {}),
-      [idKey]: idFactory(),
+      [idKey]: id,
     };
+    echoRequestId(ctx, id, requestId);
 
-    return Context.getInstance().run(store, () => next());
+    return namespace.run(
+      store,
+      () => {
+        recordRequestPerformanceOnFinish(
+          koaCtx.res,
+          namespace,
+          measureRequest,
+          koaCtx.request ?? koaCtx.req
+        );
+        logPerformanceSummaryOnFinish(koaCtx.res, namespace, performanceSummary);
+        addServerTimingHeader(koaCtx.res, namespace, serverTiming);
+        return next();
+      },
+      { readOnlyKeys: readOnlyIdKey ? [idKey] : [] }
+    );
   };
 }
@@ -0,0 +1,309 @@
+import { Context, type ContextKeyLike, type ContextNamespace, type ContextStore } from "../context";
+import { isSelectedContextKey, selectSerializableContext } from "../propagation";
+import {
+  createTraceContext,
+  TRACE_CONTEXT_KEY,
+  type TracePropagatorInput,
+} from "../trace-context";
+import { injectOpenTelemetryContextToHeaders, type OpenTelemetryApi } from "./opentelemetry";
+
+export type MessageHeaderValue =
+  | string
+  | Buffer
+  | Uint8Array
+  | number
+  | Array<string | Buffer | Uint8Array>
+  | null
+  | undefined;
+
+export type MessageHeaders = Record<string, MessageHeaderValue>;
+
+export type MessageHeaderDropReason = "not-serializable" | "value-too-large" | "total-too-large";
+
+export type MessageHeaderCodecOptions = {
+  /**
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Allowlist of context keys written on publish and accepted on consume.
+   * Defaults to every JSON-serializable value (except `perf` and
+   * `traceContext`, which travels as trace headers).
+   */
+  keys?: ContextKeyLike[];
+  /**
+   * Keys never written or accepted.
+   */
+  excludeKeys?: ContextKeyLike[];
+  /**
+   * Prefix of the per-key headers.
+   * @default "x-context-"
+   */
+  prefix?: string;
+  /**
+   * Writes trace headers on publish (OpenTelemetry's when available, the
+   * built-in trace context otherwise) and continues the trace as
+   * `traceContext` on consume.
+   * @default true
+   */
+  traceHeaders?: boolean;
+  /**
+   * Trace header formats written and read.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  api?: OpenTelemetryApi;
+  /**
+   * Maximum size of one header value in bytes.
+   * @default 1024
+   */
+  maxValueBytes?: number;
+  /**
+   * Maximum size of all context headers (names and values) in bytes.
+   * @default 8192
+   */
+  maxTotalBytes?: number;
+  /**
+   * Called for every key left out of the headers.
+   */
+  onDropped?: (key: string, reason: MessageHeaderDropReason) => void;
+};
+
+/**
+ * Reads and writes the header map of a broker message.
+ */
+export type MessageHeaderAdapter<M> = {
+  read: (message: M) => MessageHeaders;
+  write: (message: M, headers: Record<string, string>) => void;
+};
+
+type NatsHeadersLike = {
+  get: (key: string) => string;
+  set: (key: string, value: string) => void;
+  keys: () => string[];
+};
+
+const DEFAULT_PREFIX = "x-context-";
+const DEFAULT_MAX_VALUE_BYTES = 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 8192;
+
+/**
+ * Adapters for header maps shaped like common broker clients.
+ */
+export const messageHeaderAdapters = {
+  /**
+   * kafkajs messages: `{ value, headers?: Record<string, Buffer | string> }`.
+   */
+  kafka: {
+    read: (message: { headers?: MessageHeaders }) => message.headers ?? {},
+    write: (message: { headers?: MessageHeaders }, headers: Record<string, string>) => {
+      message.headers = { ...(message.headers ?? {}), ...headers };
+    },
+  } satisfies MessageHeaderAdapter<{ headers?: MessageHeaders }>,
+  /**
+   * amqplib publish options (`{ headers }`) and consumed messages
+   * (`{ properties: { headers } }`).
+   */
+  amqp: {
+    read: (message: { headers?: MessageHeaders; properties?: { headers?: MessageHeaders } }) =>
+      message.properties?.headers ?? message.headers ?? {},
+    write: (message: { headers?: MessageHeaders }, headers: Record<string, string>) => {
+      message.headers = { ...(message.headers ?? {}), ...headers };
+    },
+  } satisfies MessageHeaderAdapter<{
+    headers?: MessageHeaders;
+    properties?: { headers?: MessageHeaders };
+  }>,
+  /**
+   * NATS messages and publish options with `headers` created by `headers()`.
+   */
+  nats: {
+    read: (message: { headers?: NatsHeadersLike }) => {
+      const headers: MessageHeaders = {};
+      for (const key of message.headers?.keys() ?? []) {
+        headers[key] = message.headers!.get(key);
+      }
+      return headers;
+    },
+    write: (message: { headers?: NatsHeadersLike }, headers: Record<string, string>) => {
+      if (!message.headers) {
+        throw new Error("NATS headers must be created with headers() before injecting context.");
+      }
+      for (const [key, value] of Object.entries(headers)) message.headers.set(key, value);
+    },
+  } satisfies MessageHeaderAdapter<{ headers?: NatsHeadersLike }>,
+};
+
+/**
+ * Encodes selected context values as headers: one `x-context-<key>` header per
+ * key (JSON value) plus the active trace headers, within the size limits.
+ *
+ * @example
+ * ```ts
+ * await producer.send({
+ *   topic: "orders",
+ *   messages: [{ value: JSON.stringify(order), headers: createContextHeaders() }],
+ * });
+ * ```
+ */
+export function createContextHeaders(
+  options: MessageHeaderCodecOptions = {}
+): Record<string, string> {
+  const {
+    namespace = Context,
+    prefix = DEFAULT_PREFIX,
+    maxValueBytes = DEFAULT_MAX_VALUE_BYTES,
+    maxTotalBytes = DEFAULT_MAX_TOTAL_BYTES,
+    onDropped,
+  } = options;
+  const headers: Record<string, string> = {};
+  let totalBytes = 0;
+
+  const add = (key: string, name: string, value: string) => {
+    const valueBytes = Buffer.byteLength(value);
+    if (valueBytes > maxValueBytes) return onDropped?.(key, "value-too-large");
+    const entryBytes = Buffer.byteLength(name) + valueBytes;
+    if (totalBytes + entryBytes > maxTotalBytes) return onDropped?.(key, "total-too-large");
+    totalBytes += entryBytes;
+    headers[name] = value;
+  };
+
+  if (options.traceHeaders !== false) {
+    const trace: Record<string, unknown> = {};
+    injectOpenTelemetryContextToHeaders(trace, {
+      api: options.api,
+      namespace,
+      propagator: options.propagator,
+    });
+    for (const [name, value] of Object.entries(trace)) {
+      if (typeof value === "string" && value) add(name, name, value);
+    }
+  }
+
+  const values = selectSerializableContext({
+    namespace,
+    keys: options.keys,
+    excludeKeys: [...(options.excludeKeys ?? []), TRACE_CONTEXT_KEY],
+    onDropped: (keys) => {
+      for (const key of keys) onDropped?.(key, "not-serializable");
+    },
+  });
+  for (const [key, value] of Object.entries(values)) {
+    add(key, `${prefix}${key}`, JSON.stringify(value));
+  }
+
+  return headers;
+}
+
+/**
+ * Decodes context headers (string or Buffer values) back into a store,
+ * applying the same allowlist and value size limit. Trace headers continue
+ * the producer's trace under `traceContext`, with a new span id.
+ *
+ * @example
+ * ```ts
+ * const store = parseContextHeaders(message.headers); // { tenantId: "t_1", traceContext: {...} }
+ * ```
+ */
+export function parseContextHeaders(
+  headers: MessageHeaders | undefined,
+  options: MessageHeaderCodecOptions = {}
+): ContextStore {
+  const { prefix = DEFAULT_PREFIX, maxValueBytes = DEFAULT_MAX_VALUE_BYTES } = options;
+  const normalizedPrefix = prefix.toLowerCase();
+  const store: ContextStore = {};
+  const values: Record<string, string> = {};
+
+  for (const [name, raw] of Object.entries(headers ?? {})) {
+    const value = headerToString(raw);
+    if (value === undefined || Buffer.byteLength(value) > maxValueBytes) continue;
+    values[name] = value;
+
+    if (!name.toLowerCase().startsWith(normalizedPrefix)) continue;
+    const key = name.slice(prefix.length);
+    if (!key || key === TRACE_CONTEXT_KEY || !isSelectedContextKey(key, options)) continue;
+    try {
+      store[key] = JSON.parse(value);
+    } catch {
+      continue;
+    }
+  }
+
+  if (options.traceHeaders !== false) {
+    const trace = createTraceContext(values, { propagator: options.propagator });
+    if (trace.parentSpanId) store[TRACE_CONTEXT_KEY] = trace;
+  }
+
+  return store;
+}
+
+/**
+ * Writes context headers into a broker message through an adapter.
+ *
+ * @example
+ * ```ts
+ * channel.publish("orders", "created", body, injectMessageContext({}, messageHeaderAdapters.amqp));
+ * ```
+ */
+export function injectMessageContext<M>(
+  message: M,
+  adapter: MessageHeaderAdapter<M>,
+  options: MessageHeaderCodecOptions = {}
+): M {
+  adapter.write(message, createContextHeaders(options));
+  return message;
+}
+
+/**
+ * Reads the context carried by a broker message through an adapter.
+ *
+ * @example
+ * ```ts
+ * extractMessageContext(msg, messageHeaderAdapters.nats).tenantId;
+ * ```
+ */
+export function extractMessageContext<M>(
+  message: M,
+  adapter: MessageHeaderAdapter<M>,
+  options: MessageHeaderCodecOptions = {}
+): ContextStore {
+  return parseContextHeaders(adapter.read(message), options);
+}
+
+/**
+ * Runs a consumer callback inside the context carried by a message.
+ *
+ * @example
+ * ```ts
+ * await consumer.run({
+ *   eachMessage: ({ message }) =>
+ *     runWithMessageContext(message, messageHeaderAdapters.kafka, () => handle(message)),
+ * });
+ * ```
+ */
+export function runWithMessageContext<M, T>(
+  message: M,
+  adapter: MessageHeaderAdapter<M>,
+  callback: () => T,
+  options: MessageHeaderCodecOptions = {}
+): T {
+  const store = extractMessageContext(message, adapter, options);
+  return (options.namespace ?? Context).run(store, callback);
+}
+
+/**
+ * Converts a raw header value (string, Buffer, number, or the first array
+ * entry) to a string.
+ *
+ * @example
+ * ```ts
+ * headerToString(Buffer.from("t_1")); // "t_1"
+ * ```
+ */
+function headerToString(value: MessageHeaderValue): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined || first === null) return undefined;
+  if (typeof first === "string") return first;
+  if (typeof first === "number") return String(first);
+  return Buffer.from(first).toString("utf8");
+}
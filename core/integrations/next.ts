@@ -1,6 +1,23 @@
 import type * as http from "node:http";
 import crypto from "node:crypto";
-import { Context, type ContextStore } from "../context";
+import {
+  Context,
+  type ContextNamespace,
+  type ContextStore,
+} from "../context";
+import {
+  createTraceContext,
+  resolveTracePropagator,
+  TRACE_CONTEXT_KEY,
+  type TracePropagatorInput,
+} from "../trace-context";
+import {
+  logPerformanceSummaryOnFinish,
+  type PerformanceSummaryLogOptions,
+} from "./performance-summary";
+import { echoRequestId, resolveRequestId, type RequestIdOptions } from "./request-id";
+import { recordRequestPerformanceOnFinish } from "./request-timing";
+import { addServerTimingHeader, type ServerTimingOptions } from "./server-timing";
 
 export type NextApiHandler<
   Req extends http.IncomingMessage = http.IncomingMessage,
@@ -26,6 +43,50 @@ export type AsyncContextNextOptions<Req, Res> = {
    * Optional seed object (or factory) to merge into the store.
    */
   seed?: AsyncContextNextSeed<Req, Res>;
+  /**
+   * Context namespace that receives the request store.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Marks `idKey` as read-only so handlers cannot overwrite or remove it.
+   * @default true
+   */
+  readOnlyIdKey?: boolean;
+  /**
+   * Continues the W3C trace from incoming `traceparent`/`tracestate` headers
+   * (or starts a new one) and stores it under `traceContext`.
+   * @default false
+   */
+  traceContext?: boolean;
+  /**
+   * Header formats used to continue incoming traces, e.g. `["tracecontext", "b3"]`.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+  /**
+   * Adopts a valid incoming `x-request-id`/`x-correlation-id` as the request
+   * id (generating one otherwise) and echoes it in a response header.
+   * Incoming ids are ignored unless this is set.
+   */
+  requestId?: RequestIdOptions;
+  /**
+   * Logs the request's `performanceSummary()` through the given logger when
+   * the response finishes.
+   */
+  performanceSummary?: PerformanceSummaryLogOptions;
+  /**
+   * Sends the request's performance entries as a `Server-Timing` header when
+   * the response headers are written.
+   * @default false
+   */
+  serverTiming?: boolean | ServerTimingOptions;
+  /**
+   * Records a `request` performance entry (or one with this name) spanning
+   * each request, checked against `Context.setPerformanceBudgets` budgets.
+   * @default false
+   */
+  measureRequest?: boolean | string;
 };
 
 /**
@@ -50,16 +111,41 @@ export function createAsyncContextNextHandler<
   handler: NextApiHandler<Req, Res>,
   options: AsyncContextNextOptions<Req, Res> = {}
 ) {
-  const { idKey = "instance_id", idFactory = () => crypto.randomUUID(), seed } =
-    options;
+  const {
+    idKey = "instance_id",
+    idFactory = () => crypto.randomUUID(),
+    seed,
+    namespace = Context,
+    readOnlyIdKey = true,
+    traceContext = false,
+    requestId,
+    performanceSummary,
+    serverTiming = false,
+    measureRequest = false,
+  } = options;
+  const propagator = resolveTracePropagator(options.propagator);
 
   return function asyncContextNextHandler(req: Req, res: Res) {
     const seedValue = typeof seed === "function" ? seed(req, res) : seed;
+    const id = resolveRequestId(req.headers, idFactory, requestId);
     const store: ContextStore = {
+      ...(traceContext
+        ? { [TRACE_CONTEXT_KEY]: createTraceContext(req.headers, { propagator }) }
+        : {}),
       ...(seedValue ?? {}),
-      [idKey]: idFactory(),
+      [idKey]: id,
     };
+    echoRequestId(res, id, requestId);
 
-    return Context.getInstance().run(store, () => handler(req, res));
+    return namespace.run(
+      store,
+      () => {
+        recordRequestPerformanceOnFinish(res, namespace, measureRequest, req);
+        logPerformanceSummaryOnFinish(res, namespace, performanceSummary);
+        addServerTimingHeader(res, namespace, serverTiming);
+        return handler(req, res);
+      },
+      { readOnlyKeys: readOnlyIdKey ? [idKey] : [] }
+    );
   };
 }
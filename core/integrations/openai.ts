@@ -1,4 +1,4 @@
-import { Context } from "../context";
+import { Context, type ContextNamespace } from "../context";
 
 type UnknownRecord = Record<string, unknown>;
 
@@ -33,6 +33,7 @@ export type OpenAICallContext = {
 };
 
 export type OpenAIContextOptions = {
+  namespace?: ContextNamespace;
   key?: string;
   mode?: "append" | "overwrite";
   includeRequest?: boolean;
@@ -129,7 +130,8 @@ export function recordOpenAICall(
   summary: OpenAICallContext,
   options: OpenAIContextOptions = {}
 ): void {
-  const store = Context.getStore<UnknownRecord>();
+  const namespace = options.namespace ?? Context;
+  const store = namespace.getStore<UnknownRecord>();
   if (!store) return;
 
   const key = options.key ?? DEFAULT_CONTEXT_KEY;
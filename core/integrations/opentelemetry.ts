@@ -1,5 +1,18 @@
-import { Context } from "../context";
+import {
+  Context,
+  getContextKeyName,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type PerformanceBudgetViolation,
+  type PerformanceTreeNode,
+} from "../context";
 import type * as http from "node:http";
+import {
+  getTraceContext,
+  resolveTracePropagator,
+  tracePropagators,
+  type TracePropagatorInput,
+} from "../trace-context";
 import {
   createAsyncContextExpressMiddleware,
   type AsyncContextExpressOptions,
@@ -133,12 +146,14 @@ export type OpenTelemetrySpanSummary = {
 };
 
 export type OpenTelemetrySpanRecordOptions = {
+  namespace?: ContextNamespace;
   key?: string;
   mode?: "append" | "overwrite";
 };
 
 export type OpenTelemetrySpanOptions = {
   api?: OpenTelemetryApi;
+  namespace?: ContextNamespace;
   tracerName?: string;
   tracerVersion?: string;
   parentContext?: OpenTelemetryContextLike;
@@ -146,7 +161,7 @@ export type OpenTelemetrySpanOptions = {
   attributes?: Record<string, unknown>;
   startTime?: number;
   includeContextAttributes?: boolean;
-  contextAttributeKeys?: string[];
+  contextAttributeKeys?: ContextKeyLike[];
   contextAttributePrefix?: string;
   maxAttributeValueLength?: number;
   recordSummary?: boolean;
@@ -160,10 +175,30 @@ export type OpenTelemetrySpanOptions = {
   errorStatusMessage?: string;
 };
 
+export type OpenTelemetryPerformanceTreeOptions = {
+  api?: OpenTelemetryApi;
+  namespace?: ContextNamespace;
+  /**
+   * Performance key read when `tree` is omitted.
+   * @default "perf"
+   */
+  key?: string;
+  /**
+   * Tree to export instead of the active context's `performanceTree()`.
+   */
+  tree?: PerformanceTreeNode[];
+  tracerName?: string;
+  tracerVersion?: string;
+  parentContext?: OpenTelemetryContextLike;
+  maxAttributeValueLength?: number;
+  errorStatusCode?: number;
+};
+
 export type OpenTelemetryBaggageFromContextOptions = {
   api?: OpenTelemetryApi;
+  namespace?: ContextNamespace;
   context?: OpenTelemetryContextLike;
-  contextKeys: string[];
+  contextKeys: ContextKeyLike[];
   baggagePrefix?: string;
   maxValueLength?: number;
   mode?: "merge" | "overwrite";
@@ -171,6 +206,7 @@ export type OpenTelemetryBaggageFromContextOptions = {
 
 export type OpenTelemetryContextFromBaggageOptions = {
   api?: OpenTelemetryApi;
+  namespace?: ContextNamespace;
   context?: OpenTelemetryContextLike;
   baggageKeys?: string[];
   baggagePrefix?: string;
@@ -183,21 +219,30 @@ export type OpenTelemetryHeaderPropagationOptions = {
   context?: OpenTelemetryContextLike;
   getter?: TextMapGetterLike;
   setter?: TextMapSetterLike;
+  /**
+   * Trace header formats read and written (`"tracecontext"`, `"b3"`,
+   * `"b3multi"`, `"jaeger"`, or a list). Without OpenTelemetry, headers are
+   * injected from the built-in trace context instead.
+   */
+  propagator?: TracePropagatorInput;
+  namespace?: ContextNamespace;
 };
 
 export type OpenTelemetryHttpSpanOptions<Req = unknown, Res = unknown> = {
   api?: OpenTelemetryApi;
+  namespace?: ContextNamespace;
   tracerName?: string;
   tracerVersion?: string;
   spanName?: (req: Req) => string;
   spanKind?: number;
   attributes?: (req: Req, res: Res) => Record<string, unknown>;
   extractContext?: boolean;
+  propagator?: TracePropagatorInput;
   recordSummary?: boolean;
   summaryKey?: string;
   summaryMode?: "append" | "overwrite";
   includeContextAttributes?: boolean;
-  contextAttributeKeys?: string[];
+  contextAttributeKeys?: ContextKeyLike[];
   contextAttributePrefix?: string;
   maxAttributeValueLength?: number;
   now?: () => number;
@@ -266,7 +311,7 @@ export function recordOpenTelemetrySpan(
   summary: OpenTelemetrySpanSummary,
   options: OpenTelemetrySpanRecordOptions = {}
 ): void {
-  const store = Context.getStore<UnknownRecord>();
+  const store = (options.namespace ?? Context).getStore<UnknownRecord>();
   if (!store) return;
 
   const key = options.key ?? DEFAULT_CONTEXT_KEY;
@@ -333,6 +378,7 @@ export async function withOpenTelemetrySpan<T>(
 
   if (options.includeContextAttributes && options.contextAttributeKeys?.length) {
     const contextAttrs = buildContextAttributes(
+      options.namespace ?? Context,
       options.contextAttributeKeys,
       options.contextAttributePrefix,
       options.maxAttributeValueLength ?? DEFAULT_MAX_STRING_LENGTH
@@ -395,6 +441,7 @@ export async function withOpenTelemetrySpan<T>(
     }
 
     recordOpenTelemetrySpan(summary, {
+      namespace: options.namespace,
       key: options.summaryKey,
       mode: options.summaryMode,
     });
@@ -421,6 +468,46 @@ export async function withOpenTelemetrySpan<T>(
   }
 }
 
+export function recordOpenTelemetryPerformanceTree(
+  options: OpenTelemetryPerformanceTreeOptions = {}
+): void {
+  const api = options.api ?? getCachedOpenTelemetryApi();
+  if (!api?.trace?.getTracer) return;
+
+  const tree = options.tree ?? (options.namespace ?? Context).performanceTree({
+    key: options.key,
+  });
+  if (tree.length === 0) return;
+
+  const tracer = api.trace.getTracer(
+    options.tracerName ?? DEFAULT_TRACER_NAME,
+    options.tracerVersion
+  );
+  const parentContext = options.parentContext ?? api.context?.active?.();
+  for (const node of tree) {
+    startPerformanceTreeSpan(api, tracer, node, parentContext, options);
+  }
+}
+
+export function recordOpenTelemetryBudgetViolation(
+  violation: PerformanceBudgetViolation,
+  options: { api?: OpenTelemetryApi } = {}
+): boolean {
+  const api = options.api ?? getCachedOpenTelemetryApi();
+  if (!api?.trace?.getSpan || !api.context?.active) return false;
+  const span = api.trace.getSpan(api.context.active());
+  if (!span) return false;
+
+  span.setAttribute?.("perf.budget_exceeded", true);
+  span.addEvent?.("perf.budget_exceeded", {
+    "perf.budget": violation.budget,
+    "perf.budget_ms": violation.maxMs,
+    "perf.name": violation.entry.name,
+    "perf.duration_ms": violation.entry.durationMs,
+  });
+  return true;
+}
+
 export function getActiveOpenTelemetrySpanContext(
   api?: OpenTelemetryApi
 ): OpenTelemetrySpanContext | undefined {
@@ -436,14 +523,15 @@ export function setOpenTelemetryBaggageFromContext(
   const api = options.api ?? getCachedOpenTelemetryApi();
   if (!api?.propagation?.setBaggage || !api.propagation.createBaggage) return;
 
-  const store = Context.getStore<UnknownRecord>();
+  const store = (options.namespace ?? Context).snapshot<UnknownRecord>();
   if (!store) return;
 
   const entries: Record<string, OpenTelemetryBaggageEntry> = {};
   const prefix = options.baggagePrefix ?? "";
   const maxValueLength = options.maxValueLength ?? 256;
 
-  for (const key of options.contextKeys) {
+  for (const entry of options.contextKeys) {
+    const key = getContextKeyName(entry);
     if (!Object.prototype.hasOwnProperty.call(store, key)) continue;
     const value = toBaggageValue(store[key], maxValueLength);
     if (!value) continue;
@@ -473,7 +561,7 @@ export function mergeContextFromOpenTelemetryBaggage(
   const api = options.api ?? getCachedOpenTelemetryApi();
   if (!api?.propagation?.getBaggage) return;
 
-  const store = Context.getStore<UnknownRecord>();
+  const store = (options.namespace ?? Context).getStore<UnknownRecord>();
   if (!store) return;
 
   const context = options.context ?? api.context?.active?.();
@@ -516,7 +604,9 @@ export function extractOpenTelemetryContextFromHeaders(
   const api = options.api ?? getCachedOpenTelemetryApi();
   if (!api?.propagation?.extract) return undefined;
 
-  const carrier = headers ?? {};
+  const carrier = options.propagator
+    ? toTraceContextCarrier(headers ?? {}, options.propagator)
+    : headers ?? {};
   const baseContext = options.context ?? api.context?.active?.();
   if (!baseContext) return undefined;
   const getter = options.getter ?? DEFAULT_TEXT_MAP_GETTER;
@@ -529,20 +619,37 @@ export function injectOpenTelemetryContextToHeaders(
   options: OpenTelemetryHeaderPropagationOptions = {}
 ): void {
   const api = options.api ?? getCachedOpenTelemetryApi();
-  if (!api?.propagation?.inject) return;
-
-  const baseContext = options.context ?? api.context?.active?.();
-  if (!baseContext) return;
   const setter = options.setter ?? DEFAULT_TEXT_MAP_SETTER;
+  const carrier: Record<string, unknown> = {};
+  const baseContext = options.context ?? api?.context?.active?.();
+  if (api?.propagation?.inject && baseContext) {
+    api.propagation.inject(baseContext, carrier, DEFAULT_TEXT_MAP_SETTER);
+  }
 
-  api.propagation.inject(baseContext, headers, setter);
+  // Without an SDK or propagator the API injects nothing; use the built-in trace.
+  if (typeof carrier.traceparent !== "string") {
+    const traceContext = getTraceContext(options.namespace);
+    if (traceContext) resolveTracePropagator(options.propagator).inject(traceContext, carrier);
+    setHeaders(headers, carrier, setter);
+    return;
+  }
+  if (!options.propagator) {
+    setHeaders(headers, carrier, setter);
+    return;
+  }
+
+  const spanContext = tracePropagators.tracecontext.extract(carrier);
+  const { traceparent: _traceparent, tracestate: _tracestate, ...rest } = carrier;
+  if (spanContext) resolveTracePropagator(options.propagator).inject(spanContext, rest);
+  setHeaders(headers, rest, setter);
 }
 
 export function createAsyncContextExpressOpenTelemetryMiddleware(
   options: AsyncContextExpressOpenTelemetryOptions = {}
 ) {
-  const { otel, ...asyncOptions } = options;
-  const base = createAsyncContextExpressMiddleware(asyncOptions);
+  const { otel: otelOptions, ...asyncOptions } = options;
+  const otel = withNamespace(otelOptions, asyncOptions.namespace);
+  const base = createAsyncContextExpressMiddleware(withPropagator(asyncOptions, otel));
 
   return function asyncContextExpressOpenTelemetryMiddleware(
     req: { method?: string; url?: string; originalUrl?: string; headers?: Record<string, unknown>; route?: { path?: string } },
@@ -604,8 +711,9 @@ export function createAsyncContextFastifyOpenTelemetryHook<
   Req = FastifyRequestLike,
   Reply = FastifyReplyLike
 >(options: AsyncContextFastifyOpenTelemetryOptions<Req, Reply> = {}): FastifyHook<Req, Reply> {
-  const { otel, ...asyncOptions } = options;
-  const base = createAsyncContextFastifyHook(asyncOptions);
+  const { otel: otelOptions, ...asyncOptions } = options;
+  const otel = withNamespace(otelOptions, asyncOptions.namespace);
+  const base = createAsyncContextFastifyHook(withPropagator(asyncOptions, otel));
 
   return function asyncContextFastifyOpenTelemetryHook(
     request: Req,
@@ -679,8 +787,9 @@ export function createAsyncContextFastifyOpenTelemetryHook<
 export function createAsyncContextKoaOpenTelemetryMiddleware<Ctx = KoaContextLike>(
   options: AsyncContextKoaOpenTelemetryOptions<Ctx> = {}
 ): KoaMiddleware<Ctx> {
-  const { otel, ...asyncOptions } = options;
-  const base = createAsyncContextKoaMiddleware(asyncOptions);
+  const { otel: otelOptions, ...asyncOptions } = options;
+  const otel = withNamespace(otelOptions, asyncOptions.namespace);
+  const base = createAsyncContextKoaMiddleware(withPropagator(asyncOptions, otel));
 
   return async function asyncContextKoaOpenTelemetryMiddleware(
     ctx: Ctx,
@@ -723,7 +832,8 @@ export function createAsyncContextNextOpenTelemetryHandler<
   handler: NextApiHandler<Req, Res>,
   options: AsyncContextNextOpenTelemetryOptions<Req, Res> = {}
 ): NextApiHandler<Req, Res> {
-  const { otel, ...asyncOptions } = options;
+  const { otel: otelOptions, ...asyncOptions } = options;
+  const otel = withNamespace(otelOptions, asyncOptions.namespace);
 
   return createAsyncContextNextHandler(async (req: Req, res: Res) => {
     const controller = createHttpSpanController(
@@ -768,7 +878,7 @@ export function createAsyncContextNextOpenTelemetryHandler<
     } finally {
       finalize();
     }
-  }, asyncOptions);
+  }, withPropagator(asyncOptions, otel));
 }
 
 type HttpRequestInfo = {
@@ -816,6 +926,7 @@ function createHttpSpanController<Req, Res>(
   const contextAttributes = resolvedOptions.includeContextAttributes &&
     resolvedOptions.contextAttributeKeys?.length
     ? buildContextAttributes(
+        resolvedOptions.namespace ?? Context,
         resolvedOptions.contextAttributeKeys,
         resolvedOptions.contextAttributePrefix,
         resolvedOptions.maxAttributeValueLength ?? DEFAULT_MAX_STRING_LENGTH
@@ -842,6 +953,7 @@ function createHttpSpanController<Req, Res>(
     : extractOpenTelemetryContextFromHeaders(info.headers, {
         api,
         context: baseContext,
+        propagator: resolvedOptions.propagator,
       }) ?? baseContext;
 
   const spanName = resolvedOptions.spanName?.(req) ??
@@ -920,6 +1032,7 @@ function createHttpSpanController<Req, Res>(
     };
 
     recordOpenTelemetrySpan(summary, {
+      namespace: resolvedOptions.namespace,
       key: resolvedOptions.summaryKey,
       mode: resolvedOptions.summaryMode,
     });
@@ -936,6 +1049,43 @@ function createHttpSpanController<Req, Res>(
   return { runWithSpan, recordError, end };
 }
 
+function withNamespace<Req, Res>(
+  options: OpenTelemetryHttpSpanOptions<Req, Res> | undefined,
+  namespace: ContextNamespace | undefined
+): OpenTelemetryHttpSpanOptions<Req, Res> | undefined {
+  if (!namespace || options?.namespace) return options;
+  return { ...options, namespace };
+}
+
+function withPropagator<O extends { propagator?: TracePropagatorInput }>(
+  options: O,
+  otel: { propagator?: TracePropagatorInput } | undefined
+): O {
+  if (options.propagator || !otel?.propagator) return options;
+  return { ...options, propagator: otel.propagator };
+}
+
+function toTraceContextCarrier(
+  headers: Record<string, unknown>,
+  propagator: TracePropagatorInput
+): Record<string, unknown> {
+  const spanContext = resolveTracePropagator(propagator).extract(headers);
+  if (!spanContext) return headers;
+  const carrier: Record<string, unknown> = { ...headers };
+  tracePropagators.tracecontext.inject(spanContext, carrier);
+  return carrier;
+}
+
+function setHeaders(
+  headers: Record<string, unknown>,
+  values: Record<string, unknown>,
+  setter: TextMapSetterLike
+) {
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value === "string") setter.set(headers, key, value);
+  }
+}
+
 function startSpan(
   tracer: OpenTelemetryTracerLike,
   name: string,
@@ -952,6 +1102,44 @@ function startSpan(
   }
 }
 
+function startPerformanceTreeSpan(
+  api: OpenTelemetryApi,
+  tracer: OpenTelemetryTracerLike,
+  node: PerformanceTreeNode,
+  parentContext: OpenTelemetryContextLike,
+  options: OpenTelemetryPerformanceTreeOptions
+) {
+  const attributes = sanitizeAttributes(
+    { ...node.data, "perf.self_ms": node.selfMs },
+    options.maxAttributeValueLength ?? DEFAULT_MAX_STRING_LENGTH
+  );
+  const span = startSpan(
+    tracer,
+    node.name,
+    { startTime: node.startedAt, attributes },
+    parentContext
+  );
+  if (!span) return;
+
+  if (node.error && span.setStatus) {
+    span.setStatus({
+      code: options.errorStatusCode ?? DEFAULT_ERROR_STATUS_CODE,
+      message: node.error.message,
+    });
+  }
+
+  const childContext = parentContext !== undefined && api.trace?.setSpan
+    ? api.trace.setSpan(parentContext, span)
+    : parentContext;
+  for (const child of node.children) {
+    startPerformanceTreeSpan(api, tracer, child, childContext, options);
+  }
+
+  if (span.end) {
+    span.end(node.endedAt);
+  }
+}
+
 function resolveOpenTelemetryApi(
   options: { api?: OpenTelemetryApi; autoImport?: boolean } = {}
 ): OpenTelemetryApi | null | undefined {
@@ -1016,15 +1204,17 @@ function sanitizeAttributes(
 }
 
 function buildContextAttributes(
-  keys: string[],
+  namespace: ContextNamespace,
+  keys: ContextKeyLike[],
   prefix = "ctx.",
   maxStringLength: number
 ) {
-  const store = Context.getStore<UnknownRecord>();
+  const store = namespace.snapshot<UnknownRecord>();
   if (!store) return undefined;
 
   const attributes: Record<string, unknown> = {};
-  for (const key of keys) {
+  for (const entry of keys) {
+    const key = getContextKeyName(entry);
     if (!Object.prototype.hasOwnProperty.call(store, key)) continue;
     const value = toAttributeValue(store[key], maxStringLength);
     if (value === undefined) continue;
@@ -0,0 +1,67 @@
+import type { ContextNamespace, PerformanceSummaryOptions } from "../context";
+import type { Logger, LogLevel } from "../logging/logger";
+
+export type PerformanceSummaryLogOptions = PerformanceSummaryOptions & {
+  /**
+   * Logger that receives the summary under `performance`.
+   */
+  logger: Pick<Logger, "log">;
+  /**
+   * @default "info"
+   */
+  level?: LogLevel;
+  /**
+   * @default "request performance"
+   */
+  message?: string;
+};
+
+/**
+ * Responses whose completion can be observed: Node's `ServerResponse` and
+ * anything else emitting `finish`/`close`.
+ */
+type ResponseEventsLike = {
+  once?: (event: string, listener: () => void) => unknown;
+};
+
+/**
+ * Logs `namespace.performanceSummary()` once the response finishes (or its
+ * connection closes). Call it inside the request context; nothing is logged
+ * when the request recorded no entries.
+ *
+ * @example
+ * ```ts
+ * namespace.run(store, () => {
+ *   logPerformanceSummaryOnFinish(res, namespace, options.performanceSummary);
+ *   next();
+ * });
+ * ```
+ */
+export function logPerformanceSummaryOnFinish(
+  response: unknown,
+  namespace: ContextNamespace,
+  options: PerformanceSummaryLogOptions | undefined
+): void {
+  const target = response as ResponseEventsLike | undefined;
+  if (!options || typeof target?.once !== "function") return;
+
+  const run = namespace.capture();
+  let logged = false;
+  const log = () => {
+    if (logged) return;
+    logged = true;
+    run(() => {
+      const summary = namespace.performanceSummary({
+        key: options.key,
+        groupBy: options.groupBy,
+      });
+      if (summary.count === 0) return;
+      options.logger.log(options.level ?? "info", options.message ?? "request performance", {
+        performance: summary,
+      });
+    });
+  };
+
+  target.once("finish", log);
+  target.once("close", log);
+}
@@ -0,0 +1,119 @@
+import { readHeader } from "../propagation";
+
+export type RequestIdOptions = {
+  /**
+   * Incoming headers adopted as the request id, checked in order. Pass `[]`
+   * to always generate one.
+   * @default ["x-request-id", "x-correlation-id"]
+   */
+  headers?: string[];
+  /**
+   * Incoming ids must match this pattern; others are ignored.
+   * @default /^[\w\-.:/+=@]+$/
+   */
+  pattern?: RegExp;
+  /**
+   * Incoming ids longer than this are ignored.
+   * @default 128
+   */
+  maxLength?: number;
+  /**
+   * Response header that echoes the request id, or `false` to skip it.
+   * @default "x-request-id"
+   */
+  responseHeader?: string | false;
+};
+
+/**
+ * Response objects the id can be echoed on: Node/Express/Next (`setHeader`),
+ * Fastify replies and AdonisJS responses (`header`), and Koa contexts (`set`).
+ */
+type RequestIdResponseLike = {
+  setHeader?: (name: string, value: string) => unknown;
+  header?: (name: string, value: string) => unknown;
+  set?: (name: string, value: string) => unknown;
+};
+
+const DEFAULT_REQUEST_ID_HEADERS = ["x-request-id", "x-correlation-id"];
+const DEFAULT_REQUEST_ID_PATTERN = /^[\w\-.:/+=@]+$/;
+const DEFAULT_REQUEST_ID_MAX_LENGTH = 128;
+const DEFAULT_RESPONSE_HEADER = "x-request-id";
+
+/**
+ * Returns the first valid request id found in the configured headers.
+ *
+ * @example
+ * ```ts
+ * readRequestId(req.headers, { headers: ["x-correlation-id"], maxLength: 64 });
+ * ```
+ */
+export function readRequestId(
+  headers: Record<string, unknown> | undefined,
+  options: RequestIdOptions = {}
+): string | undefined {
+  if (!headers) return undefined;
+  for (const name of options.headers ?? DEFAULT_REQUEST_ID_HEADERS) {
+    const value = readHeader(headers, name.toLowerCase());
+    const candidate = Array.isArray(value) ? value[0] : value;
+    if (isValidRequestId(candidate, options)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Picks the request id for an integration: the preferred value (e.g.
+ * Fastify's `request.id`) or an incoming header when valid, otherwise a
+ * generated one. Without options, always generates.
+ *
+ * @example
+ * ```ts
+ * const id = resolveRequestId(req.headers, idFactory, options.requestId);
+ * ```
+ */
+export function resolveRequestId(
+  headers: Record<string, unknown> | undefined,
+  idFactory: () => string,
+  options: RequestIdOptions | undefined,
+  preferred?: unknown
+): string {
+  if (!options) return idFactory();
+  if (isValidRequestId(preferred, options)) return preferred;
+  return readRequestId(headers, options) ?? idFactory();
+}
+
+/**
+ * Writes the request id to the configured response header, if enabled.
+ *
+ * @example
+ * ```ts
+ * echoRequestId(res, id, { responseHeader: "x-correlation-id" });
+ * ```
+ */
+export function echoRequestId(
+  response: unknown,
+  id: string,
+  options: RequestIdOptions | undefined
+): void {
+  if (!options || options.responseHeader === false || !response) return;
+  const name = options.responseHeader ?? DEFAULT_RESPONSE_HEADER;
+  const target = response as RequestIdResponseLike;
+
+  if (typeof target.setHeader === "function") target.setHeader(name, id);
+  else if (typeof target.header === "function") target.header(name, id);
+  else if (typeof target.set === "function") target.set(name, id);
+}
+
+/**
+ * Checks an incoming id against the pattern and maximum length.
+ *
+ * @example
+ * ```ts
+ * isValidRequestId("req_1", {}); // true
+ * isValidRequestId("<script>", {}); // false
+ * ```
+ */
+function isValidRequestId(value: unknown, options: RequestIdOptions): value is string {
+  if (typeof value !== "string" || value.length === 0) return false;
+  if (value.length > (options.maxLength ?? DEFAULT_REQUEST_ID_MAX_LENGTH)) return false;
+  return (options.pattern ?? DEFAULT_REQUEST_ID_PATTERN).test(value);
+}
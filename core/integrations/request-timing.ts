@@ -0,0 +1,66 @@
+import type { ContextNamespace } from "../context";
+
+export type RequestTimingInfo = {
+  method?: string;
+  url?: string;
+};
+
+/**
+ * Responses whose completion can be observed, exposing the final status.
+ */
+type RequestTimingResponseLike = {
+  statusCode?: number;
+  once?: (event: string, listener: () => void) => unknown;
+};
+
+const DEFAULT_ENTRY_NAME = "request";
+
+/**
+ * Records a performance entry spanning the request once the response
+ * finishes (or its connection closes), so budgets and summaries cover whole
+ * requests. Call it inside the request context, before other finish hooks
+ * that read the entries.
+ *
+ * @example
+ * ```ts
+ * namespace.run(store, () => {
+ *   recordRequestPerformanceOnFinish(res, namespace, options.measureRequest, req);
+ *   next();
+ * });
+ * ```
+ */
+export function recordRequestPerformanceOnFinish(
+  response: unknown,
+  namespace: ContextNamespace,
+  option: boolean | string | undefined,
+  request: RequestTimingInfo = {}
+): void {
+  const target = response as RequestTimingResponseLike | undefined;
+  if (!option || typeof target?.once !== "function") return;
+
+  const name = option === true ? DEFAULT_ENTRY_NAME : option;
+  const run = namespace.capture();
+  const startedAt = Date.now();
+  let recorded = false;
+  const record = () => {
+    if (recorded) return;
+    recorded = true;
+    const endedAt = Date.now();
+    run(() =>
+      namespace.recordPerformance({
+        name,
+        startedAt,
+        endedAt,
+        durationMs: Math.max(0, endedAt - startedAt),
+        data: {
+          method: request.method,
+          path: request.url?.split("?")[0],
+          status: target.statusCode,
+        },
+      })
+    );
+  };
+
+  target.once("finish", record);
+  target.once("close", record);
+}
@@ -1,4 +1,11 @@
-import { Context } from "../context";
+import {
+  Context,
+  getContextKeyName,
+  type ContextAuditEntry,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type PerformanceBudgetViolation,
+} from "../context";
 
 type UnknownRecord = Record<string, unknown>;
 
@@ -34,9 +41,12 @@ export type SentryLike = {
   captureException?: (error: unknown) => string | undefined;
   withScope?: (callback: (scope: SentryScopeLike) => void) => void;
   configureScope?: (callback: (scope: SentryScopeLike) => void) => void;
+  getCurrentScope?: () => SentryScopeLike;
 };
 
-export type SentryKeyMapping = string | { key: string; name?: string };
+export type SentryKeyMapping =
+  | ContextKeyLike
+  | { key: ContextKeyLike; name?: string };
 
 export type SentryUserMapping = {
   objectKeys?: string[];
@@ -46,12 +56,15 @@ export type SentryUserMapping = {
 };
 
 export type SentryAsyncContextOptions = {
+  namespace?: ContextNamespace;
   includeDefaults?: boolean;
   tagKeys?: SentryKeyMapping[];
   extraKeys?: SentryKeyMapping[];
   user?: SentryUserMapping;
   attachStore?: boolean;
   extraName?: string;
+  attachAuditTrail?: boolean;
+  auditExtraName?: string;
   redactKeys?: string[];
   redactFieldNames?: string[];
   redactDefaults?: boolean;
@@ -64,6 +77,7 @@ export type InitSentryOptions = SentryAsyncContextOptions & {
 };
 
 const DEFAULT_EXTRA_NAME = "async_context";
+const DEFAULT_AUDIT_EXTRA_NAME = "async_context_audit";
 const DEFAULT_MAX_EXTRA_SIZE = 16 * 1024;
 const REDACTED_VALUE = "[REDACTED]";
 const TRUNCATED_SUFFIX = "...[truncated]";
@@ -150,11 +164,11 @@ function isModuleNotFound(error: unknown) {
  *
  * @example
  * ```ts
- * const store = getActiveStore();
+ * const store = getActiveStore(Context);
  * ```
  */
-function getActiveStore(): UnknownRecord | null {
-  const store = Context.getInstance().getStore();
+function getActiveStore(namespace: ContextNamespace = Context): UnknownRecord | null {
+  const store = namespace.snapshot();
   if (!store || typeof store !== "object") return null;
   return store as UnknownRecord;
 }
@@ -483,7 +497,12 @@ function truncateString(value: string, maxSize: number, addSuffix = false): stri
  */
 function normalizeKeyMapping(mapping: SentryKeyMapping): { key: string; name: string } {
   if (typeof mapping === "string") return { key: mapping, name: mapping };
-  return { key: mapping.key, name: mapping.name ?? mapping.key };
+  if (!("key" in mapping)) {
+    const key = getContextKeyName(mapping);
+    return { key, name: key };
+  }
+  const key = getContextKeyName(mapping.key);
+  return { key, name: mapping.name ?? key };
 }
 
 /**
@@ -615,6 +634,53 @@ function applyStoreToScope(
   }
 }
 
+/**
+ * Returns the audit trail of the active store with value summaries redacted
+ * like the attached store: by field name at any depth and by `redactKeys`.
+ *
+ * @example
+ * ```ts
+ * getRedactedHistory({ redactFieldNames: ["token"] });
+ * ```
+ */
+function getRedactedHistory(options: SentryAsyncContextOptions): ContextAuditEntry[] {
+  const extraName = options.extraName ?? DEFAULT_EXTRA_NAME;
+  const redactionKeySet = buildRedactionKeySet(
+    options.redactFieldNames,
+    options.redactDefaults !== false
+  );
+  return (options.namespace ?? Context).history({
+    redact: (key, value) => {
+      const holder: UnknownRecord = { [key]: value };
+      applyRedaction(holder, options.redactKeys ?? [], extraName);
+      applyKeyNameRedaction(holder, redactionKeySet);
+      return holder[key];
+    },
+  });
+}
+
+/**
+ * Attaches the context audit trail to a Sentry scope as an extra.
+ *
+ * @example
+ * ```ts
+ * applyAuditTrailToScope(scope, getRedactedHistory(options), options);
+ * ```
+ */
+function applyAuditTrailToScope(
+  scope: SentryScopeLike,
+  history: ContextAuditEntry[],
+  options: SentryAsyncContextOptions
+) {
+  if (history.length === 0) return;
+  setExtra(
+    scope,
+    options.auditExtraName ?? DEFAULT_AUDIT_EXTRA_NAME,
+    history,
+    options.maxExtraSize ?? DEFAULT_MAX_EXTRA_SIZE
+  );
+}
+
 /**
  * Initializes Sentry and binds the current async context to the scope.
  *
@@ -632,6 +698,7 @@ async function initSentryWithAsyncContext(
   if (!sentry || typeof sentry.init !== "function") return false;
 
   const {
+    namespace,
     includeDefaults,
     tagKeys,
     extraKeys,
@@ -649,6 +716,7 @@ async function initSentryWithAsyncContext(
 
   sentry.init(sentryInit ?? initOptions);
   await bindAsyncContextToSentryScope({
+    namespace,
     includeDefaults,
     tagKeys,
     extraKeys,
@@ -676,7 +744,7 @@ async function bindAsyncContextToSentryScope(
 ): Promise<boolean> {
   const sentry = await getSentry();
   if (!sentry) return false;
-  const store = getActiveStore();
+  const store = getActiveStore(options.namespace);
 
   if (sentry.configureScope) {
     sentry.configureScope((scope) => {
@@ -709,12 +777,14 @@ async function captureExceptionWithContext(
 ): Promise<string | null> {
   const sentry = await getSentry();
   if (!sentry || typeof sentry.captureException !== "function") return null;
-  const store = getActiveStore();
+  const store = getActiveStore(options.namespace);
+  const history = options.attachAuditTrail ? getRedactedHistory(options) : [];
 
   if (sentry.withScope) {
     let eventId: string | undefined;
     sentry.withScope((scope) => {
       applyStoreToScope(scope, store, options);
+      applyAuditTrailToScope(scope, history, options);
       eventId = sentry.captureException?.(error);
     });
     return eventId ?? null;
@@ -723,12 +793,57 @@ async function captureExceptionWithContext(
   if (sentry.configureScope) {
     sentry.configureScope((scope) => {
       applyStoreToScope(scope, store, options);
+      applyAuditTrailToScope(scope, history, options);
     });
   }
 
   return sentry.captureException(error) ?? null;
 }
 
+/**
+ * Tags the current Sentry scope with a performance budget violation
+ * (`perf.budget_exceeded` tag and a `performance_budget` context), so later
+ * events of the request show it. Pass `sentry` to skip the lazy import.
+ *
+ * @example
+ * ```ts
+ * Context.setPerformanceBudgets({
+ *   budgets: { request: 500 },
+ *   onViolation: (violation) => void tagSentryScopeWithBudgetViolation(violation),
+ * });
+ * ```
+ */
+async function tagSentryScopeWithBudgetViolation(
+  violation: PerformanceBudgetViolation,
+  options: { sentry?: SentryLike } = {}
+): Promise<boolean> {
+  const sentry = options.sentry ?? (await getSentry());
+  if (!sentry) return false;
+
+  const apply = (scope: SentryScopeLike) => {
+    setTag(scope, "perf.budget_exceeded", violation.budget);
+    scope.setContext?.("performance_budget", {
+      budget: violation.budget,
+      maxMs: violation.maxMs,
+      overByMs: violation.overByMs,
+      name: violation.entry.name,
+      durationMs: violation.entry.durationMs,
+    });
+  };
+
+  if (sentry.getCurrentScope) {
+    apply(sentry.getCurrentScope());
+    return true;
+  }
+
+  if (sentry.configureScope) {
+    sentry.configureScope(apply);
+    return true;
+  }
+
+  return false;
+}
+
 /**
  * Express middleware that binds async context data to each Sentry scope.
  *
@@ -746,7 +861,10 @@ function sentryAsyncContextExpressMiddleware(
       if (!sentry || !sentry.withScope) return next();
 
       sentry.withScope((scope) => {
-        applyStoreToScope(scope, getActiveStore(), { ...options, request: req });
+        applyStoreToScope(scope, getActiveStore(options.namespace), {
+          ...options,
+          request: req,
+        });
         next();
       });
     } catch (error) {
@@ -779,6 +897,7 @@ export {
   initSentryWithAsyncContext,
   bindAsyncContextToSentryScope,
   captureExceptionWithContext,
+  tagSentryScopeWithBudgetViolation,
   sentryAsyncContextExpressMiddleware,
   sentryErrorHandler,
 };
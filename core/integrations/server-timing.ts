@@ -0,0 +1,171 @@
+import { readPerformanceEntries, type ContextNamespace, type PerformanceEntry } from "../context";
+
+export type ServerTimingOptions = {
+  /**
+   * Performance key read from the request context.
+   * @default "perf"
+   */
+  key?: string;
+  /**
+   * Only entries whose name equals a string or matches a pattern are sent.
+   * All entries are sent when omitted.
+   */
+  allow?: Array<string | RegExp>;
+  /**
+   * Maximum number of metrics in the header; the slowest are kept.
+   * @default 10
+   */
+  maxEntries?: number;
+};
+
+/**
+ * Responses the header can be added to: Node's `ServerResponse` (Express,
+ * Next, Koa's `ctx.res`, Fastify's `reply.raw`).
+ */
+type ServerTimingResponseLike = {
+  headersSent?: boolean;
+  writeHead?: (...args: unknown[]) => unknown;
+  getHeader?: (name: string) => unknown;
+  setHeader?: (name: string, value: string) => unknown;
+};
+
+type ServerTimingMetric = {
+  name: string;
+  durationMs: number;
+  count: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 10;
+const HEADER_NAME = "Server-Timing";
+
+/**
+ * Formats performance entries as a `Server-Timing` header value. Names are
+ * sanitized to header tokens and repeated names are summed, with the call
+ * count in `desc`. Returns `undefined` when nothing is left to send.
+ *
+ * @example
+ * ```ts
+ * formatServerTimingHeader(Context.getValue("perf"), { allow: [/^db\./] });
+ * // 'db.query;dur=12.5;desc="3 calls"'
+ * ```
+ */
+export function formatServerTimingHeader(
+  entries: PerformanceEntry[],
+  options: ServerTimingOptions = {}
+): string | undefined {
+  const metrics = new Map<string, ServerTimingMetric>();
+  for (const entry of entries) {
+    if (options.allow && !options.allow.some((rule) => matchesRule(rule, entry.name))) {
+      continue;
+    }
+    const name = sanitizeMetricName(entry.name);
+    if (!name) continue;
+    const metric = metrics.get(name) ?? { name, durationMs: 0, count: 0 };
+    metric.durationMs += entry.durationMs;
+    metric.count += 1;
+    metrics.set(name, metric);
+  }
+
+  const maxEntries = Math.max(0, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const kept = [...metrics.values()]
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, maxEntries);
+  if (kept.length === 0) return undefined;
+
+  return kept
+    .map((metric) => {
+      const duration = `${metric.name};dur=${Math.round(metric.durationMs * 100) / 100}`;
+      return metric.count > 1 ? `${duration};desc="${metric.count} calls"` : duration;
+    })
+    .join(", ");
+}
+
+/**
+ * Adds the request's performance entries as a `Server-Timing` header right
+ * before the response headers are written. Call it inside the request
+ * context; responses whose headers are already sent are left alone.
+ *
+ * @example
+ * ```ts
+ * namespace.run(store, () => {
+ *   addServerTimingHeader(res, namespace, options.serverTiming);
+ *   next();
+ * });
+ * ```
+ */
+export function addServerTimingHeader(
+  response: unknown,
+  namespace: ContextNamespace,
+  options: boolean | ServerTimingOptions | undefined
+): void {
+  const target = response as ServerTimingResponseLike | undefined;
+  if (!options || typeof target?.writeHead !== "function" || target.headersSent) return;
+
+  const settings = options === true ? {} : options;
+  const run = namespace.capture();
+  const writeHead = target.writeHead;
+  let added = false;
+
+  target.writeHead = function writeHeadWithServerTiming(
+    this: ServerTimingResponseLike,
+    ...args: unknown[]
+  ) {
+    if (!added && !target.headersSent) {
+      added = true;
+      run(() => {
+        const entries = readPerformanceEntries(namespace.getValue(settings.key ?? "perf"));
+        setServerTimingHeader(target, formatServerTimingHeader(entries, settings));
+      });
+    }
+    return writeHead.apply(this, args);
+  };
+}
+
+/**
+ * Appends a value to the response's `Server-Timing` header, ignoring
+ * responses that refuse new headers.
+ *
+ * @example
+ * ```ts
+ * setServerTimingHeader(res, "db;dur=12");
+ * ```
+ */
+function setServerTimingHeader(
+  response: ServerTimingResponseLike,
+  value: string | undefined
+): void {
+  if (!value || typeof response.setHeader !== "function") return;
+  const existing = response.getHeader?.(HEADER_NAME);
+  const previous = Array.isArray(existing) ? existing.join(", ") : existing;
+  try {
+    response.setHeader(HEADER_NAME, previous ? `${previous}, ${value}` : value);
+  } catch {
+    // Headers were flushed in the meantime; timings are best effort.
+  }
+}
+
+/**
+ * Turns an entry name into a header token, replacing invalid characters.
+ *
+ * @example
+ * ```ts
+ * sanitizeMetricName("http:GET api.example.com"); // "http_GET_api.example.com"
+ * ```
+ */
+function sanitizeMetricName(name: string): string {
+  return name.replace(/[^!#$%&'*+\-.^_`|~0-9A-Za-z]/g, "_");
+}
+
+/**
+ * Checks an entry name against one allowlist rule.
+ *
+ * @example
+ * ```ts
+ * matchesRule(/^db\./, "db.query"); // true
+ * ```
+ */
+function matchesRule(rule: string | RegExp, name: string): boolean {
+  if (typeof rule === "string") return rule === name;
+  rule.lastIndex = 0;
+  return rule.test(name);
+}
@@ -0,0 +1,511 @@
+import os from "node:os";
+import {
+  parentPort,
+  Worker,
+  type TransferListItem,
+  type WorkerOptions,
+} from "node:worker_threads";
+import {
+  Context,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type ContextStore,
+  type PerformanceEntry,
+} from "../context";
+import { isStructuredCloneable, selectSerializableContext, warnDroppedKeys } from "../propagation";
+
+export type WorkerContextOptions = {
+  /**
+   * Context namespace to capture and re-enter.
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Only these keys are sent to the worker. Defaults to the whole snapshot.
+   */
+  keys?: ContextKeyLike[];
+  /**
+   * Keys never sent to the worker.
+   */
+  excludeKeys?: ContextKeyLike[];
+  /**
+   * Key holding performance entries; never sent to the worker, and entries the
+   * worker records under it flow back to the caller.
+   * @default "perf"
+   */
+  performanceKey?: string;
+  /**
+   * Called with the keys dropped because they cannot be structured-cloned.
+   * @default process.emitWarning
+   */
+  onDropped?: (keys: string[]) => void;
+};
+
+/**
+ * Message envelope carrying the caller's context next to the payload.
+ */
+export type WorkerContextMessage<T = unknown> = {
+  __asyncContext: ContextStore;
+  data: T;
+};
+
+export type WorkerMessageTarget = {
+  postMessage: (value: unknown, transferList?: readonly TransferListItem[]) => void;
+};
+
+export type WorkerMessageSource = {
+  on: (event: "message", listener: (value: unknown) => void) => unknown;
+  off: (event: "message", listener: (value: unknown) => void) => unknown;
+};
+
+/**
+ * Minimal worker surface used by the pool (a `Worker` or a `MessagePort`).
+ */
+export type ContextWorkerLike = WorkerMessageTarget & {
+  on: (event: "message" | "error" | "exit", listener: (value: any) => void) => unknown;
+  terminate?: () => unknown;
+  close?: () => unknown;
+};
+
+export type WorkerTaskHandler<TData = unknown, TResult = unknown> = (
+  data: TData
+) => TResult | Promise<TResult>;
+
+export type WorkerTaskHandlerOptions = {
+  /**
+   * Port receiving tasks.
+   * @default parentPort
+   */
+  port?: WorkerMessageTarget & WorkerMessageSource;
+  namespace?: ContextNamespace;
+  /**
+   * @default "perf"
+   */
+  performanceKey?: string;
+};
+
+export type ContextWorkerPoolOptions = WorkerContextOptions & {
+  /**
+   * Worker script started for each pool slot (ignored with `createWorker`).
+   */
+  filename?: string | URL;
+  workerOptions?: WorkerOptions;
+  /**
+   * Custom worker factory, for example to pass `eval` or resource limits.
+   */
+  createWorker?: () => ContextWorkerLike;
+  /**
+   * Maximum number of workers.
+   * @default os.cpus().length
+   */
+  size?: number;
+  /**
+   * Records worker performance entries in the caller's context.
+   * @default true
+   */
+  mergePerformance?: boolean;
+};
+
+export type ContextWorkerPool<TData = unknown, TResult = unknown> = {
+  run: (data: TData, transferList?: readonly TransferListItem[]) => Promise<TResult>;
+  destroy: () => Promise<void>;
+};
+
+type WorkerTaskMessage = WorkerContextMessage & { __asyncContextTask: number };
+
+type WorkerTaskReply = {
+  __asyncContextTask: number;
+  result?: unknown;
+  error?: { name?: string; message: string; stack?: string };
+  perf: PerformanceEntry[];
+};
+
+type PendingTask = {
+  id: number;
+  message: WorkerTaskMessage;
+  transferList?: readonly TransferListItem[];
+  record: (entries: PerformanceEntry[]) => void;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+};
+
+type PoolSlot = { worker: ContextWorkerLike; task?: PendingTask };
+
+/**
+ * Returns the active context filtered for a worker: selected keys only, no
+ * performance entries, and without values that cannot be structured-cloned.
+ *
+ * @example
+ * ```ts
+ * const store = captureWorkerContext({ keys: ["instance_id", "tenantId"] });
+ * ```
+ */
+export function captureWorkerContext(options: WorkerContextOptions = {}): ContextStore {
+  return selectSerializableContext({
+    namespace: options.namespace,
+    keys: options.keys,
+    excludeKeys: options.excludeKeys,
+    performanceKey: options.performanceKey,
+    isSerializable: isStructuredCloneable,
+    onDropped: options.onDropped ?? ((keys) => warnDroppedKeys(keys, "a worker")),
+  });
+}
+
+/**
+ * Wraps a payload with the active context for `postMessage` or `workerData`.
+ *
+ * @example
+ * ```ts
+ * worker.postMessage(wrapWorkerMessage({ pdfId }));
+ * ```
+ */
+export function wrapWorkerMessage<T>(
+  data: T,
+  options: WorkerContextOptions = {}
+): WorkerContextMessage<T> {
+  return { __asyncContext: captureWorkerContext(options), data };
+}
+
+/**
+ * Checks whether a value is a context envelope.
+ *
+ * @example
+ * ```ts
+ * if (isWorkerContextMessage(message)) handle(message.data);
+ * ```
+ */
+export function isWorkerContextMessage(value: unknown): value is WorkerContextMessage {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as WorkerContextMessage).__asyncContext === "object"
+  );
+}
+
+/**
+ * Posts a payload together with the active context.
+ *
+ * @example
+ * ```ts
+ * Context.run({ tenantId: "t_1" }, () => postMessageWithContext(worker, { file }));
+ * ```
+ */
+export function postMessageWithContext<T>(
+  target: WorkerMessageTarget,
+  data: T,
+  options: WorkerContextOptions & { transferList?: readonly TransferListItem[] } = {}
+): void {
+  target.postMessage(wrapWorkerMessage(data, options), options.transferList);
+}
+
+/**
+ * Starts a worker whose `workerData` carries the active context. Read it in
+ * the worker with `runWithWorkerContext(workerData, callback)`.
+ *
+ * @example
+ * ```ts
+ * const worker = createWorkerWithContext("./render.js", { workerData: { pdfId } });
+ * ```
+ */
+export function createWorkerWithContext(
+  filename: string | URL,
+  workerOptions: WorkerOptions = {},
+  options: WorkerContextOptions = {}
+): Worker {
+  return new Worker(filename, {
+    ...workerOptions,
+    workerData: wrapWorkerMessage(workerOptions.workerData, options),
+  });
+}
+
+/**
+ * Runs the callback with the payload of an envelope inside its context.
+ * Plain messages run the callback without a context.
+ *
+ * @example
+ * ```ts
+ * // worker.js
+ * runWithWorkerContext(workerData, (data) => render(data.pdfId));
+ * ```
+ */
+export function runWithWorkerContext<T, R>(
+  message: WorkerContextMessage<T> | T,
+  callback: (data: T) => R,
+  namespace: ContextNamespace = Context
+): R {
+  if (!isWorkerContextMessage(message)) return callback(message as T);
+  const { __asyncContext: store, data } = message as WorkerContextMessage<T>;
+  return namespace.run({ ...store }, () => callback(data));
+}
+
+/**
+ * Handles every message on a port inside the context it carries. Returns a
+ * function that removes the listener.
+ *
+ * @example
+ * ```ts
+ * // worker.js
+ * onMessageWithContext(parentPort!, (data) => logger.info("job", data));
+ * ```
+ */
+export function onMessageWithContext<T>(
+  port: WorkerMessageSource,
+  handler: (data: T) => unknown,
+  namespace: ContextNamespace = Context
+): () => void {
+  const listener = (message: unknown) =>
+    runWithWorkerContext(message as WorkerContextMessage<T>, handler, namespace);
+  port.on("message", listener);
+  return () => {
+    port.off("message", listener);
+  };
+}
+
+/**
+ * Worker side of `createContextWorkerPool`: runs each task inside the caller's
+ * context and replies with the result and the performance entries recorded.
+ *
+ * @example
+ * ```ts
+ * // hash-worker.js
+ * handleWorkerTasks(async (input: string) => {
+ *   return Context.measure("hash", () => sha256(input));
+ * });
+ * ```
+ */
+export function handleWorkerTasks<TData, TResult>(
+  handler: WorkerTaskHandler<TData, TResult>,
+  options: WorkerTaskHandlerOptions = {}
+): () => void {
+  const { port = parentPort, namespace = Context, performanceKey = "perf" } = options;
+  if (!port) {
+    throw new Error("handleWorkerTasks must be called inside a worker or with a port.");
+  }
+
+  const listener = (message: unknown) => {
+    if (!isWorkerTaskMessage(message)) return;
+    const id = message.__asyncContextTask;
+
+    void namespace.run({ ...message.__asyncContext }, async () => {
+      let reply: WorkerTaskReply;
+      try {
+        const result = await handler(message.data as TData);
+        reply = { __asyncContextTask: id, result, perf: readEntries() };
+      } catch (error) {
+        reply = { __asyncContextTask: id, error: serializeError(error), perf: readEntries() };
+      }
+
+      try {
+        port.postMessage(reply);
+      } catch (error) {
+        port.postMessage({ __asyncContextTask: id, error: serializeError(error), perf: [] });
+      }
+    });
+  };
+
+  const readEntries = () => {
+    const entries = namespace.getValue<PerformanceEntry[]>(performanceKey);
+    return Array.isArray(entries) ? entries : [];
+  };
+
+  port.on("message", listener);
+  return () => {
+    port.off("message", listener);
+  };
+}
+
+/**
+ * Creates a worker pool that sends the caller's context with every task and
+ * records the worker's performance entries back into it. Workers are started
+ * on demand up to `size` and replaced after an error or an exit; the task they
+ * were running is rejected.
+ *
+ * @throws {Error} If `size` is not a positive number or no worker source is given.
+ *
+ * @example
+ * ```ts
+ * const pool = createContextWorkerPool<string, string>({
+ *   filename: new URL("./hash-worker.js", import.meta.url),
+ *   size: 4,
+ *   keys: ["instance_id", "tenantId"],
+ * });
+ *
+ * app.post("/hash", async (req, res) => res.send(await pool.run(req.body)));
+ * ```
+ */
+export function createContextWorkerPool<TData = unknown, TResult = unknown>(
+  options: ContextWorkerPoolOptions
+): ContextWorkerPool<TData, TResult> {
+  const {
+    filename,
+    workerOptions,
+    size = os.cpus().length || 1,
+    namespace = Context,
+    performanceKey = "perf",
+    mergePerformance = true,
+  } = options;
+  if (!Number.isFinite(size) || size < 1) {
+    throw new Error("Worker pool size must be a positive number.");
+  }
+
+  const createWorker =
+    options.createWorker ??
+    (() => {
+      if (!filename) throw new Error("Worker pool requires a filename or createWorker.");
+      return new Worker(filename, workerOptions);
+    });
+
+  const slots: PoolSlot[] = [];
+  const queue: PendingTask[] = [];
+  let nextId = 0;
+  let destroyed = false;
+
+  const settle = (slot: PoolSlot, reply: WorkerTaskReply) => {
+    const task = slot.task;
+    if (!task || reply.__asyncContextTask !== task.id) return;
+    slot.task = undefined;
+
+    if (mergePerformance && reply.perf.length > 0) task.record(reply.perf);
+    if (reply.error) {
+      const error = new Error(reply.error.message);
+      if (reply.error.name) error.name = reply.error.name;
+      if (reply.error.stack) error.stack = reply.error.stack;
+      task.reject(error);
+    } else {
+      task.resolve(reply.result);
+    }
+    dispatch();
+  };
+
+  const fail = (slot: PoolSlot, error: unknown) => {
+    const index = slots.indexOf(slot);
+    if (index === -1) return;
+    slots.splice(index, 1);
+    slot.task?.reject(error);
+    slot.task = undefined;
+    void stop(slot.worker);
+    dispatch();
+  };
+
+  const spawn = () => {
+    const slot: PoolSlot = { worker: createWorker() };
+    slot.worker.on("message", (message: WorkerTaskReply) => settle(slot, message));
+    slot.worker.on("error", (error: unknown) => fail(slot, error));
+    slot.worker.on("exit", (code: number) =>
+      fail(slot, new Error(`Worker exited with code ${code}.`))
+    );
+    slots.push(slot);
+    return slot;
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let slot = slots.find((candidate) => !candidate.task);
+      if (!slot && slots.length < size) {
+        try {
+          slot = spawn();
+        } catch (error) {
+          // Runs from worker event listeners too, so a failed start must not throw.
+          queue.shift()!.reject(error);
+          continue;
+        }
+      }
+      if (!slot) return;
+
+      const task = queue.shift()!;
+      slot.task = task;
+      try {
+        slot.worker.postMessage(task.message, task.transferList);
+      } catch (error) {
+        slot.task = undefined;
+        task.reject(error);
+      }
+    }
+  };
+
+  return {
+    run(data, transferList) {
+      if (destroyed) return Promise.reject(new Error("Worker pool was destroyed."));
+
+      const runInCaller = namespace.capture();
+      const id = ++nextId;
+      const message: WorkerTaskMessage = {
+        __asyncContextTask: id,
+        ...wrapWorkerMessage(data, options),
+      };
+
+      return new Promise<TResult>((resolve, reject) => {
+        queue.push({
+          id,
+          message,
+          transferList,
+          resolve,
+          reject,
+          record: (entries) =>
+            runInCaller(() => {
+              for (const entry of entries) {
+                namespace.recordPerformance(entry, { key: performanceKey });
+              }
+            }),
+        });
+        dispatch();
+      });
+    },
+
+    async destroy() {
+      destroyed = true;
+      const error = new Error("Worker pool was destroyed.");
+      for (const task of queue.splice(0)) task.reject(error);
+      for (const slot of slots.splice(0)) {
+        slot.task?.reject(error);
+        await stop(slot.worker);
+      }
+    },
+  };
+}
+
+/**
+ * Checks whether a message is a pool task.
+ *
+ * @example
+ * ```ts
+ * if (isWorkerTaskMessage(message)) run(message);
+ * ```
+ */
+function isWorkerTaskMessage(value: unknown): value is WorkerTaskMessage {
+  return (
+    isWorkerContextMessage(value) &&
+    typeof (value as WorkerTaskMessage).__asyncContextTask === "number"
+  );
+}
+
+/**
+ * Converts a thrown value into a cloneable error description.
+ *
+ * @example
+ * ```ts
+ * serializeError(new TypeError("bad")); // { name: "TypeError", message: "bad", stack: "..." }
+ * ```
+ */
+function serializeError(error: unknown): WorkerTaskReply["error"] {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * Stops a worker or closes a port.
+ *
+ * @example
+ * ```ts
+ * await stop(worker);
+ * ```
+ */
+async function stop(worker: ContextWorkerLike): Promise<void> {
+  if (worker.terminate) {
+    await worker.terminate();
+  } else {
+    worker.close?.();
+  }
+}
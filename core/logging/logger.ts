@@ -1,5 +1,15 @@
 import os from "node:os";
-import { Context, type ContextStore } from "../context";
+import {
+  Context,
+  getContextKeyName,
+  type ContextKeyLike,
+  type ContextLazyPolicy,
+  type ContextNamespace,
+  type ContextStore,
+  type PerformanceRecordOptions,
+} from "../context";
+import { ContextValidationError } from "../schema";
+import { getTraceContext } from "../trace-context";
 
 export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
 
@@ -30,8 +40,12 @@ export type LoggerOptions = {
   name?: string;
   bindings?: LogData;
   context?: boolean;
+  traceIds?: boolean;
+  namespace?: ContextNamespace;
   contextKey?: string;
-  contextKeys?: string[];
+  contextKeys?: ContextKeyLike[];
+  lazyContext?: ContextLazyPolicy;
+  auditTrail?: boolean;
   redactDefaults?: boolean;
   redactFieldNames?: string[];
   redactKeys?: string[];
@@ -195,6 +209,13 @@ function serializeError(error: unknown): SerializedError | undefined {
       serialized.cause = normalizeValue(error.cause);
     }
 
+    if (error instanceof ContextValidationError) {
+      serialized.details = normalizeValue({
+        operation: error.operation,
+        issues: error.issues,
+      });
+    }
+
     return serialized;
   }
 
@@ -410,7 +431,7 @@ function redactPath(
  */
 function pickContext(
   store: ContextStore,
-  keys: string[] | undefined
+  keys: ContextKeyLike[] | undefined
 ): ContextStore {
   const snapshot = normalizeValue(store) as ContextStore;
   if (!keys || keys.length === 0) {
@@ -418,7 +439,8 @@ function pickContext(
   }
 
   const picked: ContextStore = {};
-  for (const key of keys) {
+  for (const entry of keys) {
+    const key = getContextKeyName(entry);
     if (Object.prototype.hasOwnProperty.call(snapshot, key)) {
       picked[key] = snapshot[key];
     }
@@ -576,8 +598,12 @@ export class Logger {
     Pick<
       LoggerOptions,
       | "context"
+      | "traceIds"
+      | "namespace"
       | "contextKey"
       | "contextKeys"
+      | "lazyContext"
+      | "auditTrail"
       | "redactDefaults"
       | "redactFieldNames"
       | "redactKeys"
@@ -605,8 +631,12 @@ export class Logger {
     this.bindings = normalizeData(options.bindings) ?? {};
     this.options = {
       context: options.context ?? true,
+      traceIds: options.traceIds ?? true,
+      namespace: options.namespace ?? Context,
       contextKey: options.contextKey ?? "context",
       contextKeys: options.contextKeys ?? [],
+      lazyContext: options.lazyContext ?? "placeholder",
+      auditTrail: options.auditTrail ?? false,
       redactDefaults: options.redactDefaults ?? true,
       redactFieldNames: options.redactFieldNames ?? [],
       redactKeys: options.redactKeys ?? [],
@@ -701,8 +731,12 @@ export class Logger {
       name: options.name ?? this.name,
       bindings: merged,
       context: options.context ?? this.options.context,
+      traceIds: options.traceIds ?? this.options.traceIds,
+      namespace: options.namespace ?? this.options.namespace,
       contextKey: options.contextKey ?? this.options.contextKey,
       contextKeys: options.contextKeys ?? this.options.contextKeys,
+      lazyContext: options.lazyContext ?? this.options.lazyContext,
+      auditTrail: options.auditTrail ?? this.options.auditTrail,
       redactDefaults: options.redactDefaults ?? this.options.redactDefaults,
       redactFieldNames: options.redactFieldNames ?? this.options.redactFieldNames,
       redactKeys: options.redactKeys ?? this.options.redactKeys,
@@ -752,6 +786,26 @@ export class Logger {
     };
   }
 
+  /**
+   * Logs the performance tree of the active context under `performance`.
+   * Nothing is logged when no entries were recorded.
+   *
+   * @example
+   * ```ts
+   * logger.logPerformanceTree("debug", "request timings");
+   * ```
+   */
+  logPerformanceTree(
+    level: LogLevel = "info",
+    message = "performance tree",
+    options: Pick<PerformanceRecordOptions, "key"> = {}
+  ) {
+    if (!this.isLevelEnabled(level)) return;
+    const tree = this.options.namespace.performanceTree(options);
+    if (tree.length === 0) return;
+    this.log(level, message, { performance: tree });
+  }
+
   /**
    * Logs a message at the provided level.
    *
@@ -802,17 +856,41 @@ export class Logger {
     }
 
     if (this.options.context) {
-      const store = Context.getStore();
+      const store = this.options.namespace.snapshot({
+        lazy: this.options.lazyContext,
+      });
       if (store) {
         const context = pickContext(store, this.options.contextKeys);
         entry[this.options.contextKey] = context;
       }
     }
 
+    if (this.options.traceIds) {
+      const traceContext = getTraceContext(this.options.namespace);
+      if (traceContext) {
+        entry.trace_id = traceContext.traceId;
+        entry.span_id = traceContext.spanId;
+      }
+    }
+
     const redactionKeySet = buildRedactionKeySet(
       this.options.redactFieldNames,
       this.options.redactDefaults
     );
+
+    if (this.options.auditTrail && error) {
+      const { contextKey, redactKeys, redactPlaceholder } = this.options;
+      const history = this.options.namespace.history({
+        redact: (key, value) => {
+          const holder = { [contextKey]: { [key]: value } };
+          applyKeyNameRedaction(holder, redactionKeySet, redactPlaceholder);
+          applyRedaction(holder, redactKeys, redactPlaceholder);
+          return holder[contextKey][key];
+        },
+      });
+      if (history.length > 0) entry.audit = history;
+    }
+
     applyKeyNameRedaction(entry, redactionKeySet, this.options.redactPlaceholder);
     applyRedaction(entry, this.options.redactKeys, this.options.redactPlaceholder);
 
@@ -0,0 +1,157 @@
+import {
+  Context,
+  getContextKeyName,
+  type ContextKeyLike,
+  type ContextNamespace,
+  type ContextStore,
+} from "./context";
+
+export type ContextKeySelection = {
+  /**
+   * Only these keys are selected. Defaults to every key.
+   */
+  keys?: ContextKeyLike[];
+  /**
+   * Keys never selected.
+   */
+  excludeKeys?: ContextKeyLike[];
+  /**
+   * Key holding performance entries, never selected.
+   * @default "perf"
+   */
+  performanceKey?: string;
+};
+
+export type SerializableContextOptions = ContextKeySelection & {
+  /**
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+  /**
+   * Values failing this check are dropped.
+   * @default isJsonSerializable
+   */
+  isSerializable?: (value: unknown) => boolean;
+  /**
+   * Called once with every dropped key.
+   */
+  onDropped?: (keys: string[]) => void;
+};
+
+/**
+ * Returns the part of the active context that can cross a process, thread, or
+ * message boundary: selected keys only, without performance entries, and
+ * without values that cannot be serialized.
+ *
+ * @example
+ * ```ts
+ * selectSerializableContext({ keys: ["tenantId"], onDropped: console.warn });
+ * // { tenantId: "t_1" }
+ * ```
+ */
+export function selectSerializableContext(
+  options: SerializableContextOptions = {}
+): ContextStore {
+  const { namespace = Context, isSerializable = isJsonSerializable } = options;
+  const snapshot = namespace.snapshot() ?? {};
+
+  const store: ContextStore = {};
+  const dropped: string[] = [];
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (!isSelectedContextKey(key, options)) continue;
+    if (isSerializable(value)) {
+      store[key] = value;
+    } else {
+      dropped.push(key);
+    }
+  }
+  if (dropped.length > 0) options.onDropped?.(dropped);
+  return store;
+}
+
+/**
+ * Checks a key against the allowlist, the exclusions, and the performance key.
+ *
+ * @example
+ * ```ts
+ * isSelectedContextKey("tenantId", { keys: ["tenantId"] }); // true
+ * isSelectedContextKey("perf", {}); // false
+ * ```
+ */
+export function isSelectedContextKey(key: string, selection: ContextKeySelection): boolean {
+  if (key === (selection.performanceKey ?? "perf")) return false;
+  if (selection.excludeKeys?.some((entry) => getContextKeyName(entry) === key)) return false;
+  return !selection.keys || selection.keys.some((entry) => getContextKeyName(entry) === key);
+}
+
+/**
+ * Checks whether a value survives `JSON.stringify`.
+ *
+ * @example
+ * ```ts
+ * isJsonSerializable({ id: 1 }); // true
+ * isJsonSerializable(() => 1); // false
+ * ```
+ */
+export function isJsonSerializable(value: unknown): boolean {
+  try {
+    return JSON.stringify(value) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value survives `postMessage`.
+ *
+ * @example
+ * ```ts
+ * isStructuredCloneable({ id: 1 }); // true
+ * isStructuredCloneable(() => 1); // false
+ * ```
+ */
+export function isStructuredCloneable(value: unknown): boolean {
+  try {
+    structuredClone(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reports keys dropped on the way to another thread or process as a process
+ * warning.
+ *
+ * @example
+ * ```ts
+ * warnDroppedKeys(["db"], "a worker");
+ * // Context values "db" cannot be sent to a worker and were dropped.
+ * ```
+ */
+export function warnDroppedKeys(keys: string[], target: string): void {
+  const names = keys.map((key) => `"${key}"`).join(", ");
+  process.emitWarning(
+    `Context values ${names} cannot be sent to ${target} and were dropped.`,
+    "AsyncContextWarning"
+  );
+}
+
+/**
+ * Reads a header case-insensitively from a plain header object. `name` must
+ * be lowercase.
+ *
+ * @example
+ * ```ts
+ * readHeader({ TraceParent: "00-..." }, "traceparent"); // "00-..."
+ * ```
+ */
+export function readHeader(
+  headers: Record<string, unknown> | undefined,
+  name: string
+): unknown {
+  if (!headers) return undefined;
+  if (name in headers) return headers[name];
+  const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  return match === undefined ? undefined : headers[match];
+}
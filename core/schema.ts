@@ -0,0 +1,429 @@
+export type ContextValidationPath = Array<string | number>;
+
+export type ContextValidationIssue = {
+  path: ContextValidationPath;
+  message: string;
+};
+
+export type ContextSchemaMode = "throw" | "warn" | "strip";
+
+export type ContextSchemaValidator<T = unknown> = {
+  /**
+   * Phantom field carrying the validated type for inference.
+   */
+  readonly __type?: T;
+  check: (value: unknown, path: ContextValidationPath) => ContextValidationIssue[];
+  optional: () => ContextSchemaValidator<T | undefined>;
+  nullable: () => ContextSchemaValidator<T | null>;
+  refine: (
+    predicate: (value: T) => boolean,
+    message?: string
+  ) => ContextSchemaValidator<T>;
+};
+
+/**
+ * Any validator exposing a `parse(value)` method that throws on invalid input
+ * (for example zod, valibot wrappers, or custom classes).
+ */
+export type ContextParserLike<T = unknown> = {
+  parse: (value: unknown) => T;
+};
+
+export type ContextSchemaEntry<T = unknown> =
+  | ContextSchemaValidator<T>
+  | ContextParserLike<T>;
+
+export type ContextSchemaShape = Record<string, ContextSchemaEntry>;
+
+/**
+ * Either a per-key shape or a parser for the whole store.
+ */
+export type ContextSchema = ContextSchemaShape | ContextParserLike;
+
+export type InferContextSchemaValue<E> = E extends ContextSchemaValidator<infer T>
+  ? T
+  : E extends ContextParserLike<infer T>
+    ? T
+    : unknown;
+
+export type InferContextSchema<S extends ContextSchemaShape> = {
+  [K in keyof S]?: InferContextSchemaValue<S[K]>;
+};
+
+export type ContextSchemaLogger = {
+  log: (level: "warn" | "error", ...args: unknown[]) => void;
+};
+
+export type ContextSchemaOptions = {
+  /**
+   * `throw` rejects the write, `warn` reports and keeps the value,
+   * `strip` reports and drops the offending keys.
+   * @default "throw"
+   */
+  mode?: ContextSchemaMode;
+  /**
+   * Hook invoked with the validation error in `warn` and `strip` modes.
+   */
+  onInvalid?: (error: ContextValidationError) => void;
+  /**
+   * Logger used to report failures in `warn` and `strip` modes.
+   */
+  logger?: ContextSchemaLogger;
+  /**
+   * Level used when reporting through `logger`.
+   * @default "warn"
+   */
+  logLevel?: "warn" | "error";
+};
+
+/**
+ * Error thrown (or reported) when a context write does not match the schema.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   Context.addValue("tenantId", 1);
+ * } catch (error) {
+ *   if (error instanceof ContextValidationError) {
+ *     console.log(error.issues); // [{ path: ["tenantId"], message: "Expected string" }]
+ *   }
+ * }
+ * ```
+ */
+export class ContextValidationError extends Error {
+  readonly issues: ContextValidationIssue[];
+  readonly operation?: string;
+
+  /**
+   * Creates a validation error from a list of issues.
+   *
+   * @example
+   * ```ts
+   * new ContextValidationError([{ path: ["tenantId"], message: "Expected string" }]);
+   * ```
+   */
+  constructor(issues: ContextValidationIssue[], operation?: string) {
+    const summary = issues.map(formatIssue).join("; ");
+    super(
+      operation
+        ? `Context validation failed in ${operation}: ${summary}`
+        : `Context validation failed: ${summary}`
+    );
+    this.name = "ContextValidationError";
+    this.issues = issues;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Small validator DSL for context schemas.
+ *
+ * @example
+ * ```ts
+ * Context.setSchema({
+ *   tenantId: schema.string(),
+ *   user: schema.object({ id: schema.number(), email: schema.string().optional() }),
+ *   roles: schema.array(schema.oneOf(["admin", "member"])),
+ * });
+ * ```
+ */
+export const schema = {
+  any(): ContextSchemaValidator<unknown> {
+    return createValidator(() => []);
+  },
+
+  string(): ContextSchemaValidator<string> {
+    return createTypeValidator("string", (value) => typeof value === "string");
+  },
+
+  number(): ContextSchemaValidator<number> {
+    return createTypeValidator(
+      "number",
+      (value) => typeof value === "number" && !Number.isNaN(value)
+    );
+  },
+
+  integer(): ContextSchemaValidator<number> {
+    return createTypeValidator("integer", (value) => Number.isInteger(value));
+  },
+
+  boolean(): ContextSchemaValidator<boolean> {
+    return createTypeValidator("boolean", (value) => typeof value === "boolean");
+  },
+
+  date(): ContextSchemaValidator<Date> {
+    return createTypeValidator(
+      "date",
+      (value) => value instanceof Date && !Number.isNaN(value.getTime())
+    );
+  },
+
+  literal<T extends string | number | boolean | null>(
+    expected: T
+  ): ContextSchemaValidator<T> {
+    return createValidator((value, path) =>
+      value === expected
+        ? []
+        : [{ path, message: `Expected ${JSON.stringify(expected)}` }]
+    );
+  },
+
+  oneOf<T extends string | number | boolean>(
+    values: readonly T[]
+  ): ContextSchemaValidator<T> {
+    return createValidator((value, path) =>
+      values.includes(value as T)
+        ? []
+        : [
+            {
+              path,
+              message: `Expected one of ${values
+                .map((item) => JSON.stringify(item))
+                .join(", ")}`,
+            },
+          ]
+    );
+  },
+
+  array<T>(item: ContextSchemaEntry<T>): ContextSchemaValidator<T[]> {
+    return createValidator((value, path) => {
+      if (!Array.isArray(value)) return [{ path, message: "Expected array" }];
+      const issues: ContextValidationIssue[] = [];
+      value.forEach((element, index) => {
+        issues.push(...checkEntry(item, element, [...path, index]));
+      });
+      return issues;
+    });
+  },
+
+  object<S extends ContextSchemaShape>(
+    shape: S,
+    options: { unknownKeys?: "allow" | "reject" } = {}
+  ): ContextSchemaValidator<{ [K in keyof S]: InferContextSchemaValue<S[K]> }> {
+    return createValidator((value, path) => {
+      if (!isRecord(value)) return [{ path, message: "Expected object" }];
+      const issues: ContextValidationIssue[] = [];
+      for (const [key, entry] of Object.entries(shape)) {
+        issues.push(...checkEntry(entry, value[key], [...path, key]));
+      }
+      if (options.unknownKeys === "reject") {
+        for (const key of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+            issues.push({ path: [...path, key], message: "Unknown key" });
+          }
+        }
+      }
+      return issues;
+    });
+  },
+
+  record<T>(item: ContextSchemaEntry<T>): ContextSchemaValidator<Record<string, T>> {
+    return createValidator((value, path) => {
+      if (!isRecord(value)) return [{ path, message: "Expected object" }];
+      const issues: ContextValidationIssue[] = [];
+      for (const [key, element] of Object.entries(value)) {
+        issues.push(...checkEntry(item, element, [...path, key]));
+      }
+      return issues;
+    });
+  },
+
+  union<E extends ContextSchemaEntry[]>(
+    ...entries: E
+  ): ContextSchemaValidator<InferContextSchemaValue<E[number]>> {
+    return createValidator((value, path) => {
+      for (const entry of entries) {
+        if (checkEntry(entry, value, path).length === 0) return [];
+      }
+      return [{ path, message: "Value did not match any union member" }];
+    });
+  },
+
+  custom<T = unknown>(
+    predicate: (value: unknown) => boolean,
+    message = "Invalid value"
+  ): ContextSchemaValidator<T> {
+    return createValidator((value, path) =>
+      predicate(value) ? [] : [{ path, message }]
+    );
+  },
+
+  parser<T>(parser: ContextParserLike<T>): ContextSchemaValidator<T> {
+    return createValidator((value, path) => checkParser(parser, value, path));
+  },
+};
+
+/**
+ * Validates a set of values against a schema. Shapes only check the keys
+ * present in `values`; whole-store parsers receive the full `store`.
+ *
+ * @example
+ * ```ts
+ * const issues = validateContextValues({ tenantId: schema.string() }, { tenantId: 1 });
+ * ```
+ */
+export function validateContextValues(
+  contextSchema: ContextSchema,
+  values: Record<string, unknown>,
+  store: Record<string, unknown> = values
+): ContextValidationIssue[] {
+  if (isParserLike(contextSchema)) {
+    const written = new Set(Object.keys(values));
+    const checkAll = store === values;
+    return checkParser(contextSchema, store, []).filter(
+      (issue) =>
+        checkAll || (issue.path.length > 0 && written.has(String(issue.path[0])))
+    );
+  }
+
+  const issues: ContextValidationIssue[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (!Object.prototype.hasOwnProperty.call(contextSchema, key)) continue;
+    issues.push(...checkEntry(contextSchema[key], value, [key]));
+  }
+  return issues;
+}
+
+/**
+ * Formats an issue as `path: message`.
+ *
+ * @example
+ * ```ts
+ * formatIssue({ path: ["user", "id"], message: "Expected number" }); // "user.id: Expected number"
+ * ```
+ */
+function formatIssue(issue: ContextValidationIssue): string {
+  const path = issue.path.length ? issue.path.join(".") : "(root)";
+  return `${path}: ${issue.message}`;
+}
+
+/**
+ * Creates a validator with the chainable helpers attached.
+ *
+ * @example
+ * ```ts
+ * const positive = createValidator((value, path) => []);
+ * ```
+ */
+function createValidator<T>(
+  check: (value: unknown, path: ContextValidationPath) => ContextValidationIssue[]
+): ContextSchemaValidator<T> {
+  return {
+    check,
+    optional() {
+      return createValidator<T | undefined>((value, path) =>
+        value === undefined ? [] : check(value, path)
+      );
+    },
+    nullable() {
+      return createValidator<T | null>((value, path) =>
+        value === null ? [] : check(value, path)
+      );
+    },
+    refine(predicate, message = "Invalid value") {
+      return createValidator<T>((value, path) => {
+        const issues = check(value, path);
+        if (issues.length) return issues;
+        return predicate(value as T) ? [] : [{ path, message }];
+      });
+    },
+  };
+}
+
+/**
+ * Creates a validator that checks a primitive type with a predicate.
+ *
+ * @example
+ * ```ts
+ * const isString = createTypeValidator("string", (value) => typeof value === "string");
+ * ```
+ */
+function createTypeValidator<T>(
+  expected: string,
+  predicate: (value: unknown) => boolean
+): ContextSchemaValidator<T> {
+  return createValidator((value, path) =>
+    predicate(value) ? [] : [{ path, message: `Expected ${expected}` }]
+  );
+}
+
+/**
+ * Checks a value against a DSL validator or a parser-like adapter.
+ *
+ * @example
+ * ```ts
+ * const issues = checkEntry(schema.string(), 1, ["tenantId"]);
+ * ```
+ */
+function checkEntry(
+  entry: ContextSchemaEntry,
+  value: unknown,
+  path: ContextValidationPath
+): ContextValidationIssue[] {
+  if (isParserLike(entry)) return checkParser(entry, value, path);
+  return entry.check(value, path);
+}
+
+/**
+ * Runs a parser-like validator, mapping thrown errors to issues.
+ * Errors exposing an `issues` array (zod style) keep their nested paths.
+ *
+ * @example
+ * ```ts
+ * const issues = checkParser(z.string(), 1, ["tenantId"]);
+ * ```
+ */
+function checkParser(
+  parser: ContextParserLike,
+  value: unknown,
+  path: ContextValidationPath
+): ContextValidationIssue[] {
+  try {
+    parser.parse(value);
+    return [];
+  } catch (error) {
+    const nested = (error as { issues?: unknown } | null)?.issues;
+    if (Array.isArray(nested) && nested.length > 0) {
+      return nested.map((issue) => {
+        const record = isRecord(issue) ? issue : {};
+        const issuePath = Array.isArray(record.path)
+          ? (record.path as ContextValidationPath)
+          : [];
+        const message =
+          typeof record.message === "string" ? record.message : "Invalid value";
+        return { path: [...path, ...issuePath], message };
+      });
+    }
+    const message =
+      error instanceof Error ? error.message : String(error ?? "Invalid value");
+    return [{ path, message }];
+  }
+}
+
+/**
+ * Checks whether a value exposes a `parse` method.
+ *
+ * @example
+ * ```ts
+ * isParserLike({ parse: (value: unknown) => value }); // true
+ * ```
+ */
+function isParserLike(value: unknown): value is ContextParserLike {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as ContextParserLike).parse === "function"
+  );
+}
+
+/**
+ * Checks whether a value is a non-array object.
+ *
+ * @example
+ * ```ts
+ * const ok = isRecord({ a: 1 }); // true
+ * ```
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,540 @@
+import crypto from "node:crypto";
+import { Context, type ContextNamespace } from "./context";
+import { readHeader } from "./propagation";
+
+/**
+ * Context key holding the active W3C trace context.
+ */
+export const TRACE_CONTEXT_KEY = "traceContext";
+
+/**
+ * W3C Trace Context of the current unit of work. `spanId` identifies this
+ * service's span; `parentSpanId` is the caller's span when the trace was
+ * continued from incoming headers.
+ */
+export type TraceContext = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceFlags: number;
+  traceState?: string;
+};
+
+export type ParsedTraceparent = {
+  version: string;
+  traceId: string;
+  parentId: string;
+  traceFlags: number;
+};
+
+export type TraceContextHeaders = Record<string, unknown>;
+
+/**
+ * Span context of the caller as read from (or written to) headers.
+ */
+export type RemoteSpanContext = {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: string;
+};
+
+/**
+ * Reads and writes one trace header format.
+ */
+export type TracePropagator = {
+  name: string;
+  /**
+   * Header names written by `inject`.
+   */
+  fields: readonly string[];
+  extract: (headers: TraceContextHeaders) => RemoteSpanContext | undefined;
+  inject: (context: RemoteSpanContext, headers: Record<string, unknown>) => void;
+};
+
+/**
+ * Built-in propagator names, matching `OTEL_PROPAGATORS` values.
+ */
+export type TracePropagatorName = "tracecontext" | "b3" | "b3multi" | "jaeger";
+
+/**
+ * A propagator, a built-in name, or a list of either (combined into a
+ * composite propagator).
+ */
+export type TracePropagatorInput =
+  | TracePropagator
+  | TracePropagatorName
+  | Array<TracePropagator | TracePropagatorName>;
+
+export type TraceContextOptions = {
+  /**
+   * Header formats read from incoming requests.
+   * @default "tracecontext"
+   */
+  propagator?: TracePropagatorInput;
+};
+
+export type InjectTraceContextOptions = TraceContextOptions & {
+  /**
+   * @default Context
+   */
+  namespace?: ContextNamespace;
+};
+
+export type CompositePropagatorOptions = {
+  /**
+   * Propagators used on inject. Defaults to every propagator.
+   */
+  inject?: TracePropagator[];
+};
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACESTATE_KEY_PATTERN =
+  /^(?:[a-z0-9][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+const TRACESTATE_VALUE_PATTERN =
+  /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const B3_TRACE_ID_PATTERN = /^(?:[0-9a-f]{16}|[0-9a-f]{32})$/;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/;
+const JAEGER_TRACE_ID_PATTERN = /^[0-9a-f]{1,32}$/;
+const JAEGER_SPAN_ID_PATTERN = /^[0-9a-f]{1,16}$/;
+const JAEGER_FLAGS_PATTERN = /^[0-9a-f]{1,2}$/;
+const MAX_TRACESTATE_MEMBERS = 32;
+const SAMPLED_FLAG = 0x01;
+
+/**
+ * Built-in propagators for W3C Trace Context, Zipkin B3 (single and
+ * multi-header), and Jaeger.
+ */
+export const tracePropagators = {
+  /**
+   * W3C `traceparent` and `tracestate`.
+   */
+  tracecontext: {
+    name: "tracecontext",
+    fields: ["traceparent", "tracestate"],
+    extract(headers) {
+      const parent = parseTraceparent(readHeader(headers, "traceparent"));
+      if (!parent) return undefined;
+      const context: RemoteSpanContext = {
+        traceId: parent.traceId,
+        spanId: parent.parentId,
+        traceFlags: parent.traceFlags,
+      };
+      const traceState = parseTracestate(readHeader(headers, "tracestate"));
+      if (traceState) context.traceState = traceState;
+      return context;
+    },
+    inject(context, headers) {
+      headers.traceparent = formatTraceparent(context);
+      if (context.traceState) headers.tracestate = context.traceState;
+    },
+  },
+  /**
+   * Zipkin single header: `b3: {traceId}-{spanId}-{sampled}-{parentSpanId}`.
+   */
+  b3: {
+    name: "b3",
+    fields: ["b3"],
+    extract(headers) {
+      const [traceId, spanId, sampled] = (singleHeader(readHeader(headers, "b3")) ?? "")
+        .trim()
+        .split("-");
+      return toRemoteSpanContext(traceId, spanId, parseB3Sampled(sampled));
+    },
+    inject(context, headers) {
+      headers.b3 = `${context.traceId}-${context.spanId}-${isSampled(context) ? "1" : "0"}`;
+    },
+  },
+  /**
+   * Zipkin multi-header: `x-b3-traceid`, `x-b3-spanid`, `x-b3-sampled`.
+   */
+  b3multi: {
+    name: "b3multi",
+    fields: ["x-b3-traceid", "x-b3-spanid", "x-b3-sampled"],
+    extract(headers) {
+      const debug = singleHeader(readHeader(headers, "x-b3-flags"))?.trim() === "1";
+      const sampled = debug ? "1" : singleHeader(readHeader(headers, "x-b3-sampled"))?.trim();
+      return toRemoteSpanContext(
+        singleHeader(readHeader(headers, "x-b3-traceid"))?.trim(),
+        singleHeader(readHeader(headers, "x-b3-spanid"))?.trim(),
+        parseB3Sampled(sampled)
+      );
+    },
+    inject(context, headers) {
+      headers["x-b3-traceid"] = context.traceId;
+      headers["x-b3-spanid"] = context.spanId;
+      headers["x-b3-sampled"] = isSampled(context) ? "1" : "0";
+    },
+  },
+  /**
+   * Jaeger: `uber-trace-id: {traceId}:{spanId}:{parentSpanId}:{flags}`.
+   */
+  jaeger: {
+    name: "jaeger",
+    fields: ["uber-trace-id"],
+    extract(headers) {
+      const value = decodeHeaderComponent(singleHeader(readHeader(headers, "uber-trace-id")));
+      const parts = value?.trim().split(":") ?? [];
+      if (parts.length !== 4) return undefined;
+      const [traceId, spanId, , flags] = parts;
+      if (
+        !JAEGER_TRACE_ID_PATTERN.test(traceId) ||
+        !JAEGER_SPAN_ID_PATTERN.test(spanId) ||
+        !JAEGER_FLAGS_PATTERN.test(flags)
+      ) {
+        return undefined;
+      }
+      return toRemoteSpanContext(
+        traceId.padStart(32, "0"),
+        spanId.padStart(16, "0"),
+        parseInt(flags, 16) & SAMPLED_FLAG
+      );
+    },
+    inject(context, headers) {
+      const flags = isSampled(context) ? "01" : "00";
+      headers["uber-trace-id"] = `${context.traceId}:${context.spanId}:0:${flags}`;
+    },
+  },
+} satisfies Record<TracePropagatorName, TracePropagator>;
+
+/**
+ * Parses and validates a `traceparent` header. Returns `undefined` for
+ * malformed values, the forbidden `ff` version, or all-zero ids.
+ *
+ * @example
+ * ```ts
+ * parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+ * // { version: "00", traceId: "4bf9...", parentId: "00f0...", traceFlags: 1 }
+ * ```
+ */
+export function parseTraceparent(value: unknown): ParsedTraceparent | undefined {
+  const header = singleHeader(value)?.trim();
+  if (!header) return undefined;
+
+  const match = TRACEPARENT_PATTERN.exec(header);
+  if (!match) return undefined;
+  const [, version, traceId, parentId, flags, rest] = match;
+  if (version === "ff") return undefined;
+  if (version === "00" && rest !== undefined) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) return undefined;
+
+  return { version, traceId, parentId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Validates a `tracestate` header (or repeated headers) and returns it
+ * normalized, or `undefined` when a member is invalid, a key repeats, or
+ * there are more than 32 members.
+ *
+ * @example
+ * ```ts
+ * parseTracestate("congo=t61rcWkgMzE, rojo=00f067aa0ba902b7");
+ * // "congo=t61rcWkgMzE,rojo=00f067aa0ba902b7"
+ * ```
+ */
+export function parseTracestate(value: unknown): string | undefined {
+  const header = Array.isArray(value) ? value.join(",") : value;
+  if (typeof header !== "string") return undefined;
+
+  const members: string[] = [];
+  const keys = new Set<string>();
+  for (const raw of header.split(",")) {
+    const member = raw.trim();
+    if (!member) continue;
+    const separator = member.indexOf("=");
+    if (separator <= 0) return undefined;
+    const key = member.slice(0, separator);
+    const memberValue = member.slice(separator + 1);
+    if (!TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(memberValue)) {
+      return undefined;
+    }
+    if (keys.has(key)) return undefined;
+    keys.add(key);
+    members.push(`${key}=${memberValue}`);
+  }
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) return undefined;
+  return members.join(",");
+}
+
+/**
+ * Formats a version `00` `traceparent` header for the given span.
+ *
+ * @example
+ * ```ts
+ * formatTraceparent({ traceId, spanId, traceFlags: 1 }); // "00-<traceId>-<spanId>-01"
+ * ```
+ */
+export function formatTraceparent(
+  context: Pick<TraceContext, "traceId" | "spanId" | "traceFlags">
+): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Generates a random 16-byte trace id as 32 lowercase hex characters.
+ *
+ * @example
+ * ```ts
+ * generateTraceId(); // "4bf92f3577b34da6a3ce929d0e0e4736"
+ * ```
+ */
+export function generateTraceId(): string {
+  return randomHexId(16);
+}
+
+/**
+ * Generates a random 8-byte span id as 16 lowercase hex characters.
+ *
+ * @example
+ * ```ts
+ * generateSpanId(); // "00f067aa0ba902b7"
+ * ```
+ */
+export function generateSpanId(): string {
+  return randomHexId(8);
+}
+
+/**
+ * Continues the trace from incoming headers with a new span id, or starts a
+ * new sampled trace when the headers are missing or invalid. Reads W3C
+ * `traceparent`/`tracestate` unless another propagator is given.
+ *
+ * @example
+ * ```ts
+ * const trace = createTraceContext(req.headers, { propagator: ["tracecontext", "b3"] });
+ * trace.parentSpanId; // caller's span id, if any
+ * ```
+ */
+export function createTraceContext(
+  headers?: TraceContextHeaders,
+  options: TraceContextOptions = {}
+): TraceContext {
+  const parent = resolveTracePropagator(options.propagator).extract(headers ?? {});
+  if (!parent) {
+    return { traceId: generateTraceId(), spanId: generateSpanId(), traceFlags: SAMPLED_FLAG };
+  }
+
+  const context: TraceContext = {
+    traceId: parent.traceId,
+    spanId: generateSpanId(),
+    parentSpanId: parent.spanId,
+    traceFlags: parent.traceFlags,
+  };
+  if (parent.traceState) context.traceState = parent.traceState;
+  return context;
+}
+
+/**
+ * Combines propagators: extracts with the first one whose headers are
+ * present and injects every configured format.
+ *
+ * @example
+ * ```ts
+ * const propagator = createCompositePropagator(
+ *   [tracePropagators.tracecontext, tracePropagators.b3multi],
+ *   { inject: [tracePropagators.tracecontext] }
+ * );
+ * ```
+ */
+export function createCompositePropagator(
+  propagators: TracePropagator[],
+  options: CompositePropagatorOptions = {}
+): TracePropagator {
+  const injectors = options.inject ?? propagators;
+
+  return {
+    name: propagators.map((propagator) => propagator.name).join(","),
+    fields: [...new Set(injectors.flatMap((propagator) => propagator.fields))],
+    extract(headers) {
+      for (const propagator of propagators) {
+        const context = propagator.extract(headers);
+        if (context) return context;
+      }
+      return undefined;
+    },
+    inject(context, headers) {
+      for (const propagator of injectors) propagator.inject(context, headers);
+    },
+  };
+}
+
+/**
+ * Resolves a propagator name, instance, or list. Lists become a composite
+ * propagator; nothing resolves to W3C Trace Context.
+ *
+ * @example
+ * ```ts
+ * resolveTracePropagator(["b3", "jaeger"]).extract(req.headers);
+ * ```
+ */
+export function resolveTracePropagator(input?: TracePropagatorInput): TracePropagator {
+  if (input === undefined) return tracePropagators.tracecontext;
+  if (Array.isArray(input)) {
+    const propagators = input.map((entry) => resolveTracePropagator(entry));
+    return propagators.length === 1 ? propagators[0] : createCompositePropagator(propagators);
+  }
+  if (typeof input !== "string") return input;
+  const propagator: TracePropagator | undefined =
+    tracePropagators[input as TracePropagatorName];
+  if (!propagator) throw new Error(`Unknown trace propagator "${input}".`);
+  return propagator;
+}
+
+/**
+ * Returns the trace context stored in the active context, if valid.
+ *
+ * @example
+ * ```ts
+ * getTraceContext()?.traceId;
+ * ```
+ */
+export function getTraceContext(
+  namespace: ContextNamespace = Context
+): TraceContext | undefined {
+  const value = namespace.getValue<TraceContext>(TRACE_CONTEXT_KEY);
+  return isTraceContext(value) ? value : undefined;
+}
+
+/**
+ * Writes the active trace into outgoing headers (W3C `traceparent` and
+ * `tracestate` by default), so the callee continues the trace as a child of
+ * this span.
+ *
+ * @example
+ * ```ts
+ * await fetch(url, { headers: injectTraceContextHeaders({ accept: "application/json" }) });
+ * ```
+ */
+export function injectTraceContextHeaders<H extends Record<string, unknown>>(
+  headers: H,
+  options: InjectTraceContextOptions = {}
+): H {
+  const context = getTraceContext(options.namespace);
+  if (context) resolveTracePropagator(options.propagator).inject(context, headers);
+  return headers;
+}
+
+/**
+ * Checks whether a value is a usable trace context.
+ *
+ * @example
+ * ```ts
+ * isTraceContext({ traceId: "...", spanId: "...", traceFlags: 1 }); // true
+ * ```
+ */
+export function isTraceContext(value: unknown): value is TraceContext {
+  if (!value || typeof value !== "object") return false;
+  const context = value as TraceContext;
+  return (
+    typeof context.traceId === "string" &&
+    /^[0-9a-f]{32}$/.test(context.traceId) &&
+    typeof context.spanId === "string" &&
+    /^[0-9a-f]{16}$/.test(context.spanId) &&
+    typeof context.traceFlags === "number"
+  );
+}
+
+/**
+ * Returns a single header value; repeated `traceparent` headers are invalid.
+ *
+ * @example
+ * ```ts
+ * singleHeader(["a"]); // "a"
+ * singleHeader(["a", "b"]); // undefined
+ * ```
+ */
+function singleHeader(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.length === 1 ? singleHeader(value[0]) : undefined;
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Builds a remote span context from B3/Jaeger ids, or `undefined` when an id
+ * is malformed or all zeros. 64-bit trace ids are left-padded to 128 bits.
+ *
+ * @example
+ * ```ts
+ * toRemoteSpanContext("463ac35c9f6413ad", "a2fb4a1d1a96d312", 1);
+ * // { traceId: "0000000000000000463ac35c9f6413ad", spanId: "a2fb4a1d1a96d312", traceFlags: 1 }
+ * ```
+ */
+function toRemoteSpanContext(
+  traceId: string | undefined,
+  spanId: string | undefined,
+  traceFlags: number | undefined
+): RemoteSpanContext | undefined {
+  if (traceFlags === undefined || !traceId || !spanId) return undefined;
+  const normalizedTraceId = traceId.toLowerCase();
+  const normalizedSpanId = spanId.toLowerCase();
+  if (!B3_TRACE_ID_PATTERN.test(normalizedTraceId)) return undefined;
+  if (!SPAN_ID_PATTERN.test(normalizedSpanId)) return undefined;
+  if (/^0+$/.test(normalizedTraceId) || /^0+$/.test(normalizedSpanId)) return undefined;
+  return {
+    traceId: normalizedTraceId.padStart(32, "0"),
+    spanId: normalizedSpanId,
+    traceFlags,
+  };
+}
+
+/**
+ * Maps a B3 sampling state to trace flags. Missing (deferred) sampling is
+ * treated as sampled, like traces started by this library.
+ *
+ * @example
+ * ```ts
+ * parseB3Sampled("d"); // 1
+ * parseB3Sampled("0"); // 0
+ * ```
+ */
+function parseB3Sampled(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return SAMPLED_FLAG;
+  if (value === "1" || value === "d" || value === "true") return SAMPLED_FLAG;
+  if (value === "0" || value === "false") return 0;
+  return undefined;
+}
+
+/**
+ * Checks the sampled bit of the trace flags.
+ *
+ * @example
+ * ```ts
+ * isSampled({ traceFlags: 1 }); // true
+ * ```
+ */
+function isSampled(context: Pick<RemoteSpanContext, "traceFlags">): boolean {
+  return (context.traceFlags & SAMPLED_FLAG) === SAMPLED_FLAG;
+}
+
+/**
+ * URL-decodes a header value (Jaeger clients may escape `:` as `%3A`).
+ *
+ * @example
+ * ```ts
+ * decodeHeaderComponent("abc%3A1"); // "abc:1"
+ * ```
+ */
+function decodeHeaderComponent(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generates a non-zero random id of the given byte length as hex.
+ *
+ * @example
+ * ```ts
+ * randomHexId(8); // "00f067aa0ba902b7"
+ * ```
+ */
+function randomHexId(bytes: number): string {
+  let id = crypto.randomBytes(bytes).toString("hex");
+  while (/^0+$/.test(id)) id = crypto.randomBytes(bytes).toString("hex");
+  return id;
+}
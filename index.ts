@@ -1,11 +1,73 @@
 export {
   Context,
+  computedValue,
+  createContextKey,
+  lazyValue,
+  type AsyncContextRegistry,
+  type AsyncContextRegistryConfig,
+  type ContextAuditEntry,
+  type ContextAuditOperation,
+  type ContextAuditOptions,
+  type ContextEmitterLike,
+  type ContextFanOutOptions,
+  type ContextHistoryOptions,
+  type ContextJoinOptions,
+  type ContextJoinReducer,
+  type ContextJoinStrategy,
+  type ContextKey,
+  type ContextKeyLike,
+  type ContextKeyOptions,
+  type ContextLazyPolicy,
+  type ContextNamespace,
+  type ContextPipelineCallback,
+  type ContextPipelineStream,
+  type ContextProtectOptions,
+  type ContextRunOptions,
+  type ContextRunner,
+  type ContextRunWithOptions,
+  type ContextSnapshotOptions,
   type ContextStore,
+  type ContextValueOptions,
+  type DefaultedContextKey,
+  type RegisteredContextKey,
+  type RegisteredContextValue,
+  type UnregisteredContextKey,
   type PerformanceEntry,
   type PerformanceError,
   type PerformanceMeasureOptions,
+  type PerformanceBudgetOptions,
+  type PerformanceBudgetViolation,
   type PerformanceRecordOptions,
+  type PerformanceResourceUsage,
+  type PerformanceResourceUsageOptions,
+  type PerformanceSummary,
+  type PerformanceSummaryGroup,
+  type PerformanceSummaryOptions,
+  type PerformanceTreeNode,
 } from "./core/context";
+export {
+  AsyncContext,
+  AsyncContextSnapshot,
+  AsyncContextVariable,
+  type AsyncContextVariableOptions,
+} from "./core/async-context";
+export {
+  ContextValidationError,
+  schema,
+  validateContextValues,
+  type ContextParserLike,
+  type ContextSchema,
+  type ContextSchemaEntry,
+  type ContextSchemaLogger,
+  type ContextSchemaMode,
+  type ContextSchemaOptions,
+  type ContextSchemaShape,
+  type ContextSchemaValidator,
+  type ContextValidationIssue,
+  type ContextValidationPath,
+  type InferContextSchema,
+  type InferContextSchemaValue,
+} from "./core/schema";
 export {
   AsyncContextExpresssMiddleware,
   AsyncContextExpressMiddleware,
@@ -14,13 +76,17 @@ export {
   type AsyncContextExpressSeed,
 } from "./core/integrations/express";
 export { AsyncContextNestMiddleware } from "./core/integrations/nest";
-export { AsyncContextAdonisMiddleware } from "./core/integrations/adonis";
+export {
+  AsyncContextAdonisMiddleware,
+  type AsyncContextAdonisOptions,
+} from "./core/integrations/adonis";
 export {
   createAsyncContextFastifyHook,
   registerAsyncContextFastify,
   type AsyncContextFastifyOptions,
   type AsyncContextFastifySeed,
   type FastifyHook,
+  type FastifyRequestIdOptions,
   type FastifyRequestLike,
   type FastifyReplyLike,
 } from "./core/integrations/fastify";
@@ -37,6 +103,117 @@ export {
   type AsyncContextNextSeed,
   type NextApiHandler,
 } from "./core/integrations/next";
+export { readRequestId, type RequestIdOptions } from "./core/integrations/request-id";
+export type { PerformanceSummaryLogOptions } from "./core/integrations/performance-summary";
+export {
+  formatServerTimingHeader,
+  type ServerTimingOptions,
+} from "./core/integrations/server-timing";
+export {
+  createOutgoingHttpHeaders,
+  instrumentOutgoingHttp,
+  type OutgoingHttpInstrumentationOptions,
+  type OutgoingHttpRequestInfo,
+} from "./core/integrations/http-client";
+export {
+  captureWorkerContext,
+  createContextWorkerPool,
+  createWorkerWithContext,
+  handleWorkerTasks,
+  isWorkerContextMessage,
+  onMessageWithContext,
+  postMessageWithContext,
+  runWithWorkerContext,
+  wrapWorkerMessage,
+  type ContextWorkerLike,
+  type ContextWorkerPool,
+  type ContextWorkerPoolOptions,
+  type WorkerContextMessage,
+  type WorkerContextOptions,
+  type WorkerMessageSource,
+  type WorkerMessageTarget,
+  type WorkerTaskHandler,
+  type WorkerTaskHandlerOptions,
+} from "./core/integrations/worker-threads";
+export {
+  CHILD_CONTEXT_ENV,
+  decodeChildContext,
+  encodeChildContext,
+  enterInheritedContext,
+  forkWithContext,
+  isContextHandshake,
+  readInheritedContext,
+  receiveContextHandshake,
+  runWithInheritedContext,
+  spawnWithContext,
+  withContextEnv,
+  type ChildContextEnvOptions,
+  type ChildContextOptions,
+  type ContextHandshakeMessage,
+  type ContextHandshakeOptions,
+  type ForkWithContextOptions,
+  type InheritedContextOptions,
+} from "./core/integrations/child-process";
+export {
+  JOB_CONTEXT_FIELD,
+  createContextJobConsumer,
+  createContextJobProducer,
+  createInMemoryJobQueue,
+  createJobContextEnvelope,
+  jobAdapters,
+  readJobContext,
+  stripJobContext,
+  withJobContext,
+  type ContextJobConsumerOptions,
+  type InMemoryJob,
+  type InMemoryJobQueue,
+  type InMemoryJobQueueOptions,
+  type JobAdapter,
+  type JobContextEnvelope,
+  type JobContextOptions,
+  type JobDescriptor,
+  type JobHandler,
+  type JobHandlerHelpers,
+  type JobPayloadWithContext,
+} from "./core/integrations/jobs";
+export {
+  createContextHeaders,
+  extractMessageContext,
+  injectMessageContext,
+  messageHeaderAdapters,
+  parseContextHeaders,
+  runWithMessageContext,
+  type MessageHeaderAdapter,
+  type MessageHeaderCodecOptions,
+  type MessageHeaderDropReason,
+  type MessageHeaders,
+  type MessageHeaderValue,
+} from "./core/integrations/message-headers";
+export {
+  TRACE_CONTEXT_KEY,
+  createCompositePropagator,
+  createTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  getTraceContext,
+  injectTraceContextHeaders,
+  isTraceContext,
+  parseTraceparent,
+  parseTracestate,
+  resolveTracePropagator,
+  tracePropagators,
+  type CompositePropagatorOptions,
+  type InjectTraceContextOptions,
+  type ParsedTraceparent,
+  type RemoteSpanContext,
+  type TraceContext,
+  type TraceContextHeaders,
+  type TraceContextOptions,
+  type TracePropagator,
+  type TracePropagatorInput,
+  type TracePropagatorName,
+} from "./core/trace-context";
 export { Logger, createLogger, createConsoleTransport } from "./core/logging/logger";
 export type {
   LogLevel,
@@ -67,6 +244,7 @@ export {
   bindAsyncContextToSentryScope,
   captureExceptionWithContext,
   initSentryWithAsyncContext,
+  tagSentryScopeWithBudgetViolation,
   sentryAsyncContextExpressMiddleware,
   sentryErrorHandler,
 } from "./core/integrations/sentry";
@@ -91,6 +269,8 @@ export {
   getCachedOpenTelemetryApi,
   withOpenTelemetrySpan,
   recordOpenTelemetrySpan,
+  recordOpenTelemetryPerformanceTree,
+  recordOpenTelemetryBudgetViolation,
   getActiveOpenTelemetrySpanContext,
   setOpenTelemetryBaggageFromContext,
   mergeContextFromOpenTelemetryBaggage,
@@ -108,6 +288,7 @@ export type {
   OpenTelemetrySpanSummary,
   OpenTelemetrySpanOptions,
   OpenTelemetrySpanRecordOptions,
+  OpenTelemetryPerformanceTreeOptions,
   OpenTelemetryBaggageFromContextOptions,
   OpenTelemetryContextFromBaggageOptions,
   OpenTelemetryHeaderPropagationOptions,
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { AsyncContext } from "../core/async-context";
+import { Context, createContextKey } from "../core/context";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("AsyncContext.Variable", () => {
+  it("exposes name and defaultValue", () => {
+    const locale = new AsyncContext.Variable({ name: "locale", defaultValue: "en-US" });
+
+    expect(locale.name).toBe("locale");
+    expect(locale.defaultValue).toBe("en-US");
+    expect(locale.get()).toBe("en-US");
+    expect(new AsyncContext.Variable().name).toBe("");
+  });
+
+  it("restores the outer value after nested runs", async () => {
+    const tenant = new AsyncContext.Variable<string>();
+    const seen: Array<string | undefined> = [];
+
+    await tenant.run("t1", async () => {
+      seen.push(tenant.get());
+      await tenant.run("t2", async () => {
+        await tick();
+        seen.push(tenant.get());
+      });
+      seen.push(tenant.get());
+    });
+    seen.push(tenant.get());
+
+    expect(seen).toEqual(["t1", "t2", "t1", undefined]);
+  });
+
+  it("forwards arguments and keeps variables independent", () => {
+    const a = new AsyncContext.Variable<number>({ name: "same" });
+    const b = new AsyncContext.Variable<number>({ name: "same", defaultValue: 0 });
+
+    const result = a.run(1, (offset: number) => a.get()! + b.get()! + offset, 10);
+
+    expect(result).toBe(11);
+  });
+
+  it("sets undefined explicitly instead of falling back to the default", () => {
+    const flag = new AsyncContext.Variable<boolean | undefined>({ defaultValue: true });
+
+    expect(flag.run(undefined, () => flag.get())).toBeUndefined();
+  });
+
+  it("interoperates with Context through a shared key", () => {
+    const RequestId = createContextKey<string>("requestId");
+    const requestId = new AsyncContext.Variable({ key: RequestId });
+    const hidden = new AsyncContext.Variable<string>({ name: "hidden" });
+
+    Context.run({ requestId: "req-1", user: "u1" }, () => {
+      expect(requestId.get()).toBe("req-1");
+
+      requestId.run("req-2", () => {
+        hidden.run("secret", () => {
+          expect(Context.getValue("requestId")).toBe("req-2");
+          expect(Context.getValue("user")).toBe("u1");
+          expect(Context.snapshot()).toEqual({ requestId: "req-2", user: "u1" });
+        });
+      });
+
+      expect(Context.get(RequestId)).toBe("req-1");
+    });
+  });
+
+  it("stores values in the configured namespace", () => {
+    const Scoped = Context.createNamespace("async-context-variable");
+    const region = new AsyncContext.Variable({ key: "region", namespace: Scoped });
+
+    region.run("eu", () => {
+      expect(Scoped.getValue("region")).toBe("eu");
+      expect(Context.getStore()).toBeUndefined();
+    });
+  });
+});
+
+describe("AsyncContext.Snapshot", () => {
+  it("restores the values captured at construction", async () => {
+    const user = new AsyncContext.Variable<string>();
+    const snapshot = user.run("alice", () =>
+      Context.runWith({ requestId: "req-1" }, () => new AsyncContext.Snapshot())
+    );
+
+    await user.run("bob", async () => {
+      await tick();
+      const read = (suffix: string) =>
+        `${user.get()}:${Context.getValue("requestId")}${suffix}`;
+      expect(snapshot.run(read, "!")).toBe("alice:req-1!");
+      expect(user.get()).toBe("bob");
+    });
+
+    expect(new AsyncContext.Snapshot().run(() => user.get())).toBeUndefined();
+  });
+
+  it("restores default Context values without any variable", () => {
+    const snapshot = Context.run({}, () => {
+      Context.addValue("account", "acct-1");
+      return new AsyncContext.Snapshot();
+    });
+
+    expect(snapshot.run(() => Context.getValue("account"))).toBe("acct-1");
+  });
+
+  it("does not capture namespaces that no variable uses", () => {
+    const Unused = Context.createNamespace("async-context-snapshot-unused");
+    const snapshot = Unused.run({ tenant: "t1" }, () => new AsyncContext.Snapshot());
+
+    expect(snapshot.run(() => Unused.getValue("tenant"))).toBeUndefined();
+    expect(Unused.run({ tenant: "t1" }, () => Unused.capture()(() => Unused.getValue("tenant"))))
+      .toBe("t1");
+  });
+
+  it("captures variables from every namespace", () => {
+    const Scoped = Context.createNamespace("async-context-snapshot");
+    const tenant = new AsyncContext.Variable<string>({ namespace: Scoped });
+    const trace = new AsyncContext.Variable<string>();
+
+    const snapshot = tenant.run("t1", () =>
+      trace.run("trace-1", () => new AsyncContext.Snapshot())
+    );
+
+    expect(snapshot.run(() => [tenant.get(), trace.get()])).toEqual(["t1", "trace-1"]);
+  });
+
+  it("wraps functions with the current snapshot", async () => {
+    const requestId = new AsyncContext.Variable<string>();
+    const target = { label: "req" };
+
+    const wrapped = requestId.run("req-1", () =>
+      AsyncContext.Snapshot.wrap(function (this: typeof target, n: number) {
+        return `${this.label}:${requestId.get()}:${n}`;
+      })
+    );
+
+    await requestId.run("req-2", async () => {
+      await tick();
+      expect(wrapped.call(target, 1)).toBe("req:req-1:1");
+    });
+  });
+});
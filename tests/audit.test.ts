@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+describe("Context audit trail", () => {
+  afterEach(() => {
+    Context.setAudit(false);
+    Context.setClock();
+  });
+
+  it("is disabled by default", () => {
+    Context.run({}, () => {
+      Context.addValue("tenantId", "t_1");
+      expect(Context.history()).toEqual([]);
+    });
+    expect(Context.history()).toEqual([]);
+  });
+
+  it("records every mutation with value summaries", () => {
+    Context.setAudit({ captureCallSite: false });
+    Context.setClock(() => 1000);
+
+    Context.run({ seeded: true }, () => {
+      Context.addValue("tenantId", "t_1");
+      Context.addValue("tenantId", "t_2");
+      Context.addObjectValue({ locale: "pt-BR" });
+      Context.addOptions({ retry: 1 });
+      Context.addOptions({ retry: 2 });
+      Context.setDefault("region", "eu");
+      Context.setDefault("region", "us");
+      Context.addLazy("claims", () => ({}));
+      Context.recordPerformance({ name: "db", startedAt: 0, endedAt: 1, durationMs: 1 });
+      Context.remove("locale");
+      Context.remove("missing");
+      Context.reset();
+
+      expect(
+        Context.history().map(({ operation, key, previous, next }) => ({
+          operation,
+          key,
+          previous,
+          next,
+        }))
+      ).toEqual([
+        { operation: "addValue", key: "tenantId", previous: undefined, next: "\"t_1\"" },
+        { operation: "addValue", key: "tenantId", previous: "\"t_1\"", next: "\"t_2\"" },
+        { operation: "addObjectValue", key: "locale", previous: undefined, next: "\"pt-BR\"" },
+        { operation: "addOptions", key: "options", previous: undefined, next: "{\"retry\":1}" },
+        {
+          operation: "addOptions",
+          key: "options",
+          previous: "{\"retry\":1}",
+          next: "{\"retry\":2}",
+        },
+        { operation: "setDefault", key: "region", previous: undefined, next: "\"eu\"" },
+        { operation: "addLazy", key: "claims", previous: undefined, next: "[Lazy]" },
+        {
+          operation: "recordPerformance",
+          key: "perf",
+          previous: undefined,
+          next: "{\"name\":\"db\",\"startedAt\":0,\"endedAt\":1,\"durationMs\":1}",
+        },
+        { operation: "remove", key: "locale", previous: "\"pt-BR\"", next: undefined },
+        { operation: "reset", key: "seeded", previous: "true", next: undefined },
+        { operation: "reset", key: "tenantId", previous: "\"t_2\"", next: undefined },
+        { operation: "reset", key: "options", previous: "{\"retry\":2}", next: undefined },
+        { operation: "reset", key: "region", previous: "\"eu\"", next: undefined },
+        { operation: "reset", key: "claims", previous: "[Lazy]", next: undefined },
+        { operation: "reset", key: "perf", previous: expect.any(String), next: undefined },
+      ]);
+      expect(Context.history()[0].timestamp).toBe(1000);
+    });
+  });
+
+  it("records expirations", () => {
+    let now = 0;
+    Context.setAudit({ captureCallSite: false });
+    Context.setClock(() => now);
+
+    Context.run({}, () => {
+      Context.addValue("token", "a", { ttlMs: 10, onExpire: () => "b" });
+      now = 10;
+      Context.getValue("token");
+
+      expect(Context.history()[1]).toMatchObject({
+        operation: "expire",
+        key: "token",
+        previous: "\"a\"",
+        next: "\"b\"",
+      });
+    });
+  });
+
+  it("captures the call site outside the library", () => {
+    Context.setAudit();
+
+    Context.run({}, function updateTenant() {
+      Context.addValue("tenantId", "t_1");
+      expect(Context.history()[0].callSite).toMatch(/audit\.test\.ts:\d+:\d+/);
+    });
+  });
+
+  it("trims summaries, caps entries, and can omit values", () => {
+    Context.setAudit({ maxEntries: 2, maxValueLength: 5, captureCallSite: false });
+
+    Context.run({}, () => {
+      Context.addValue("a", "long value");
+      Context.addValue("b", 1);
+      Context.addValue("c", 2);
+
+      const history = Context.history();
+      expect(history.map((entry) => entry.key)).toEqual(["b", "c"]);
+    });
+
+    Context.run({}, () => {
+      Context.addValue("a", "long value");
+      expect(Context.history()[0].next).toBe("\"long...");
+    });
+
+    Context.setAudit({ includeValues: false, captureCallSite: false });
+    Context.run({}, () => {
+      Context.addValue("token", "secret");
+      expect(Context.history()[0]).not.toHaveProperty("next");
+    });
+  });
+
+  it("shares the trail with runWith children and isolates namespaces", () => {
+    Context.setAudit({ captureCallSite: false });
+    const Scoped = Context.createNamespace("audit-isolated");
+
+    Context.run({}, () => {
+      Context.addValue("parent", 1);
+      Context.runWith({ feature: "beta" }, () => {
+        Context.addValue("child", 2);
+        expect(Context.history().map((entry) => entry.key)).toEqual(["parent", "child"]);
+      });
+      expect(Context.history().map((entry) => entry.key)).toEqual(["parent"]);
+    });
+
+    Scoped.run({}, () => {
+      Scoped.addValue("x", 1);
+      expect(Scoped.history()).toEqual([]);
+    });
+  });
+
+  it("attaches the trail to logged errors", () => {
+    Context.setAudit({ captureCallSite: false });
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      auditTrail: true,
+    });
+
+    Context.run({}, () => {
+      Context.addValue("tenantId", "t_1");
+      logger.info("no error");
+      logger.error("failed", new Error("boom"));
+    });
+
+    expect(entries[0].audit).toBeUndefined();
+    expect(entries[1].audit).toEqual([
+      expect.objectContaining({ operation: "addValue", key: "tenantId" }),
+    ]);
+  });
+
+  it("redacts sensitive values in logged trails", () => {
+    Context.setAudit({ captureCallSite: false });
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      auditTrail: true,
+      redactFieldNames: ["apiKey"],
+    });
+
+    Context.run({}, () => {
+      Context.addValue("password", "hunter2");
+      Context.addValue("password", "hunter3");
+      Context.addValue("apiKey", "k_live");
+      Context.addValue("tenantId", "t_1");
+      logger.error("failed", new Error("boom"));
+    });
+
+    const output = JSON.stringify(entries[0]);
+    expect(output).not.toContain("hunter");
+    expect(output).not.toContain("k_live");
+    expect(entries[0].audit).toEqual([
+      expect.objectContaining({ key: "password", next: "[REDACTED]" }),
+      expect.objectContaining({ key: "password", previous: "[REDACTED]", next: "[REDACTED]" }),
+      expect.objectContaining({ key: "apiKey", next: "[REDACTED]" }),
+      expect.objectContaining({ key: "tenantId", next: '"t_1"' }),
+    ]);
+  });
+
+  it("redacts nested secrets and redactKeys before summarizing", () => {
+    Context.setAudit({ captureCallSite: false, maxValueLength: 20 });
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      auditTrail: true,
+      redactKeys: ["context.account.id"],
+    });
+    const user = { id: 1, password: "hunter2" };
+
+    Context.run({}, () => {
+      Context.addValue("user", user);
+      Context.addValue("account", { id: "s_secret", ttl: 60 });
+      logger.error("failed", new Error("boom"));
+    });
+
+    expect(JSON.stringify(entries[0])).not.toMatch(/hunter2|s_secret/);
+    expect(entries[0].audit).toEqual([
+      expect.objectContaining({ key: "user", next: '{"id":1,"password":"...' }),
+      expect.objectContaining({ key: "account", next: '{"id":"[REDACTED]","...' }),
+    ]);
+    expect(user.password).toBe("hunter2");
+    expect(Context.history()).toEqual([]);
+  });
+});
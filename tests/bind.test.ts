@@ -0,0 +1,113 @@
+import { EventEmitter } from "node:events";
+import { PassThrough, Readable, Writable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+
+const later = <T>(callback: () => T) =>
+  new Promise<T>((resolve) => setImmediate(() => resolve(callback())));
+
+describe("Context.capture / Context.bind", () => {
+  it("re-enters the captured store from another context", async () => {
+    const run = Context.run({ requestId: "req-1" }, () => Context.capture());
+
+    await Context.run({ requestId: "req-2" }, async () => {
+      const seen = await later(() => run(() => Context.getValue("requestId")));
+      expect(seen).toBe("req-1");
+      expect(Context.getValue("requestId")).toBe("req-2");
+    });
+  });
+
+  it("shares the captured store instead of copying it", () => {
+    const run = Context.run({}, () => {
+      const runner = Context.capture();
+      Context.addValue("late", true);
+      return runner;
+    });
+
+    run(() => Context.addValue("fromRunner", 1));
+    expect(run(() => Context.getStore())).toEqual({ late: true, fromRunner: 1 });
+  });
+
+  it("runs outside any context when nothing was captured", () => {
+    const run = Context.capture();
+
+    Context.run({ requestId: "req-1" }, () => {
+      expect(run(() => Context.getStore())).toBeUndefined();
+    });
+  });
+
+  it("binds functions and forwards this and arguments", async () => {
+    const target = { prefix: "id" };
+    const bound = Context.run({ requestId: "req-1" }, () =>
+      Context.bind(function (this: typeof target, suffix: string) {
+        return `${this.prefix}:${Context.getValue("requestId")}:${suffix}`;
+      })
+    );
+
+    await expect(later(() => bound.call(target, "x"))).resolves.toBe("id:req-1:x");
+  });
+
+  it("keeps namespaces isolated", () => {
+    const Scoped = Context.createNamespace("bind-scoped");
+
+    const bound = Scoped.run({ tenant: "t1" }, () =>
+      Context.run({ requestId: "req-1" }, () => Scoped.bind(() => Scoped.getValue("tenant")))
+    );
+
+    expect(bound()).toBe("t1");
+  });
+});
+
+describe("Context.bindEmitter", () => {
+  it("binds listeners registered before and after the call", () => {
+    const emitter = new EventEmitter();
+    const seen: unknown[] = [];
+    emitter.on("event", () => seen.push(Context.getValue("requestId")));
+
+    Context.run({ requestId: "req-1" }, () => Context.bindEmitter(emitter));
+    Context.run({ requestId: "req-2" }, () => {
+      emitter.once("event", () => seen.push(Context.getValue("requestId")));
+      emitter.emit("event");
+    });
+
+    expect(seen).toEqual(["req-1", "req-1"]);
+    expect(emitter.listenerCount("event")).toBe(1);
+  });
+
+  it("replaces the captured store when bound again", () => {
+    const emitter = new EventEmitter();
+    let seen: unknown;
+    emitter.on("event", () => {
+      seen = Context.getValue("requestId");
+    });
+
+    Context.run({ requestId: "req-1" }, () => Context.bindEmitter(emitter));
+    Context.run({ requestId: "req-2" }, () => Context.bindEmitter(emitter));
+    emitter.emit("event");
+
+    expect(seen).toBe("req-2");
+  });
+});
+
+describe("Context.pipeline", () => {
+  it("runs the completion callback in the active context", async () => {
+    const chunks: string[] = [];
+    const sink = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(String(chunk));
+        setImmediate(callback);
+      },
+    });
+
+    const requestId = await Context.run({ requestId: "req-1" }, () =>
+      new Promise((resolve, reject) => {
+        Context.pipeline(Readable.from(["a", "b"]), new PassThrough(), sink, (error) =>
+          error ? reject(error) : resolve(Context.getValue("requestId"))
+        );
+      })
+    );
+
+    expect(requestId).toBe("req-1");
+    expect(chunks).toEqual(["a", "b"]);
+  });
+});
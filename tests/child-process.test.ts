@@ -0,0 +1,114 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it, vi } from "vitest";
+import { resolveLoggerEnv } from "../core/config";
+import { Context } from "../core/context";
+import {
+  decodeChildContext,
+  encodeChildContext,
+  enterInheritedContext,
+  readInheritedContext,
+  receiveContextHandshake,
+  runWithInheritedContext,
+  spawnWithContext,
+  withContextEnv,
+} from "../core/integrations/child-process";
+
+describe("child_process context propagation", () => {
+  it("encodes selected, serializable keys", () => {
+    const onDropped = vi.fn();
+
+    Context.run({ instance_id: "i1", tenantId: "t1", db: () => 1 }, () => {
+      Context.measure("parent", () => undefined);
+
+      const encoded = encodeChildContext({ onDropped });
+      expect(decodeChildContext(encoded)).toEqual({ instance_id: "i1", tenantId: "t1" });
+      expect(onDropped).toHaveBeenCalledWith(["db"]);
+      expect(decodeChildContext(encodeChildContext({ keys: ["tenantId"] }))).toEqual({
+        tenantId: "t1",
+      });
+    });
+
+    expect(encodeChildContext()).toBeUndefined();
+    expect(decodeChildContext('{"tenantId":"t2"}')).toEqual({ tenantId: "t2" });
+    expect(decodeChildContext("not-json")).toBeUndefined();
+    expect(decodeChildContext("[1]")).toBeUndefined();
+  });
+
+  it("adds the context to an env copy and drops stale values", () => {
+    const env = { PATH: "/bin", ASYNC_CONTEXT: "stale" };
+
+    const next = Context.run({ tenantId: "t1" }, () => withContextEnv(env));
+    expect(next.PATH).toBe("/bin");
+    expect(readInheritedContext({ env: next })).toEqual({ tenantId: "t1" });
+    expect(env.ASYNC_CONTEXT).toBe("stale");
+
+    expect(withContextEnv(env)).not.toHaveProperty("ASYNC_CONTEXT");
+    expect(
+      Context.run({ tenantId: "t1" }, () => withContextEnv({}, { variable: "CTX" }))
+    ).toHaveProperty("CTX");
+  });
+
+  it("runs child code inside the inherited store", () => {
+    const env = Context.run({ instance_id: "i1" }, () => withContextEnv({}));
+
+    expect(runWithInheritedContext(() => Context.getValue("instance_id"), { env })).toBe("i1");
+    expect(runWithInheritedContext(() => Context.getStore(), { env: {} })).toBeUndefined();
+
+    const Scoped = Context.createNamespace("child-process-enter");
+    expect(enterInheritedContext({ env: {}, namespace: Scoped })).toBe(false);
+    expect(enterInheritedContext({ env, namespace: Scoped })).toBe(true);
+    expect(Scoped.getValue("instance_id")).toBe("i1");
+  });
+
+  it("receives the IPC handshake", async () => {
+    const target = new EventEmitter();
+    const received = receiveContextHandshake({ process: target });
+
+    target.emit("message", { type: "other" });
+    target.emit("message", { __asyncContextHandshake: { tenantId: "t1" } });
+
+    await expect(received).resolves.toEqual({ tenantId: "t1" });
+    expect(target.listenerCount("message")).toBe(0);
+    await expect(receiveContextHandshake({ process: target, timeoutMs: 1 })).resolves.toBe(
+      undefined
+    );
+  });
+
+  it("passes the context to spawned processes", async () => {
+    const output = await Context.run({ instance_id: "i1" }, () => {
+      const child = spawnWithContext(process.execPath, [
+        "-e",
+        "process.stdout.write(process.env.ASYNC_CONTEXT ?? '')",
+      ]);
+      return new Promise<string>((resolve, reject) => {
+        let data = "";
+        child.stdout!.on("data", (chunk) => (data += chunk));
+        child.on("error", reject);
+        child.on("close", () => resolve(data));
+      });
+    });
+
+    expect(decodeChildContext(output)).toEqual({ instance_id: "i1" });
+  });
+
+  it("adds inherited context to logger bindings from env", () => {
+    const env = Context.run({ instance_id: "i1", tenantId: "t1" }, () =>
+      withContextEnv({ LOG_BINDINGS: "tenantId=override" })
+    );
+
+    expect(resolveLoggerEnv({ env }).options.bindings).toEqual({
+      instance_id: "i1",
+      tenantId: "override",
+    });
+    expect(resolveLoggerEnv({ env, inheritContext: false }).options.bindings).toEqual({
+      tenantId: "override",
+    });
+    expect(resolveLoggerEnv({ env: { ASYNC_CONTEXT: "{bad" } }).warnings).toEqual([
+      {
+        key: "ASYNC_CONTEXT",
+        value: "{bad",
+        reason: "Invalid inherited context. Use encodeChildContext.",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { Context, createContextKey } from "../core/context";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+import { withOpenTelemetrySpan } from "../core/integrations/opentelemetry";
+
+describe("Context keys", () => {
+  it("reads and writes values through typed keys", () => {
+    const TenantId = createContextKey<string>("tenantId");
+
+    Context.run({}, () => {
+      expect(Context.get(TenantId)).toBeUndefined();
+      Context.set(TenantId, "t_123");
+      expect(Context.get(TenantId)).toBe("t_123");
+      expect(Context.require(TenantId)).toBe("t_123");
+      expect(Context.getValue("tenantId")).toBe("t_123");
+    });
+  });
+
+  it("falls back to key defaults", () => {
+    const Locale = createContextKey("locale", { default: "en-US" });
+
+    expect(Context.get(Locale)).toBe("en-US");
+    Context.run({}, () => {
+      expect(Context.get(Locale)).toBe("en-US");
+      expect(Context.require(Locale)).toBe("en-US");
+      Context.set(Locale, "pt-BR");
+      expect(Context.get(Locale)).toBe("pt-BR");
+    });
+  });
+
+  it("throws when a required key is missing", () => {
+    const UserId = createContextKey<number>("userId");
+
+    expect(() => Context.require(UserId)).toThrow("No active context found");
+    Context.run({}, () => {
+      expect(() => Context.require(UserId)).toThrow(
+        "Context value \"userId\" was not found."
+      );
+    });
+  });
+
+  it("validates values before writing", () => {
+    const Retries = createContextKey<number>("retries", {
+      validate: (value) => Number.isInteger(value) && value >= 0,
+    });
+
+    Context.run({}, () => {
+      Context.set(Retries, 2);
+      expect(() => Context.set(Retries, -1)).toThrow(
+        "Context value \"retries\" failed validation."
+      );
+      expect(Context.get(Retries)).toBe(2);
+    });
+  });
+
+  it("creates frozen tokens", () => {
+    const TenantId = createContextKey<string>("tenantId");
+    expect(Object.isFrozen(TenantId)).toBe(true);
+    expect(TenantId.name).toBe("tenantId");
+    expect("default" in TenantId).toBe(false);
+  });
+
+  it("can be used as logger context keys", () => {
+    const RequestId = createContextKey<string>("requestId");
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      contextKeys: [RequestId, "tenantId"],
+    });
+
+    Context.run({ requestId: "req-1", tenantId: "t-1", user: "ada" }, () => {
+      logger.info("typed");
+    });
+
+    expect(entries[0].context).toEqual({ requestId: "req-1", tenantId: "t-1" });
+  });
+
+  it("can be used as OpenTelemetry context attribute keys", async () => {
+    const TenantId = createContextKey<string>("tenantId");
+    const attributes: Record<string, unknown> = {};
+    const api = {
+      trace: {
+        getTracer: () => ({
+          startSpan: () => ({
+            setAttribute: (key: string, value: unknown) => {
+              attributes[key] = value;
+            },
+          }),
+        }),
+      },
+    };
+
+    await Context.run({ tenantId: "t-1" }, () =>
+      withOpenTelemetrySpan("typed", () => "ok", {
+        api,
+        includeContextAttributes: true,
+        contextAttributeKeys: [TenantId],
+        recordSummary: false,
+      })
+    );
+
+    expect(attributes["ctx.tenantId"]).toBe("t-1");
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import { schema } from "../core/schema";
+
+const names = (entries: unknown) =>
+  (entries as PerformanceEntry[]).map((entry) => entry.name);
+
+describe("Copy-on-write child contexts", () => {
+  it("keeps child writes out of the parent", () => {
+    Context.run({ user: { id: 1 }, tags: ["a"], options: { retry: 1 } }, () => {
+      const parent = Context.getStore()!;
+
+      Context.runWith(
+        {},
+        () => {
+          Context.getValue<{ id: number }>("user")!.id = 2;
+          Context.getValue<string[]>("tags")!.push("b");
+          Context.addOptions({ retry: 2 });
+          Context.addValue("child", true);
+
+          expect(Context.getValue("user")).toEqual({ id: 2 });
+          expect(Context.getValue("tags")).toEqual(["a", "b"]);
+        },
+        { copyOnWrite: true }
+      );
+
+      expect(parent).toEqual({ user: { id: 1 }, tags: ["a"], options: { retry: 1 } });
+    });
+  });
+
+  it("shares nested objects without copy-on-write", () => {
+    Context.run({ options: { retry: 1 } }, () => {
+      Context.runWith({}, () => {
+        Context.addOptions({ retry: 2 });
+      });
+      expect(Context.getValue("options")).toEqual({ retry: 2 });
+    });
+  });
+
+  it("joins child writes with per-key strategies", () => {
+    const seed = { total: 1, warnings: ["w0"], status: "pending", untouched: "p" };
+
+    Context.run(seed, () => {
+      Context.runWith(
+        {},
+        () => {
+          Context.addValue("total", 2);
+          Context.addValue("warnings", [...Context.getValue<string[]>("warnings")!, "w1"]);
+          Context.addValue("status", "done");
+          Context.addValue("debug", "child only");
+
+          const parent = Context.join({
+            keys: {
+              total: (parentValue, childValue) => Number(parentValue) + Number(childValue),
+              warnings: "append",
+              debug: "ignore",
+            },
+          });
+          expect(parent.total).toBe(3);
+
+          Context.addValue("warnings", [...Context.getValue<string[]>("warnings")!, "w2"]);
+          Context.join({ keys: { warnings: "append", total: "ignore" } });
+        },
+        { copyOnWrite: true }
+      );
+
+      expect(Context.getStore()).toEqual({
+        total: 3,
+        warnings: ["w0", "w1", "w2"],
+        status: "done",
+        untouched: "p",
+      });
+    });
+  });
+
+  it("joins automatically when the callback succeeds", async () => {
+    await Context.run({ results: [] as string[] }, async () => {
+      await Promise.all(
+        ["a", "b"].map((item) =>
+          Context.runWith(
+            { item },
+            async () => {
+              await Promise.resolve();
+              Context.addValue("results", [item]);
+            },
+            { copyOnWrite: true, join: { keys: { results: "append", item: "ignore" } } }
+          )
+        )
+      );
+
+      await expect(
+        Context.runWith(
+          {},
+          async () => {
+            Context.addValue("failed", true);
+            throw new Error("boom");
+          },
+          { join: true }
+        )
+      ).rejects.toThrow("boom");
+
+      expect(Context.getValue<string[]>("results")!.sort()).toEqual(["a", "b"]);
+      expect(Context.has("failed")).toBe(false);
+      expect(Context.has("item")).toBe(false);
+    });
+  });
+
+  it("merges performance entries from children by default", async () => {
+    await Context.run({}, async () => {
+      Context.measure("parent", () => undefined);
+
+      await Promise.all([
+        Context.runWith({}, () => Context.measure("child.a", async () => undefined), {
+          copyOnWrite: true,
+        }),
+        Context.runWith({}, () => Context.measure("child.b", async () => undefined)),
+      ]);
+
+      Context.runWith(
+        {},
+        () => {
+          Context.runWith({}, () => {
+            Context.measure("nested", () => undefined, { key: "timings" });
+          });
+        },
+        { copyOnWrite: true }
+      );
+
+      Context.runWith({}, () => Context.measure("dropped", () => undefined, { key: "x" }), {
+        mergePerformance: false,
+      });
+
+      expect(names(Context.getValue("perf")).sort()).toEqual([
+        "child.a",
+        "child.b",
+        "parent",
+      ]);
+      expect(names(Context.getValue("timings"))).toEqual(["nested"]);
+      expect(Context.has("x")).toBe(false);
+    });
+  });
+
+  it("merges performance entries when a child throws synchronously", async () => {
+    await Context.run({}, async () => {
+      expect(() =>
+        Context.runWith({}, () => {
+          Context.measure("sync", () => undefined);
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+      await expect(
+        Context.runWith({}, async () => {
+          Context.measure("async", () => undefined);
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+
+      expect(names(Context.getValue("perf"))).toEqual(["sync", "async"]);
+    });
+  });
+
+  it("checks joined values against read-only keys and the schema", async () => {
+    const Scoped = Context.createNamespace("copy-on-write-join-checks");
+    Scoped.setSchema({ total: schema.number() });
+
+    await Scoped.run(
+      { total: 1 },
+      async () => {
+        const readOnly = Scoped.runWith({}, async () => {
+          Scoped.addValue("tenantId", "child");
+          Scoped.addValue("total", 2);
+          await Promise.resolve();
+          Scoped.join();
+        });
+        Scoped.addValue("tenantId", "parent");
+        await expect(readOnly).rejects.toThrow('Context value "tenantId" is read-only.');
+
+        expect(() =>
+          Scoped.runWith({}, () => {
+            Scoped.addValue("total", 5);
+            Scoped.join({ keys: { total: () => "many" } });
+          })
+        ).toThrow("Context validation failed in Context.join");
+
+        expect(Scoped.getStore()).toEqual({ total: 1, tenantId: "parent" });
+      },
+      { readOnlyKeys: ["tenantId"] }
+    );
+  });
+
+  it("requires a runWith child to join", () => {
+    Context.run({}, () => {
+      expect(() => Context.join()).toThrow(
+        "Context.join must be called inside Context.runWith."
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("Context.all / Context.map", () => {
+  it("runs each task in its own branch context and keeps result order", async () => {
+    await Context.run({ requestId: "req-1" }, async () => {
+      const results = await Context.all([
+        async () => {
+          await tick();
+          return [Context.getValue("branch"), Context.getValue("requestId")] as const;
+        },
+        () => Context.getValue<number>("branch"),
+      ]);
+
+      expect(results).toEqual([[0, "req-1"], 1]);
+      expect(Context.has("branch")).toBe(false);
+    });
+  });
+
+  it("bounds concurrency", async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await Context.run({}, () =>
+      Context.map(
+        [1, 2, 3, 4, 5],
+        async (item, index) => {
+          active += 1;
+          peak = Math.max(peak, active);
+          await tick();
+          active -= 1;
+          return item * 10 + index;
+        },
+        { concurrency: 2 }
+      )
+    );
+
+    expect(results).toEqual([10, 21, 32, 43, 54]);
+    expect(peak).toBe(2);
+  });
+
+  it("joins branch writes back into the parent", async () => {
+    await Context.run({ prices: [] as number[] }, async () => {
+      await Context.map(
+        [3, 5],
+        async (price) => {
+          await tick();
+          Context.addValue("prices", [price]);
+          Context.addValue(`price:${price}`, price);
+        },
+        { join: { keys: { prices: "append" } }, branchKey: "sku_index" }
+      );
+
+      expect(Context.getValue<number[]>("prices")!.sort()).toEqual([3, 5]);
+      expect(Context.getValue("price:3")).toBe(3);
+      expect(Context.has("sku_index")).toBe(false);
+
+      await Context.all([() => Context.addValue("isolated", true)], { join: false });
+      expect(Context.has("isolated")).toBe(false);
+    });
+  });
+
+  it("keeps a sibling's write when another branch only reads the key", async () => {
+    await Context.run({ counters: { a: 0 } }, async () => {
+      await Context.all([
+        async () => {
+          expect(Context.getValue("counters")).toEqual({ a: 0 });
+          await tick();
+        },
+        () => Context.addValue("counters", { a: 5 }),
+      ]);
+
+      expect(Context.getValue("counters")).toEqual({ a: 5 });
+    });
+  });
+
+  it("measures the fan-out and each branch", async () => {
+    await Context.run({}, async () => {
+      await Context.map(["a", "b"], async () => tick(), { name: "prices" });
+      await Context.all([() => undefined], { measure: false });
+
+      const perf = Context.getValue<PerformanceEntry[]>("perf")!;
+      expect(perf.map((entry) => entry.name).sort()).toEqual([
+        "prices",
+        "prices#0",
+        "prices#1",
+      ]);
+      expect(perf.find((entry) => entry.name === "prices")?.data).toEqual({ branches: 2 });
+      expect(perf.find((entry) => entry.name === "prices#1")?.data).toEqual({ branch: 1 });
+    });
+  });
+
+  it("rejects on the first failure and stops starting branches", async () => {
+    const started: number[] = [];
+
+    await Context.run({}, async () => {
+      await expect(
+        Context.map(
+          [0, 1, 2, 3],
+          async (item) => {
+            started.push(item);
+            await tick();
+            if (item === 0) throw new Error("branch failed");
+          },
+          { concurrency: 1 }
+        )
+      ).rejects.toThrow("branch failed");
+
+      const perf = Context.getValue<PerformanceEntry[]>("perf")!;
+      expect(perf.find((entry) => entry.name === "Context.map#0")?.error).toEqual({
+        name: "Error",
+        message: "branch failed",
+      });
+    });
+
+    expect(started).toEqual([0]);
+  });
+
+  it("validates concurrency", async () => {
+    for (const concurrency of [0, 1.5, -Infinity, Number.NaN]) {
+      expect(() => Context.all([], { concurrency })).toThrow(
+        "Context.all concurrency must be a positive integer or Infinity."
+      );
+    }
+    expect(() => Context.map([1], (item) => item, { concurrency: 2.5 })).toThrow(
+      "Context.map concurrency must be a positive integer or Infinity."
+    );
+    await expect(
+      Context.run({}, () => Context.all([() => 1, () => 2], { concurrency: Infinity }))
+    ).resolves.toEqual([1, 2]);
+  });
+});
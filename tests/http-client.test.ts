@@ -0,0 +1,145 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import {
+  createOutgoingHttpHeaders,
+  instrumentOutgoingHttp,
+} from "../core/integrations/http-client";
+import { createTraceContext, formatTraceparent } from "../core/trace-context";
+
+let server: http.Server;
+let origin: string;
+let uninstall: (() => void) | undefined;
+
+function requestHeaders(url: string, headers: Record<string, string> = {}) {
+  return new Promise<Record<string, unknown>>((resolve, reject) => {
+    const request = http.request(url, { headers }, (response) => {
+      let body = "";
+      response.on("data", (chunk) => (body += chunk));
+      response.on("end", () => resolve(JSON.parse(body)));
+    });
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    res.statusCode = req.url === "/missing" ? 404 : 200;
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify(req.headers));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+afterEach(() => {
+  uninstall?.();
+  uninstall = undefined;
+});
+
+describe("outgoing HTTP instrumentation", () => {
+  it("builds headers from the active context", () => {
+    const traceContext = createTraceContext();
+    const headers = Context.run({ instance_id: "req-1", traceContext, n: 2 }, () =>
+      createOutgoingHttpHeaders({
+        contextHeaders: { "X-Request-Id": "instance_id", "x-n": "n", "x-missing": "nope" },
+      })
+    );
+
+    expect(headers).toEqual({
+      "x-request-id": "req-1",
+      "x-n": "2",
+      traceparent: formatTraceparent(traceContext),
+    });
+  });
+
+  it("injects headers and records fetch calls", async () => {
+    uninstall = instrumentOutgoingHttp({ contextHeaders: { "x-request-id": "instance_id" } });
+    const traceContext = createTraceContext();
+
+    const store = await Context.run({ instance_id: "req-1", traceContext }, async () => {
+      const response = await fetch(`${origin}/orders`, {
+        method: "post",
+        headers: { "x-request-id": "caller" },
+      });
+      const missing = await fetch(`${origin}/missing`);
+      await missing.arrayBuffer();
+      expect(await response.json()).toMatchObject({
+        "x-request-id": "caller",
+        traceparent: formatTraceparent(traceContext),
+      });
+      return Context.getStore() as { perf: PerformanceEntry[] };
+    });
+
+    const host = new URL(origin).host;
+    expect(store.perf).toEqual([
+      expect.objectContaining({
+        name: `http:POST ${host}`,
+        data: { method: "POST", host, status: 200 },
+      }),
+      expect.objectContaining({
+        name: `http:GET ${host}`,
+        data: { method: "GET", host, status: 404 },
+      }),
+    ]);
+  });
+
+  it("injects headers and records http.request and http.get calls", async () => {
+    uninstall = instrumentOutgoingHttp({ contextHeaders: { "x-tenant-id": "tenantId" } });
+
+    const store = await Context.run({ tenantId: "t1" }, async () => {
+      await expect(requestHeaders(`${origin}/a`)).resolves.toMatchObject({
+        "x-tenant-id": "t1",
+      });
+      await new Promise<void>((resolve) => http.get(`${origin}/b`, () => resolve()));
+      return Context.getStore() as { perf: PerformanceEntry[] };
+    });
+
+    expect(store.perf.map((entry) => entry.data?.status)).toEqual([200, 200]);
+    expect(store.perf[0].name).toBe(`http:GET ${new URL(origin).host}`);
+  });
+
+  it("records failed calls in the calling context", async () => {
+    uninstall = instrumentOutgoingHttp({ fetch: false });
+
+    const store = await Context.run({}, async () => {
+      await new Promise<void>((resolve) => {
+        const request = http.request("http://127.0.0.1:1/");
+        request.on("error", () => resolve());
+        request.end();
+      });
+      return Context.getStore() as { perf: PerformanceEntry[] };
+    });
+
+    expect(store.perf[0]).toMatchObject({
+      name: "http:GET 127.0.0.1:1",
+      error: { message: expect.stringContaining("ECONNREFUSED") },
+    });
+  });
+
+  it("honours the filter and restores the originals", async () => {
+    const originalFetch = globalThis.fetch;
+    const originalRequest = http.request;
+    uninstall = instrumentOutgoingHttp({
+      contextHeaders: { "x-tenant-id": "tenantId" },
+      filter: (request) => !request.url.endsWith("/skip"),
+    });
+
+    expect(() => instrumentOutgoingHttp()).toThrow(
+      "Outgoing HTTP instrumentation is already installed."
+    );
+    const headers = await Context.run({ tenantId: "t1" }, () =>
+      requestHeaders(`${origin}/skip`)
+    );
+    expect(headers).not.toHaveProperty("x-tenant-id");
+
+    uninstall();
+    uninstall = undefined;
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(http.request).toBe(originalRequest);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, expect, it, vi } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import {
+  createContextJobConsumer,
+  createContextJobProducer,
+  createInMemoryJobQueue,
+  jobAdapters,
+  readJobContext,
+  stripJobContext,
+  withJobContext,
+} from "../core/integrations/jobs";
+import type { OpenTelemetryApi } from "../core/integrations/opentelemetry";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+function createMemoryLogger(entries: LogEntry[]) {
+  return createLogger({ transport: (entry) => entries.push(entry), context: true });
+}
+
+function createFakeOtelApi() {
+  let active: unknown = { trace: undefined };
+  const api: OpenTelemetryApi = {
+    context: {
+      active: () => active,
+      with: (context, fn) => {
+        const previous = active;
+        active = context;
+        try {
+          return fn();
+        } finally {
+          active = previous;
+        }
+      },
+    },
+    propagation: {
+      inject: (_context, carrier: any) => {
+        carrier.traceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+        carrier.baggage = "tenant=t1";
+      },
+      extract: (_context, carrier: any) => ({ trace: carrier.traceparent }),
+    },
+  };
+  return { api, active: () => active };
+}
+
+describe("job queue context propagation", () => {
+  it("stamps selected values into the payload", () => {
+    const payload = Context.run({ instance_id: "i1", tenantId: "t1", db: () => 1 }, () => {
+      Context.measure("enqueue", () => undefined);
+      return withJobContext({ to: "a@example.com" }, { excludeKeys: ["tenantId"] });
+    });
+
+    expect(readJobContext(payload)).toEqual({ values: { instance_id: "i1" } });
+    expect(stripJobContext(payload)).toEqual({ to: "a@example.com" });
+    expect(JSON.parse(JSON.stringify(payload))).toEqual(payload);
+    expect(readJobContext({ to: "x" })).toBeUndefined();
+  });
+
+  it("runs consumers in the producer context with a child logger", async () => {
+    const entries: LogEntry[] = [];
+    const queue = createInMemoryJobQueue<{ to: string }>();
+    const enqueue = createContextJobProducer(
+      (name: string, data: { to: string }) => queue.add(name, data),
+      { keys: ["instance_id"] }
+    );
+
+    queue.process(
+      createContextJobConsumer(
+        async (data: { to: string }, { logger, name }) => {
+          expect(data).toEqual({ to: "a@example.com" });
+          expect(name).toBe("send-email");
+          logger.info("sending");
+        },
+        { logger: createMemoryLogger(entries) }
+      )
+    );
+
+    const job = Context.run({ instance_id: "i1", tenantId: "t1" }, () =>
+      enqueue("send-email", { to: "a@example.com" })
+    );
+    await queue.drain();
+
+    expect(queue.completed).toEqual([job]);
+    expect(entries[0]).toMatchObject({
+      message: "sending",
+      bindings: { job: "send-email", jobId: job.id },
+      context: { instance_id: "i1", job_id: job.id },
+    });
+    expect(entries[0].context).not.toHaveProperty("tenantId");
+  });
+
+  it("records a job performance entry", async () => {
+    const consume = createContextJobConsumer(
+      async () => {
+        await Promise.resolve();
+        return Context.getStore();
+      },
+      { logger: createMemoryLogger([]) }
+    );
+
+    const payload = Context.run({ instance_id: "i1" }, () => withJobContext({}));
+    const store = (await consume({ id: 7, name: "resize", data: payload })) as {
+      perf: PerformanceEntry[];
+    };
+
+    expect(store.perf).toEqual([
+      expect.objectContaining({ name: "job:resize", data: { jobId: "7" } }),
+    ]);
+  });
+
+  it("runs jobs outside the contexts that created the queue and added the job", async () => {
+    const queue = Context.run({ leaked: true }, () => createInMemoryJobQueue());
+    const seen: unknown[] = [];
+    queue.process(() => seen.push(Context.getStore()));
+
+    Context.run({ request: 1 }, () => queue.add("plain", {}));
+    await queue.drain();
+
+    expect(seen).toEqual([undefined]);
+  });
+
+  it("rejects drain when no handler was registered", async () => {
+    const queue = createInMemoryJobQueue();
+    await expect(queue.drain()).resolves.toBeUndefined();
+
+    queue.add("idle", {});
+    await expect(queue.drain()).rejects.toThrow("Call process() before draining queued jobs.");
+
+    queue.process(() => undefined);
+    await queue.drain();
+    expect(queue.completed).toHaveLength(1);
+  });
+
+  it("keeps failures in the queue", async () => {
+    const queue = createInMemoryJobQueue();
+    queue.process(
+      createContextJobConsumer(
+        () => {
+          throw new Error("smtp down");
+        },
+        { logger: createMemoryLogger([]) }
+      )
+    );
+
+    queue.add("send-email", {});
+    await queue.drain();
+
+    expect(queue.failed[0].error).toEqual(new Error("smtp down"));
+    expect(queue.size).toBe(0);
+  });
+
+  it("propagates trace context through OpenTelemetry", async () => {
+    const { api, active } = createFakeOtelApi();
+    const payload = Context.run({}, () => withJobContext({ n: 1 }, { api }));
+
+    expect(readJobContext(payload)?.trace).toEqual({
+      traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      baggage: "tenant=t1",
+    });
+
+    const consume = createContextJobConsumer(() => active(), {
+      api,
+      logger: createMemoryLogger([]),
+    });
+    await expect(consume({ name: "n", data: payload })).resolves.toEqual({
+      trace: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+    });
+  });
+
+  it("continues the built-in trace context without OpenTelemetry", async () => {
+    const jobs = Context.createNamespace("jobs-trace");
+    const traceContext = {
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+      traceFlags: 1,
+    };
+    const payload = jobs.run({ traceContext, tenantId: "t1" }, () =>
+      withJobContext({ n: 1 }, { namespace: jobs })
+    );
+
+    expect(readJobContext(payload)).toEqual({
+      values: { tenantId: "t1" },
+      trace: { traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01" },
+    });
+
+    const consume = createContextJobConsumer(() => jobs.getValue("traceContext"), {
+      namespace: jobs,
+      logger: createMemoryLogger([]),
+    });
+    const consumed = await consume({ name: "n", data: payload });
+    expect(consumed).toEqual({
+      traceId: traceContext.traceId,
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      parentSpanId: traceContext.spanId,
+      traceFlags: 1,
+    });
+  });
+
+  it("normalizes jobs from common libraries", () => {
+    expect(jobAdapters.default({ id: 1, name: "a", data: 2 })).toEqual({
+      id: "1",
+      name: "a",
+      data: 2,
+    });
+    expect(jobAdapters.beeQueue({ id: "9", data: 1, queue: { name: "emails" } })).toEqual({
+      id: "9",
+      name: "emails",
+      data: 1,
+    });
+    expect(jobAdapters.agenda({ attrs: { _id: "x", name: "report", data: {} } })).toEqual({
+      id: "x",
+      name: "report",
+      data: {},
+    });
+
+    const handler = vi.fn();
+    const consume = createContextJobConsumer(handler, {
+      adapter: jobAdapters.agenda,
+      logger: createMemoryLogger([]),
+    });
+    return consume({ attrs: { name: "report", data: withJobContext({ a: 1 }) } }).then(() => {
+      expect(handler).toHaveBeenCalledWith(
+        { a: 1 },
+        expect.objectContaining({ name: "report" })
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  Context,
+  computedValue,
+  createContextKey,
+  lazyValue,
+} from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+import { schema } from "../core/schema";
+
+describe("Lazy context values", () => {
+  it("evaluates lazy values on first read and memoizes them", () => {
+    const factory = vi.fn(() => ({ sub: "user-1" }));
+
+    Context.run({}, () => {
+      Context.addLazy("claims", factory);
+      expect(factory).not.toHaveBeenCalled();
+      expect(Context.has("claims")).toBe(true);
+
+      expect(Context.getValue("claims")).toEqual({ sub: "user-1" });
+      expect(Context.requireValue("claims")).toBe(Context.getValue("claims"));
+      expect(Context.get(createContextKey("claims"))).toEqual({ sub: "user-1" });
+      expect(factory).toHaveBeenCalledTimes(1);
+
+      Context.runWith({ feature: "beta" }, () => {
+        Context.getValue("claims");
+      });
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("skips factories for values that are never read", () => {
+    const factory = vi.fn(() => "expensive");
+    const middleware = createAsyncContextExpressMiddleware({
+      seed: () => ({ claims: lazyValue(factory) }),
+    });
+
+    middleware({} as any, {} as any, () => {
+      Context.addValue("route", "/ping");
+    });
+
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it("memoizes computed values per store", () => {
+    const compute = vi.fn(() => Context.getValue<string[]>("roles", [])!.includes("admin"));
+
+    Context.run({ roles: ["member"], isAdmin: computedValue(compute) }, () => {
+      expect(Context.getValue("isAdmin")).toBe(false);
+      expect(Context.getValue("isAdmin")).toBe(false);
+      expect(compute).toHaveBeenCalledTimes(1);
+
+      Context.runWith({ roles: ["admin"] }, () => {
+        expect(Context.getValue("isAdmin")).toBe(true);
+      });
+      expect(compute).toHaveBeenCalledTimes(2);
+
+      Context.addComputed("roleCount", () => Context.getValue<string[]>("roles")!.length);
+      expect(Context.require(createContextKey<number>("roleCount"))).toBe(1);
+    });
+  });
+
+  it("supports async factories through getValueAsync", async () => {
+    let calls = 0;
+
+    await Context.run({}, async () => {
+      Context.addLazy("tenantConfig", async () => {
+        calls += 1;
+        if (calls === 1) throw new Error("unavailable");
+        return { plan: "pro" };
+      });
+
+      await expect(Context.getValueAsync("tenantConfig")).rejects.toThrow("unavailable");
+      await expect(Context.getValueAsync("tenantConfig")).resolves.toEqual({ plan: "pro" });
+      await expect(Context.getValueAsync("tenantConfig")).resolves.toEqual({ plan: "pro" });
+      await expect(Context.getValueAsync("missing", "fallback")).resolves.toBe("fallback");
+    });
+
+    expect(calls).toBe(2);
+  });
+
+  it("applies the lazy policy to snapshots", () => {
+    const factory = vi.fn(() => "value");
+
+    Context.run({ id: 1, pending: lazyValue(factory), ready: lazyValue(() => 2) }, () => {
+      Context.getValue("ready");
+
+      expect(Context.snapshot()).toEqual({ id: 1, ready: 2 });
+      expect(Context.snapshot({ lazy: "placeholder" })).toEqual({
+        id: 1,
+        pending: "[Lazy]",
+        ready: 2,
+      });
+      expect(factory).not.toHaveBeenCalled();
+      expect(Context.snapshot({ lazy: "evaluate" })).toEqual({
+        id: 1,
+        pending: "value",
+        ready: 2,
+      });
+    });
+  });
+
+  it("uses placeholders in logger context by default", () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ transport: (entry) => entries.push(entry) });
+    const evaluating = logger.child({}, { lazyContext: "evaluate" });
+
+    Context.run({ claims: lazyValue(() => ({ sub: "u1" })) }, () => {
+      logger.info("pending");
+      evaluating.info("evaluated");
+    });
+
+    expect(entries[0].context).toEqual({ claims: "[Lazy]" });
+    expect(entries[1].context).toEqual({ claims: { sub: "u1" } });
+  });
+
+  it("does not validate lazy values against the schema on write", () => {
+    const Scoped = Context.createNamespace("lazy-schema");
+    Scoped.setSchema({ claims: schema.object({ sub: schema.string() }) });
+
+    Scoped.run({ claims: lazyValue(() => ({ sub: "u1" })) }, () => {
+      expect(() => Scoped.addLazy("claims", () => ({ sub: "u2" }))).not.toThrow();
+      expect(Scoped.getValue("claims")).toEqual({ sub: "u2" });
+    });
+  });
+
+  it("respects read-only keys", () => {
+    Context.run(
+      { claims: "set" },
+      () => {
+        expect(() => Context.addLazy("claims", () => "other")).toThrow("is read-only");
+        expect(() => Context.addComputed("claims", () => "other")).toThrow(
+          "is read-only"
+        );
+      },
+      { readOnlyKeys: ["claims"] }
+    );
+  });
+});
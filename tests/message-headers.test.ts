@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import { Context } from "../core/context";
+import {
+  createContextHeaders,
+  extractMessageContext,
+  injectMessageContext,
+  messageHeaderAdapters,
+  parseContextHeaders,
+  runWithMessageContext,
+} from "../core/integrations/message-headers";
+import type { TraceContext } from "../core/trace-context";
+
+const TRACEPARENT = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+const TRACE: TraceContext = {
+  traceId: "0af7651916cd43dd8448eb211c80319c",
+  spanId: "b7ad6b7169203331",
+  traceFlags: 1,
+  traceState: "vendor=a",
+};
+
+function createNatsHeaders() {
+  const values = new Map<string, string>();
+  return {
+    get: (key: string) => values.get(key) ?? "",
+    set: (key: string, value: string) => void values.set(key, value),
+    keys: () => [...values.keys()],
+  };
+}
+
+describe("message header context carrier", () => {
+  it("encodes selected keys and trace headers", () => {
+    const onDropped = vi.fn();
+
+    const headers = Context.run(
+      {
+        instance_id: "i1",
+        tenantId: "t1",
+        attempt: 2,
+        traceContext: TRACE,
+        db: { ref: 1n },
+      },
+      () => {
+        Context.measure("publish", () => undefined);
+        return createContextHeaders({ excludeKeys: ["instance_id"], onDropped });
+      }
+    );
+
+    expect(headers).toEqual({
+      traceparent: TRACEPARENT,
+      tracestate: "vendor=a",
+      "x-context-tenantId": "\"t1\"",
+      "x-context-attempt": "2",
+    });
+    expect(onDropped).toHaveBeenCalledWith("db", "not-serializable");
+    expect(createContextHeaders()).toEqual({});
+  });
+
+  it("writes trace headers with the configured propagator or not at all", () => {
+    const headers = Context.run({ traceContext: TRACE }, () => [
+      createContextHeaders({ propagator: "b3" }),
+      createContextHeaders({ traceHeaders: false }),
+    ]);
+
+    expect(headers).toEqual([{ b3: "0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-1" }, {}]);
+  });
+
+  it("enforces value and total size limits", () => {
+    const onDropped = vi.fn();
+
+    const headers = Context.run({ a: "x".repeat(20), b: "y", c: "z" }, () =>
+      createContextHeaders({ maxValueBytes: 10, maxTotalBytes: 10, onDropped, prefix: "ctx-" })
+    );
+
+    expect(headers).toEqual({ "ctx-b": "\"y\"" });
+    expect(onDropped).toHaveBeenCalledWith("a", "value-too-large");
+    expect(onDropped).toHaveBeenCalledWith("c", "total-too-large");
+  });
+
+  it("decodes string and Buffer values with an allowlist", () => {
+    const store = parseContextHeaders(
+      {
+        "X-Context-tenantId": Buffer.from("\"t1\""),
+        "x-context-attempt": ["3"],
+        "x-context-secret": "\"s\"",
+        "x-context-broken": "{",
+        TraceParent: TRACEPARENT,
+        "x-other": "ignored",
+        "x-context-big": `"${"x".repeat(2000)}"`,
+      },
+      { keys: ["tenantId", "attempt", "broken", "big"] }
+    );
+
+    expect(store).toEqual({
+      tenantId: "t1",
+      attempt: 3,
+      traceContext: {
+        traceId: TRACE.traceId,
+        spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+        parentSpanId: TRACE.spanId,
+        traceFlags: 1,
+      },
+    });
+    expect(store.traceContext.spanId).not.toBe(TRACE.spanId);
+    expect(
+      parseContextHeaders({ traceparent: TRACEPARENT, "x-context-traceContext": "{}" })
+    ).toEqual({ traceContext: expect.objectContaining({ parentSpanId: TRACE.spanId }) });
+    expect(parseContextHeaders({ traceparent: TRACEPARENT }, { traceHeaders: false })).toEqual({});
+  });
+
+  it("round-trips through Kafka-shaped messages", () => {
+    const message: { value: string; headers?: Record<string, any> } = {
+      value: "order",
+      headers: { existing: "1" },
+    };
+
+    Context.run({ tenantId: "t1", traceContext: TRACE }, () =>
+      injectMessageContext(message, messageHeaderAdapters.kafka)
+    );
+    const consumed = {
+      headers: Object.fromEntries(
+        Object.entries(message.headers!).map(([key, value]) => [key, Buffer.from(value)])
+      ),
+    };
+
+    expect(message.headers!.existing).toBe("1");
+    expect(
+      runWithMessageContext(consumed, messageHeaderAdapters.kafka, () => Context.getStore())
+    ).toEqual({
+      tenantId: "t1",
+      traceContext: expect.objectContaining({
+        traceId: TRACE.traceId,
+        parentSpanId: TRACE.spanId,
+        traceState: "vendor=a",
+      }),
+    });
+  });
+
+  it("reads AMQP publish options and consumed messages", () => {
+    const publishOptions: { headers?: Record<string, any> } = {};
+    Context.run({ tenantId: "t1" }, () =>
+      injectMessageContext(publishOptions, messageHeaderAdapters.amqp)
+    );
+
+    const consumed = { properties: { headers: publishOptions.headers } };
+    expect(extractMessageContext(consumed, messageHeaderAdapters.amqp)).toEqual({
+      tenantId: "t1",
+    });
+  });
+
+  it("writes NATS headers objects", () => {
+    const message = { headers: createNatsHeaders() };
+    Context.run({ tenantId: "t1" }, () =>
+      injectMessageContext(message, messageHeaderAdapters.nats)
+    );
+
+    expect(message.headers.keys()).toEqual(["x-context-tenantId"]);
+    expect(extractMessageContext(message, messageHeaderAdapters.nats)).toEqual({
+      tenantId: "t1",
+    });
+    expect(() => injectMessageContext({}, messageHeaderAdapters.nats)).toThrow(
+      "NATS headers must be created with headers() before injecting context."
+    );
+  });
+});
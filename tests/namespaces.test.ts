@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { recordOpenAICall } from "../core/integrations/openai";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+describe("Context namespaces", () => {
+  it("keeps the static Context as the default namespace", () => {
+    expect(Context.namespaceName).toBe("default");
+    expect(Context.createNamespace("default")).toBe(Context);
+  });
+
+  it("returns the same namespace for the same name", () => {
+    const first = Context.createNamespace("lib-a");
+    const second = Context.createNamespace("lib-a");
+    expect(first).toBe(second);
+    expect(first.namespaceName).toBe("lib-a");
+    expect(first.getInstance()).not.toBe(Context.getInstance());
+  });
+
+  it("isolates stores between namespaces", () => {
+    const Library = Context.createNamespace("lib-b");
+
+    Context.run({ instance_id: "app" }, () => {
+      expect(Library.getStore()).toBeUndefined();
+
+      Library.run({ instance_id: "lib" }, () => {
+        Library.addValue("perf", []);
+        expect(Library.getValue("instance_id")).toBe("lib");
+        expect(Context.getValue("instance_id")).toBe("app");
+        expect(Context.has("perf")).toBe(false);
+      });
+    });
+  });
+
+  it("exposes the full Context API", async () => {
+    const Library = Context.createNamespace("lib-c");
+
+    await Library.run({ base: true }, async () => {
+      await Library.measure("lib.work", async () => {
+        await Promise.resolve();
+      });
+
+      Library.runWith({ child: true }, () => {
+        expect(Library.snapshot()).toMatchObject({ base: true, child: true });
+      });
+
+      expect(Library.requireValue<unknown[]>("perf")).toHaveLength(1);
+      expect(Context.getStore()).toBeUndefined();
+    });
+  });
+
+  it("keeps methods bound when they are called detached", () => {
+    const Library = Context.createNamespace("lib-detached");
+    const { run, addValue, getValue } = Context;
+    const library = { run: Library.run, getValue: Library.getValue };
+
+    run({}, () => {
+      addValue("app", 1);
+      library.run({ lib: 2 }, () => {
+        expect([getValue("app"), library.getValue("lib")]).toEqual([1, 2]);
+        expect(["lib"].map((key) => library.getValue(key))).toEqual([2]);
+        expect(Context.getValue("lib")).toBeUndefined();
+      });
+    });
+  });
+
+  it("is accepted by the logger", () => {
+    const Library = Context.createNamespace("lib-d");
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      namespace: Library,
+    });
+
+    Context.run({ app: true }, () => {
+      Library.run({ lib: true }, () => {
+        logger.info("scoped");
+        logger.child({ job: "x" }).info("child");
+      });
+    });
+
+    expect(entries[0].context).toEqual({ lib: true });
+    expect(entries[1].context).toEqual({ lib: true });
+  });
+
+  it("is accepted by framework integrations", async () => {
+    const Library = Context.createNamespace("lib-e");
+    let libStore: Record<string, unknown> | undefined;
+    let appStore: Record<string, unknown> | undefined;
+
+    const middleware = createAsyncContextExpressMiddleware({
+      namespace: Library,
+      idFactory: () => "lib-1",
+    });
+    middleware({} as any, {} as any, () => {
+      libStore = Library.getStore();
+      appStore = Context.getStore();
+    });
+
+    expect(libStore).toEqual({ instance_id: "lib-1" });
+    expect(appStore).toBeUndefined();
+
+    const koa = createAsyncContextKoaMiddleware({
+      namespace: Library,
+      idFactory: () => "lib-2",
+    });
+    await koa({} as any, async () => {
+      recordOpenAICall(
+        { provider: "openai", operation: "responses.create", durationMs: 1 },
+        { namespace: Library }
+      );
+      libStore = Library.getStore();
+    });
+
+    expect(libStore?.instance_id).toBe("lib-2");
+    expect(libStore?.openai).toHaveLength(1);
+  });
+});
@@ -11,6 +11,7 @@ import {
   setOpenTelemetryBaggageFromContext,
   withOpenTelemetrySpan,
 } from "../core/integrations/opentelemetry";
+import { createTraceContext } from "../core/trace-context";
 
 type FakeSpan = {
   name: string;
@@ -240,6 +241,71 @@ describe("OpenTelemetry integration", () => {
     expect(out.traceparent).toBe("00-abc");
   });
 
+  it("translates B3 and Jaeger headers through the W3C propagator", () => {
+    const traceparent = "00-463ac35c9f6413ad48485a3953bb6124-a2fb4a1d1a96d312-01";
+    const api: OpenTelemetryApi = {
+      context: { active: () => ({}), with: (_ctx, fn) => fn() },
+      propagation: {
+        extract: (_ctx, carrier, getter) => ({ traceparent: getter?.get(carrier, "traceparent") }),
+        inject: (_ctx, carrier, setter) => {
+          setter?.set(carrier, "traceparent", traceparent);
+          setter?.set(carrier, "baggage", "tenant=t1");
+        },
+      },
+    };
+
+    const extracted = extractOpenTelemetryContextFromHeaders(
+      { "uber-trace-id": "463ac35c9f6413ad48485a3953bb6124:a2fb4a1d1a96d312:0:1" },
+      { api, propagator: ["b3", "jaeger"] }
+    );
+    expect(extracted).toEqual({ traceparent });
+
+    const out: Record<string, unknown> = {};
+    injectOpenTelemetryContextToHeaders(out, { api, propagator: "b3multi" });
+    expect(out).toEqual({
+      "x-b3-traceid": "463ac35c9f6413ad48485a3953bb6124",
+      "x-b3-spanid": "a2fb4a1d1a96d312",
+      "x-b3-sampled": "1",
+      baggage: "tenant=t1",
+    });
+  });
+
+  it("injects the built-in trace context without OpenTelemetry", () => {
+    const traceContext = createTraceContext();
+    const out: Record<string, unknown> = {};
+
+    Context.run({ traceContext }, () =>
+      injectOpenTelemetryContextToHeaders(out, { api: {}, propagator: ["tracecontext", "b3"] })
+    );
+
+    expect(out).toEqual({
+      traceparent: `00-${traceContext.traceId}-${traceContext.spanId}-01`,
+      b3: `${traceContext.traceId}-${traceContext.spanId}-1`,
+    });
+    expect(extractOpenTelemetryContextFromHeaders(out, { api: {} })).toBeUndefined();
+  });
+
+  it("falls back to the built-in trace context when OpenTelemetry injects none", () => {
+    const traceContext = createTraceContext();
+    const api: OpenTelemetryApi = {
+      context: { active: () => ({}), with: (_ctx, fn) => fn() },
+      propagation: {
+        extract: (ctx) => ctx,
+        inject: (_ctx, carrier, setter) => setter?.set(carrier, "baggage", "tenant=t1"),
+      },
+    };
+    const out: Record<string, unknown> = {};
+
+    Context.run({ traceContext }, () =>
+      injectOpenTelemetryContextToHeaders(out, { api, propagator: "b3" })
+    );
+
+    expect(out).toEqual({
+      b3: `${traceContext.traceId}-${traceContext.spanId}-1`,
+      baggage: "tenant=t1",
+    });
+  });
+
   it("merges baggage entries and respects overwrite", () => {
     const { api } = createFakeOpenTelemetry();
 
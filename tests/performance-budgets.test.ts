@@ -0,0 +1,205 @@
+import { EventEmitter } from "node:events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Context, type PerformanceBudgetViolation } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { recordOpenTelemetryBudgetViolation } from "../core/integrations/opentelemetry";
+import { tagSentryScopeWithBudgetViolation } from "../core/integrations/sentry";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+function clock(...times: number[]) {
+  return () => times.shift() ?? 0;
+}
+
+afterEach(() => {
+  Context.setPerformanceBudgets(false);
+  vi.restoreAllMocks();
+});
+
+describe("performance budgets", () => {
+  it("reports measured entries over a matching budget", () => {
+    const violations: PerformanceBudgetViolation[] = [];
+    Context.setPerformanceBudgets({
+      budgets: { "db.*": 50, "cache.?et": 5, "http:GET *.internal": 100 },
+      onViolation: (violation) => violations.push(violation),
+    });
+
+    Context.run({ tenantId: "t1" }, () => {
+      Context.measure("db.query", () => undefined, { now: clock(0, 80) });
+      Context.measure("db.insert", () => undefined, { now: clock(0, 50) });
+      Context.measure("cache.get", () => undefined, { now: clock(0, 6) });
+      Context.measure("dbx", () => undefined, { now: clock(0, 500) });
+      Context.recordPerformance({
+        name: "http:GET api.internal",
+        startedAt: 0,
+        endedAt: 150,
+        durationMs: 150,
+      });
+    });
+
+    expect(
+      violations.map(({ budget, maxMs, overByMs, entry }) => [budget, maxMs, overByMs, entry.name])
+    ).toEqual([
+      ["db.*", 50, 30, "db.query"],
+      ["cache.?et", 5, 1, "cache.get"],
+      ["http:GET *.internal", 100, 50, "http:GET api.internal"],
+    ]);
+    expect(violations[0].context).toMatchObject({ tenantId: "t1" });
+  });
+
+  it("logs violations and never breaks the measured work", () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ transport: (entry) => entries.push(entry), context: false });
+    Context.setPerformanceBudgets({
+      budgets: { render: 10 },
+      logger,
+      level: "error",
+      onViolation: () => {
+        throw new Error("reporter failed");
+      },
+    });
+
+    const result = Context.run({}, () =>
+      Context.measure("render", () => "ok", { now: clock(0, 25) })
+    );
+
+    expect(result).toBe("ok");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: "error",
+      message: "performance budget exceeded",
+      data: { budget: "render", maxMs: 10, overByMs: 15, entry: { name: "render" } },
+    });
+  });
+
+  it("snapshots the context without expiring or evaluating values", () => {
+    let now = 0;
+    Context.setClock(() => now);
+    const onExpire = vi.fn(() => "refreshed");
+    const factory = vi.fn(() => "claims");
+    const violations: PerformanceBudgetViolation[] = [];
+    Context.setPerformanceBudgets({
+      budgets: { render: 10 },
+      onViolation: (violation) => violations.push(violation),
+    });
+
+    try {
+      Context.run({ tenantId: "t1" }, () => {
+        Context.addValue("token", "t", { ttlMs: 5, onExpire });
+        Context.addValue("session", "s", { ttlMs: 50 });
+        Context.addLazy("claims", factory);
+        Context.measure("setup", () => undefined, { now: clock(0, 1) });
+        now = 20;
+        Context.measure("render", () => undefined, { now: clock(0, 20) });
+      });
+    } finally {
+      Context.setClock();
+    }
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(factory).not.toHaveBeenCalled();
+    expect(violations[0].context).toEqual({ tenantId: "t1", session: "s", claims: "[Lazy]" });
+  });
+
+  it("is scoped to a namespace and can be cleared", () => {
+    const violations: string[] = [];
+    const jobs = Context.createNamespace("performance-budget-jobs");
+    jobs.setPerformanceBudgets({
+      budgets: { "*": 0 },
+      onViolation: ({ entry }) => violations.push(entry.name),
+    });
+
+    Context.run({}, () => Context.measure("main", () => undefined, { now: clock(0, 5) }));
+    jobs.run({}, () => jobs.measure("job", () => undefined, { now: clock(0, 5) }));
+    jobs.setPerformanceBudgets(false);
+    jobs.run({}, () => jobs.measure("job", () => undefined, { now: clock(0, 5) }));
+
+    expect(violations).toEqual(["job"]);
+  });
+
+  it("checks whole requests measured by the integrations", async () => {
+    const violations: PerformanceBudgetViolation[] = [];
+    Context.setPerformanceBudgets({
+      budgets: { request: 500, "koa.request": 500 },
+      onViolation: (violation) => violations.push(violation),
+    });
+    let now = 1_000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    const res = Object.assign(new EventEmitter(), { statusCode: 201 });
+    const koaRes = Object.assign(new EventEmitter(), { statusCode: 404 });
+
+    createAsyncContextExpressMiddleware({ measureRequest: true })(
+      { method: "POST", url: "/orders?debug=1", headers: {} } as any,
+      res as any,
+      () => undefined
+    );
+    await createAsyncContextKoaMiddleware({ measureRequest: "koa.request" })(
+      { request: { method: "GET", url: "/missing", headers: {} }, res: koaRes },
+      async () => undefined
+    );
+    now += 750;
+    res.emit("finish");
+    res.emit("close");
+    koaRes.emit("close");
+
+    expect(violations.map(({ entry }) => [entry.name, entry.data])).toEqual([
+      ["request", { method: "POST", path: "/orders", status: 201 }],
+      ["koa.request", { method: "GET", path: "/missing", status: 404 }],
+    ]);
+  });
+
+  it("tags Sentry scopes and OpenTelemetry spans", async () => {
+    const violation: PerformanceBudgetViolation = {
+      budget: "db.*",
+      maxMs: 50,
+      overByMs: 30,
+      entry: { name: "db.query", startedAt: 0, endedAt: 80, durationMs: 80 },
+    };
+    const tags: Record<string, string> = {};
+    const contexts: Record<string, unknown> = {};
+    const scope = {
+      setTag: (key: string, value: string) => void (tags[key] = value),
+      setContext: (name: string, value: unknown) => void (contexts[name] = value),
+    };
+    const attributes: Record<string, unknown> = {};
+    const events: Array<[string, unknown]> = [];
+    const span = {
+      setAttribute: (key: string, value: unknown) => void (attributes[key] = value),
+      addEvent: (name: string, eventAttributes?: unknown) =>
+        void events.push([name, eventAttributes]),
+    };
+
+    await expect(
+      tagSentryScopeWithBudgetViolation(violation, { sentry: { getCurrentScope: () => scope } })
+    ).resolves.toBe(true);
+    expect(
+      recordOpenTelemetryBudgetViolation(violation, {
+        api: {
+          context: { active: () => ({}), with: (_context, fn) => fn() },
+          trace: { getTracer: () => ({ startSpan: () => span }), getSpan: () => span },
+        },
+      })
+    ).toBe(true);
+
+    expect(tags).toEqual({ "perf.budget_exceeded": "db.*" });
+    expect(contexts.performance_budget).toEqual({
+      budget: "db.*",
+      maxMs: 50,
+      overByMs: 30,
+      name: "db.query",
+      durationMs: 80,
+    });
+    expect(attributes).toEqual({ "perf.budget_exceeded": true });
+    expect(events).toEqual([
+      [
+        "perf.budget_exceeded",
+        {
+          "perf.budget": "db.*",
+          "perf.budget_ms": 50,
+          "perf.name": "db.query",
+          "perf.duration_ms": 80,
+        },
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextFastifyHook } from "../core/integrations/fastify";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+function record(name: string, durationMs: number, extra: Record<string, unknown> = {}) {
+  Context.recordPerformance({ name, startedAt: 0, endedAt: durationMs, durationMs, ...extra });
+}
+
+function createCapturingLogger() {
+  const entries: LogEntry[] = [];
+  const logger = createLogger({ transport: (entry) => entries.push(entry), context: false });
+  return { entries, logger };
+}
+
+describe("performance summary", () => {
+  it("aggregates entries by name", () => {
+    const summary = Context.run({}, () => {
+      for (const duration of [4, 1, 3, 2, 10]) record("db.query", duration);
+      record("cache.get", 1, { error: { message: "miss" } });
+      return Context.performanceSummary();
+    });
+
+    expect(summary).toEqual({
+      count: 6,
+      errors: 1,
+      totalMs: 21,
+      groups: [
+        {
+          name: "db.query",
+          count: 5,
+          errors: 0,
+          totalMs: 20,
+          minMs: 1,
+          maxMs: 10,
+          meanMs: 4,
+          p50Ms: 3,
+          p95Ms: 10,
+        },
+        {
+          name: "cache.get",
+          count: 1,
+          errors: 1,
+          totalMs: 1,
+          minMs: 1,
+          maxMs: 1,
+          meanMs: 1,
+          p50Ms: 1,
+          p95Ms: 1,
+        },
+      ],
+    });
+  });
+
+  it("groups by a data field and reads custom keys", () => {
+    const summary = Context.run({}, () => {
+      record("db.query", 5, { data: { table: "orders" } });
+      record("db.query", 3, { data: { table: "users" } });
+      record("db.query", 7, { data: { table: "orders" } });
+      record("db.query", 1);
+      Context.recordPerformance(
+        { name: "render", startedAt: 0, endedAt: 2, durationMs: 2 },
+        { key: "timings" }
+      );
+      return {
+        byTable: Context.performanceSummary({ groupBy: "table" }),
+        timings: Context.performanceSummary({ key: "timings" }),
+      };
+    });
+
+    expect(
+      summary.byTable.groups.map(({ name, group, count, totalMs }) => ({
+        name,
+        group,
+        count,
+        totalMs,
+      }))
+    ).toEqual([
+      { name: "db.query", group: "orders", count: 2, totalMs: 12 },
+      { name: "db.query", group: "users", count: 1, totalMs: 3 },
+      { name: "db.query", group: undefined, count: 1, totalMs: 1 },
+    ]);
+    expect(summary.byTable.groups[2]).not.toHaveProperty("group");
+    expect(summary.timings.groups.map((group) => group.name)).toEqual(["render"]);
+    expect(Context.performanceSummary()).toEqual({ count: 0, errors: 0, totalMs: 0, groups: [] });
+  });
+
+  it("is logged by Express when the response finishes", () => {
+    const { entries, logger } = createCapturingLogger();
+    const middleware = createAsyncContextExpressMiddleware({
+      performanceSummary: { logger, groupBy: "table", message: "timings" },
+    });
+    const res = Object.assign(new EventEmitter(), { setHeader: () => undefined });
+
+    middleware({ headers: {} } as any, res as any, () => {
+      record("db.query", 2, { data: { table: "orders" } });
+    });
+    expect(entries).toHaveLength(0);
+
+    res.emit("finish");
+    res.emit("close");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: "info",
+      message: "timings",
+      data: { performance: { count: 1, groups: [{ name: "db.query", group: "orders" }] } },
+    });
+  });
+
+  it("is logged by Fastify and Koa, and skipped without entries", async () => {
+    const { entries, logger } = createCapturingLogger();
+    const raw = new EventEmitter();
+    const koaRes = new EventEmitter();
+    const idleRes = new EventEmitter();
+
+    createAsyncContextFastifyHook({ performanceSummary: { logger, level: "warn" } })(
+      { headers: {} },
+      { raw },
+      () => record("fastify.handler", 1)
+    );
+    const koaMiddleware = createAsyncContextKoaMiddleware({ performanceSummary: { logger } });
+    await koaMiddleware({ request: { headers: {} }, res: koaRes }, async () =>
+      record("koa.handler", 1)
+    );
+    await koaMiddleware({ request: { headers: {} }, res: idleRes }, async () => undefined);
+
+    raw.emit("close");
+    koaRes.emit("finish");
+    idleRes.emit("finish");
+
+    expect(entries.map((entry) => [entry.level, entry.message])).toEqual([
+      ["warn", "request performance"],
+      ["info", "request performance"],
+    ]);
+    expect(entries[1].data?.performance).toMatchObject({ groups: [{ name: "koa.handler" }] });
+  });
+});
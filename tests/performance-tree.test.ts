@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import {
+  recordOpenTelemetryPerformanceTree,
+  type OpenTelemetryApi,
+} from "../core/integrations/opentelemetry";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+function createClock(...times: number[]) {
+  return () => times.shift() ?? 0;
+}
+
+describe("performance tree", () => {
+  it("links nested measurements to the running measure", async () => {
+    const store = await Context.run({}, async () => {
+      await Context.measure("handler", async () => {
+        await Context.measure("service", async () => {
+          await Context.measure("db.query", async () => undefined);
+        });
+        Context.measure("render", () => undefined);
+      });
+      return Context.getStore() as { perf: PerformanceEntry[] };
+    });
+
+    const byName = Object.fromEntries(store.perf.map((entry) => [entry.name, entry]));
+    expect(byName.handler.id).toEqual(expect.any(String));
+    expect(byName.handler).not.toHaveProperty("parentId");
+    expect(byName.service.parentId).toBe(byName.handler.id);
+    expect(byName["db.query"].parentId).toBe(byName.service.id);
+    expect(byName.render.parentId).toBe(byName.handler.id);
+  });
+
+  it("computes total and self time", () => {
+    const tree = Context.run({}, () => {
+      Context.measure(
+        "handler",
+        () => {
+          Context.measure("db.query", () => undefined, { now: createClock(2, 6) });
+          Context.measure("cache.get", () => undefined, { now: createClock(7, 8) });
+        },
+        { now: createClock(0, 10) }
+      );
+      return Context.performanceTree();
+    });
+
+    expect(tree).toEqual([
+      {
+        id: expect.any(String),
+        name: "handler",
+        startedAt: 0,
+        endedAt: 10,
+        totalMs: 10,
+        selfMs: 5,
+        children: [
+          expect.objectContaining({ name: "db.query", totalMs: 4, selfMs: 4, children: [] }),
+          expect.objectContaining({ name: "cache.get", totalMs: 1, selfMs: 1, children: [] }),
+        ],
+      },
+    ]);
+  });
+
+  it("does not count overlapping children twice", () => {
+    const tree = Context.run({}, () => {
+      Context.measure(
+        "handler",
+        () => {
+          Context.recordPerformance({ name: "b", startedAt: 3, endedAt: 8, durationMs: 5 });
+          Context.recordPerformance({ name: "a", startedAt: 1, endedAt: 5, durationMs: 4 });
+        },
+        { now: createClock(0, 10) }
+      );
+      return Context.performanceTree();
+    });
+
+    expect(tree[0].selfMs).toBe(3);
+    expect(tree[0].children.map((child) => child.name)).toEqual(["a", "b"]);
+  });
+
+  it("keeps entries without a known parent as roots", () => {
+    const tree = Context.run({}, () => {
+      const timing = { startedAt: 0, endedAt: 1, durationMs: 1 };
+      Context.recordPerformance({ ...timing, name: "orphan", parentId: "gone", startedAt: 1 });
+      Context.recordPerformance({ ...timing, name: "flat" });
+      Context.recordPerformance({ ...timing, name: "custom" }, { key: "timings" });
+      return {
+        perf: Context.performanceTree(),
+        timings: Context.performanceTree({ key: "timings" }),
+      };
+    });
+
+    expect(tree.perf.map((node) => node.name)).toEqual(["flat", "orphan"]);
+    expect(tree.timings.map((node) => node.name)).toEqual(["custom"]);
+    expect(Context.performanceTree()).toEqual([]);
+  });
+
+  it("tracks the running measure per namespace", () => {
+    const jobs = Context.createNamespace("performance-tree-jobs");
+
+    const [store, jobStore] = Context.run({}, () =>
+      jobs.run({}, () =>
+        Context.measure("outer", () => {
+          jobs.measure("job", () => undefined);
+          return [Context.getStore(), jobs.getStore()] as Array<{ perf: PerformanceEntry[] }>;
+        })
+      )
+    );
+
+    expect(jobStore.perf[0]).not.toHaveProperty("parentId");
+    expect(store.perf[0].name).toBe("outer");
+  });
+
+  it("is consumed by the logger", () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ transport: (entry) => entries.push(entry), context: false });
+
+    Context.run({}, () => {
+      logger.logPerformanceTree();
+      Context.measure("handler", () => Context.measure("db.query", () => undefined));
+      logger.logPerformanceTree("info", "timings");
+      logger.logPerformanceTree("debug");
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      message: "timings",
+      data: {
+        performance: [{ name: "handler", children: [{ name: "db.query", children: [] }] }],
+      },
+    });
+  });
+
+  it("exports the tree as nested OpenTelemetry spans", () => {
+    const spans: Array<Record<string, unknown>> = [];
+    const api: OpenTelemetryApi = {
+      context: { active: () => ({ parent: "root" }), with: (_context, fn) => fn() },
+      trace: {
+        getTracer: () => ({
+          startSpan: (name, options, context) => {
+            const span: Record<string, unknown> = { name, options, context };
+            spans.push(span);
+            return {
+              end: (endTime) => void (span.endTime = endTime),
+              setStatus: (status) => void (span.status = status),
+            };
+          },
+        }),
+        setSpan: (_context, span) => ({ span }),
+      },
+    };
+
+    Context.run({}, () => {
+      Context.measure(
+        "handler",
+        () => {
+          expect(() =>
+            Context.measure(
+              "db.query",
+              () => {
+                throw new Error("timeout");
+              },
+              { now: createClock(2, 6), data: { table: "orders" } }
+            )
+          ).toThrow("timeout");
+        },
+        { now: createClock(0, 10) }
+      );
+      recordOpenTelemetryPerformanceTree({ api });
+    });
+
+    expect(spans).toEqual([
+      {
+        name: "handler",
+        options: { startTime: 0, attributes: { "perf.self_ms": 6 } },
+        context: { parent: "root" },
+        endTime: 10,
+      },
+      {
+        name: "db.query",
+        options: { startTime: 2, attributes: { table: "orders", "perf.self_ms": 4 } },
+        context: { span: expect.any(Object) },
+        status: { code: 2, message: "timeout" },
+        endTime: 6,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { Context, createContextKey } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { AsyncContextAdonisMiddleware } from "../core/integrations/adonis";
+
+describe("Protected context keys", () => {
+  it("rejects overwrites and removal of read-only keys", () => {
+    const TenantId = createContextKey<string>("tenantId");
+
+    Context.run(
+      { requestId: "req-1", tenantId: "t-1" },
+      () => {
+        expect(Context.isReadOnly("requestId")).toBe(true);
+        expect(Context.isProtected(TenantId)).toBe(true);
+
+        expect(() => Context.addValue("requestId", "other")).toThrow(
+          "Context value \"requestId\" is read-only."
+        );
+        expect(() => Context.set(TenantId, "t-2")).toThrow(
+          "Context value \"tenantId\" is read-only."
+        );
+        expect(() => Context.addObjectValue({ user: 1, requestId: "x" })).toThrow(
+          "Context value \"requestId\" is read-only."
+        );
+        expect(() => Context.remove("requestId")).toThrow(
+          "Context value \"requestId\" is protected and cannot be removed."
+        );
+        expect(() => Context.safeRemove("tenantId")).toThrow(
+          "Context value \"tenantId\" is protected and cannot be removed."
+        );
+
+        expect(Context.getStore()).toEqual({ requestId: "req-1", tenantId: "t-1" });
+      },
+      { readOnlyKeys: ["requestId", TenantId] }
+    );
+  });
+
+  it("allows updates of protected keys but keeps them on reset", () => {
+    Context.run(
+      { tenantId: "t-1", token: "secret" },
+      () => {
+        Context.addValue("tenantId", "t-2");
+        expect(Context.isReadOnly("tenantId")).toBe(false);
+        expect(() => Context.remove("tenantId")).toThrow("cannot be removed");
+
+        Context.reset();
+        expect(Context.getStore()).toEqual({ tenantId: "t-2" });
+      },
+      { protectedKeys: ["tenantId"] }
+    );
+  });
+
+  it("protects keys of the active store on demand", () => {
+    Context.run({ options: { retry: 1 } }, () => {
+      Context.protect("options", { readOnly: true });
+      expect(() => Context.addOptions({ retry: 2 })).toThrow("is read-only");
+
+      Context.protect(["audit"], { readOnly: true });
+      Context.addValue("audit", "first");
+      expect(() => Context.addValue("audit", "second")).toThrow("is read-only");
+      expect(Context.getValue("audit")).toBe("first");
+    });
+
+    expect(() => Context.protect("x")).toThrow("No active context found");
+    expect(Context.isProtected("x")).toBe(false);
+  });
+
+  it("keeps protection in runWith children", () => {
+    Context.run(
+      { requestId: "req-1" },
+      () => {
+        expect(() => Context.runWith({ requestId: "child" }, () => undefined)).toThrow(
+          "is read-only"
+        );
+
+        Context.runWith(
+          { feature: "beta" },
+          () => {
+            expect(Context.isReadOnly("requestId")).toBe(true);
+            expect(() => Context.remove("feature")).toThrow("cannot be removed");
+          },
+          { protectedKeys: ["feature"] }
+        );
+
+        expect(Context.isProtected("feature")).toBe(false);
+      },
+      { readOnlyKeys: ["requestId"] }
+    );
+  });
+
+  it("marks integration id keys as read-only by default", () => {
+    const express = createAsyncContextExpressMiddleware({ idFactory: () => "req-1" });
+    express({} as any, {} as any, () => {
+      expect(() => Context.addValue("instance_id", "spoofed")).toThrow("is read-only");
+      expect(() => Context.reset()).not.toThrow();
+      expect(Context.getStore()).toEqual({ instance_id: "req-1" });
+    });
+
+    const optOut = createAsyncContextExpressMiddleware({ readOnlyIdKey: false });
+    optOut({} as any, {} as any, () => {
+      expect(Context.isProtected("instance_id")).toBe(false);
+    });
+
+    const koa = createAsyncContextKoaMiddleware({ idKey: "request_id" });
+    return koa({}, async () => {
+      expect(Context.isReadOnly("request_id")).toBe(true);
+    });
+  });
+
+  it("marks the Adonis instance id as read-only", async () => {
+    await new AsyncContextAdonisMiddleware().handle({}, async () => {
+      expect(Context.isReadOnly("instance_id")).toBe(true);
+    });
+  });
+});
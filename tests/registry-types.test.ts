@@ -0,0 +1,36 @@
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+/**
+ * Type-checks one fixture as its own program, since registry augmentations are
+ * global, and returns the diagnostics reported in the fixture itself.
+ */
+function typeCheck(fixture: string): string[] {
+  const file = fileURLToPath(new URL(`./types/${fixture}`, import.meta.url));
+  const config = ts.getParsedCommandLineOfConfigFile(
+    fileURLToPath(new URL("../tsconfig.json", import.meta.url)),
+    {},
+    { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => undefined }
+  );
+  const program = ts.createProgram([file], { ...config!.options, noEmit: true });
+
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter((diagnostic) => diagnostic.file?.fileName === file)
+    .map((diagnostic) => {
+      const { line } = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start!);
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, " ");
+      return `${fixture}:${line + 1} ${message}`;
+    });
+}
+
+describe("typed context registry", () => {
+  it("infers registered value types and checks stores and seeds", () => {
+    expect(typeCheck("registry.ts")).toEqual([]);
+  }, 60_000);
+
+  it("rejects unregistered keys in strict mode", () => {
+    expect(typeCheck("strict-registry.ts")).toEqual([]);
+  }, 60_000);
+});
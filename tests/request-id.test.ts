@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { AsyncContextAdonisMiddleware } from "../core/integrations/adonis";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextFastifyHook } from "../core/integrations/fastify";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { createAsyncContextNextHandler } from "../core/integrations/next";
+import { readRequestId } from "../core/integrations/request-id";
+
+function createResponse() {
+  const headers: Record<string, string> = {};
+  return { headers, setHeader: (name: string, value: string) => void (headers[name] = value) };
+}
+
+describe("request id adoption", () => {
+  it("reads the first valid id from the configured headers", () => {
+    expect(readRequestId({ "X-Correlation-Id": "corr-1" })).toBe("corr-1");
+    expect(readRequestId({ "x-request-id": ["req-1", "req-2"] })).toBe("req-1");
+    expect(readRequestId({ "x-request-id": "<script>", "x-correlation-id": "ok" })).toBe("ok");
+    expect(readRequestId({ "x-request-id": "x".repeat(129) })).toBeUndefined();
+    expect(
+      readRequestId({ "x-trace": "abc", "x-request-id": "req-1" }, { headers: ["x-trace"] })
+    ).toBe("abc");
+    expect(readRequestId({ "x-request-id": "abc" }, { pattern: /^\d+$/ })).toBeUndefined();
+    expect(readRequestId({ "x-request-id": "abcdef" }, { maxLength: 5 })).toBeUndefined();
+  });
+
+  it("keeps generating ids unless configured", () => {
+    const res = createResponse();
+    let id: unknown;
+    createAsyncContextExpressMiddleware({ idFactory: () => "generated" })(
+      { headers: { "x-request-id": "incoming" } } as any,
+      res as any,
+      () => {
+        id = Context.getValue("instance_id");
+      }
+    );
+
+    expect(id).toBe("generated");
+    expect(res.headers).toEqual({});
+  });
+
+  it("adopts and echoes ids in Express and Next", async () => {
+    const expressRes = createResponse();
+    let expressId: unknown;
+    createAsyncContextExpressMiddleware({ requestId: {}, idFactory: () => "generated" })(
+      { headers: { "x-request-id": "incoming-1" } } as any,
+      expressRes as any,
+      () => {
+        expressId = Context.getValue("instance_id");
+      }
+    );
+
+    expect(expressId).toBe("incoming-1");
+    expect(expressRes.headers).toEqual({ "x-request-id": "incoming-1" });
+
+    const nextRes = createResponse();
+    const handler = createAsyncContextNextHandler(async () => Context.getValue("rid"), {
+      idKey: "rid",
+      idFactory: () => "generated",
+      requestId: { responseHeader: "x-correlation-id" },
+    });
+
+    await expect(
+      handler({ headers: { "x-request-id": "bad id!" } } as any, nextRes as any)
+    ).resolves.toBe("generated");
+    expect(nextRes.headers).toEqual({ "x-correlation-id": "generated" });
+  });
+
+  it("uses Koa's ctx.set and the request headers", async () => {
+    const headers: Record<string, string> = {};
+    const ctx = {
+      request: { headers: { "x-correlation-id": "corr-1" } },
+      set: (name: string, value: string) => void (headers[name] = value),
+    };
+    let id: unknown;
+
+    await createAsyncContextKoaMiddleware({ requestId: {} })(ctx, async () => {
+      id = Context.getValue("instance_id");
+    });
+
+    expect(id).toBe("corr-1");
+    expect(headers).toEqual({ "x-request-id": "corr-1" });
+  });
+
+  it("adopts and echoes ids in AdonisJS", async () => {
+    const headers: Record<string, string> = {};
+    const ctx = {
+      request: { headers: () => ({ "x-request-id": "adonis-1" }) },
+      response: { header: (name: string, value: string) => void (headers[name] = value) },
+    };
+    const ids: unknown[] = [];
+    const read = async () => void ids.push(Context.getValue("instance_id"));
+
+    await new AsyncContextAdonisMiddleware({ requestId: {} }).handle(ctx, read);
+    await new AsyncContextAdonisMiddleware().handle(ctx, read);
+    await new AsyncContextAdonisMiddleware({ requestId: { pattern: /^req_/ } }).handle(ctx, read);
+
+    expect(ids[0]).toBe("adonis-1");
+    expect(ids[1]).not.toBe("adonis-1");
+    expect(ids[2]).not.toBe("adonis-1");
+    expect(headers).toEqual({ "x-request-id": ids[2] });
+  });
+
+  it("prefers Fastify's request.id when configured", () => {
+    const headers: Record<string, string> = {};
+    const reply = { header: (name: string, value: string) => void (headers[name] = value) };
+    const request = { id: "req-7", headers: { "x-request-id": "incoming" } };
+    const ids: unknown[] = [];
+
+    createAsyncContextFastifyHook({ requestId: { useFastifyId: true } })(request, reply, () => {
+      ids.push(Context.getValue("instance_id"));
+    });
+    createAsyncContextFastifyHook({ requestId: { responseHeader: false } })(
+      request,
+      reply,
+      () => {
+        ids.push(Context.getValue("instance_id"));
+      }
+    );
+
+    expect(ids).toEqual(["req-7", "incoming"]);
+    expect(headers).toEqual({ "x-request-id": "req-7" });
+  });
+});
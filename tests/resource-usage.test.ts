@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+
+function busyWait(ms: number) {
+  const end = performance.now() + ms;
+  while (performance.now() < end) {
+    // Keep the CPU busy.
+  }
+}
+
+function measured(callback: () => void): PerformanceEntry[] {
+  return Context.run({}, () => {
+    callback();
+    return Context.getValue("perf") as PerformanceEntry[];
+  });
+}
+
+afterEach(() => {
+  Context.setResourceUsage(false);
+  vi.restoreAllMocks();
+});
+
+describe("resource usage capture", () => {
+  it("stores CPU, heap and event loop deltas", () => {
+    const [entry] = measured(() =>
+      Context.measure("cpu.work", () => busyWait(20), { resourceUsage: true })
+    );
+
+    expect(entry.resources).toEqual({
+      cpuUserMs: expect.any(Number),
+      cpuSystemMs: expect.any(Number),
+      heapUsedDeltaBytes: expect.any(Number),
+      eventLoopUtilization: expect.any(Number),
+    });
+    expect(entry.resources!.cpuUserMs + entry.resources!.cpuSystemMs).toBeGreaterThan(0);
+    expect(entry.durationMs).toBeGreaterThanOrEqual(19);
+  });
+
+  it("captures async work", async () => {
+    const entry = await Context.run({}, async () => {
+      await Context.measure(
+        "async.work",
+        () => new Promise((resolve) => setTimeout(resolve, 10)),
+        { resourceUsage: true }
+      );
+      return (Context.getValue("perf") as PerformanceEntry[])[0];
+    });
+
+    expect(entry.resources?.eventLoopUtilization).toBeGreaterThanOrEqual(0);
+    expect(entry.resources?.eventLoopUtilization).toBeLessThanOrEqual(1);
+  });
+
+  it("uses high-resolution time on request", () => {
+    const before = Date.now();
+    const entries = measured(() => {
+      Context.measure("precise", () => busyWait(2), { highResolution: true, now: () => 0 });
+      Context.measure("coarse", () => busyWait(2), { now: () => 0 });
+      Context.measure("sampled", () => busyWait(2), { resourceUsage: true });
+    });
+
+    expect(entries[0].durationMs).toBeGreaterThan(1);
+    expect(entries[0]).not.toHaveProperty("resources");
+    expect(entries[1].durationMs).toBe(0);
+    for (const entry of [entries[0], entries[2]]) {
+      expect(entry.durationMs).toBe(entry.endedAt - entry.startedAt);
+      expect(entry.startedAt).toBeGreaterThanOrEqual(before - 1);
+      expect(entry.endedAt).toBeLessThanOrEqual(Date.now() + 1);
+    }
+  });
+
+  it("samples by the namespace setting unless overridden", () => {
+    const random = vi.spyOn(Math, "random");
+    Context.setResourceUsage({ sampleRate: 0.5 });
+
+    const entries = measured(() => {
+      random.mockReturnValueOnce(0.2);
+      Context.measure("sampled", () => undefined);
+      random.mockReturnValueOnce(0.8);
+      Context.measure("skipped", () => undefined);
+      Context.measure("disabled", () => undefined, { resourceUsage: false });
+    });
+
+    expect(entries.map((entry) => entry.resources !== undefined)).toEqual([true, false, false]);
+    expect(random).toHaveBeenCalledTimes(2);
+
+    Context.setResourceUsage(false);
+    const [plain] = measured(() => Context.measure("plain", () => undefined));
+    expect(plain).not.toHaveProperty("resources");
+  });
+
+  it("keeps the setting per namespace", () => {
+    const jobs = Context.createNamespace("resource-usage-jobs");
+    jobs.setResourceUsage();
+
+    const [main] = measured(() => Context.measure("main", () => undefined));
+    const job = jobs.run({}, () => {
+      jobs.measure("job", () => undefined);
+      return (jobs.getValue("perf") as PerformanceEntry[])[0];
+    });
+
+    expect(main).not.toHaveProperty("resources");
+    expect(job.resources).toBeDefined();
+    jobs.setResourceUsage(false);
+  });
+});
@@ -0,0 +1,298 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+import {
+  ContextValidationError,
+  schema,
+  validateContextValues,
+} from "../core/schema";
+
+describe("schema DSL", () => {
+  it("validates primitives and reports key paths", () => {
+    const shape = {
+      tenantId: schema.string(),
+      retries: schema.integer(),
+      beta: schema.boolean(),
+      createdAt: schema.date(),
+      score: schema.number(),
+    };
+
+    expect(
+      validateContextValues(shape, {
+        tenantId: "t_1",
+        retries: 2,
+        beta: false,
+        createdAt: new Date(),
+        score: 0.5,
+        unknown: "ignored",
+      })
+    ).toEqual([]);
+
+    expect(
+      validateContextValues(shape, {
+        tenantId: 1,
+        retries: 1.5,
+        beta: "no",
+        createdAt: new Date("invalid"),
+        score: Number.NaN,
+      })
+    ).toEqual([
+      { path: ["tenantId"], message: "Expected string" },
+      { path: ["retries"], message: "Expected integer" },
+      { path: ["beta"], message: "Expected boolean" },
+      { path: ["createdAt"], message: "Expected date" },
+      { path: ["score"], message: "Expected number" },
+    ]);
+  });
+
+  it("validates nested structures", () => {
+    const shape = {
+      user: schema.object(
+        {
+          id: schema.number(),
+          email: schema.string().optional(),
+          roles: schema.array(schema.oneOf(["admin", "member"])),
+        },
+        { unknownKeys: "reject" }
+      ),
+      flags: schema.record(schema.boolean()),
+      plan: schema.union(schema.literal("free"), schema.literal("pro")).nullable(),
+      anything: schema.any(),
+    };
+
+    const issues = validateContextValues(shape, {
+      user: { id: "1", roles: ["admin", "owner"], extra: true },
+      flags: { beta: "yes" },
+      plan: "enterprise",
+      anything: Symbol("ok"),
+    });
+
+    expect(issues).toEqual([
+      { path: ["user", "id"], message: "Expected number" },
+      { path: ["user", "roles", 1], message: "Expected one of \"admin\", \"member\"" },
+      { path: ["user", "extra"], message: "Unknown key" },
+      { path: ["flags", "beta"], message: "Expected boolean" },
+      { path: ["plan"], message: "Value did not match any union member" },
+    ]);
+
+    expect(
+      validateContextValues(shape, {
+        user: "nope",
+        flags: [],
+        plan: null,
+      })
+    ).toEqual([
+      { path: ["user"], message: "Expected object" },
+      { path: ["flags"], message: "Expected object" },
+    ]);
+
+    expect(
+      validateContextValues({ list: schema.array(schema.string()) }, { list: "a" })
+    ).toEqual([{ path: ["list"], message: "Expected array" }]);
+  });
+
+  it("supports refinements and custom predicates", () => {
+    const shape = {
+      port: schema.integer().refine((value) => value > 0, "Expected positive port"),
+      slug: schema.custom((value) => typeof value === "string" && /^[a-z-]+$/.test(value)),
+    };
+
+    expect(validateContextValues(shape, { port: 0, slug: "Bad Slug" })).toEqual([
+      { path: ["port"], message: "Expected positive port" },
+      { path: ["slug"], message: "Invalid value" },
+    ]);
+    expect(validateContextValues(shape, { port: "80" })).toEqual([
+      { path: ["port"], message: "Expected integer" },
+    ]);
+  });
+
+  it("adapts parse-style validators", () => {
+    const plainParser = {
+      parse(value: unknown) {
+        if (typeof value !== "string") throw new Error("Not a string");
+        return value;
+      },
+    };
+    const zodLikeParser = {
+      parse() {
+        throw Object.assign(new Error("invalid"), {
+          issues: [{ path: ["id"], message: "Required" }, "opaque"],
+        });
+      },
+    };
+    const throwsValue = {
+      parse() {
+        throw "bad";
+      },
+    };
+
+    expect(
+      validateContextValues(
+        {
+          tenantId: plainParser,
+          user: schema.parser(zodLikeParser),
+          other: throwsValue,
+        },
+        { tenantId: 1, user: {}, other: 1 }
+      )
+    ).toEqual([
+      { path: ["tenantId"], message: "Not a string" },
+      { path: ["user", "id"], message: "Required" },
+      { path: ["user"], message: "Invalid value" },
+      { path: ["other"], message: "bad" },
+    ]);
+  });
+
+  it("validates whole-store parsers against the written keys", () => {
+    const storeParser = {
+      parse(value: unknown) {
+        const store = value as Record<string, unknown>;
+        const issues = [];
+        if (typeof store.tenantId !== "string") {
+          issues.push({ path: ["tenantId"], message: "Expected string" });
+        }
+        if (store.locale !== undefined && typeof store.locale !== "string") {
+          issues.push({ path: ["locale"], message: "Expected string" });
+        }
+        if (issues.length) throw Object.assign(new Error("invalid"), { issues });
+        return store;
+      },
+    };
+
+    expect(validateContextValues(storeParser, {})).toEqual([
+      { path: ["tenantId"], message: "Expected string" },
+    ]);
+    const store = { locale: 1 };
+    expect(validateContextValues(storeParser, store, store)).toHaveLength(2);
+    expect(validateContextValues(storeParser, { locale: 1 }, { locale: 1, x: 1 })).toEqual([
+      { path: ["locale"], message: "Expected string" },
+    ]);
+  });
+});
+
+describe("Context schema", () => {
+  afterEach(() => {
+    Context.setSchema(undefined);
+  });
+
+  it("throws on invalid writes by default", () => {
+    const Scoped = Context.createNamespace("schema-throw");
+    Scoped.setSchema({
+      tenantId: schema.string(),
+      options: schema.object({ retry: schema.number() }),
+    });
+
+    expect(Scoped.getSchema()).toBeDefined();
+    expect(() => Scoped.run({ tenantId: 1 }, () => undefined)).toThrow(
+      "Context validation failed in Context.run: tenantId: Expected string"
+    );
+
+    Scoped.run({ tenantId: "t_1" }, () => {
+      expect(() => Scoped.addValue("tenantId", 2)).toThrow(ContextValidationError);
+      expect(() => Scoped.addObjectValue({ tenantId: false })).toThrow(
+        ContextValidationError
+      );
+      expect(() => Scoped.runWith({ tenantId: null }, () => undefined)).toThrow(
+        ContextValidationError
+      );
+      expect(() => Scoped.enterWith({ tenantId: [] })).toThrow(ContextValidationError);
+      expect(() => Scoped.addOptions({ retry: "2" })).toThrow(ContextValidationError);
+      Scoped.addOptions({ retry: 1 });
+      expect(() => Scoped.addOptions({ retry: "2" })).toThrow(ContextValidationError);
+      expect(Scoped.getValue("options")).toEqual({ retry: 1 });
+      expect(Scoped.getValue("tenantId")).toBe("t_1");
+
+      Scoped.remove("tenantId");
+      expect(() => Scoped.setDefault("tenantId", 3)).toThrow(ContextValidationError);
+      expect(Scoped.setDefault("tenantId", "t_2")).toBe("t_2");
+    });
+
+    expect(Context.getSchema()).toBeUndefined();
+  });
+
+  it("reports and keeps values in warn mode", () => {
+    const Scoped = Context.createNamespace("schema-warn");
+    const reported: ContextValidationError[] = [];
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      context: false,
+    });
+
+    Scoped.setSchema(
+      { tenantId: schema.string() },
+      { mode: "warn", onInvalid: (error) => reported.push(error), logger }
+    );
+
+    Scoped.run({}, () => {
+      Scoped.addValue("tenantId", 42);
+      expect(Scoped.getValue("tenantId")).toBe(42);
+    });
+
+    expect(reported).toHaveLength(1);
+    expect(reported[0].issues).toEqual([
+      { path: ["tenantId"], message: "Expected string" },
+    ]);
+    expect(entries[0].level).toBe("warn");
+    expect(entries[0].message).toBe("Context validation failed");
+    expect(entries[0].data).toEqual({
+      operation: "Context.addValue",
+      issues: [{ path: ["tenantId"], message: "Expected string" }],
+    });
+    expect(entries[0].error?.details).toEqual({
+      operation: "Context.addValue",
+      issues: [{ path: ["tenantId"], message: "Expected string" }],
+    });
+  });
+
+  it("drops invalid keys in strip mode", () => {
+    const Scoped = Context.createNamespace("schema-strip");
+    const entries: LogEntry[] = [];
+    const logger = createLogger({
+      transport: (entry) => entries.push(entry),
+      context: false,
+    });
+    Scoped.setSchema(
+      { tenantId: schema.string(), locale: schema.string() },
+      { mode: "strip", logger, logLevel: "error" }
+    );
+
+    Scoped.run({ tenantId: 1, locale: "pt-BR" }, () => {
+      expect(Scoped.getStore()).toEqual({ locale: "pt-BR" });
+      Scoped.addObjectValue({ tenantId: "t_1", locale: 2 });
+      Scoped.addValue("locale", 3);
+      expect(Scoped.getStore()).toEqual({ locale: "pt-BR", tenantId: "t_1" });
+    });
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0].level).toBe("error");
+  });
+
+  it("strips every written key for root-level parser issues", () => {
+    const Scoped = Context.createNamespace("schema-root");
+    Scoped.setSchema(
+      {
+        parse() {
+          throw new Error("store rejected");
+        },
+      },
+      { mode: "strip" }
+    );
+
+    Scoped.run({ a: 1 }, () => {
+      expect(Scoped.getStore()).toEqual({});
+    });
+  });
+
+  it("validates integration seeds", () => {
+    Context.setSchema({ tenantId: schema.string() });
+    const middleware = createAsyncContextExpressMiddleware({
+      seed: () => ({ tenantId: 1 }),
+    });
+
+    expect(() => middleware({} as any, {} as any, () => undefined)).toThrow(
+      ContextValidationError
+    );
+  });
+});
@@ -215,4 +215,41 @@ describe("Sentry integration (mocked)", () => {
 
     expect(passed).toBe(error);
   });
+
+  it("attaches the audit trail to captured exceptions", async () => {
+    const { scope, capture } = createScopeCapture();
+    const sentryModule = {
+      default: {
+        withScope: (cb: (scope: typeof scope) => void) => cb(scope),
+        captureException: vi.fn(() => "event-audit"),
+      },
+    };
+
+    const sentry = await loadWithMock(() => sentryModule);
+
+    Context.setAudit({ captureCallSite: false });
+    try {
+      await Context.run({}, async () => {
+        Context.addValue("tenantId", "t_1");
+        Context.addValue("token", "secret");
+        Context.addValue("user", { id: 1, password: "hunter2" });
+        Context.addValue("account", { id: "s_1" });
+        await sentry.captureExceptionWithContext(new Error("boom"), {
+          namespace: Context,
+          attachAuditTrail: true,
+          redactKeys: ["async_context.account.id"],
+        });
+      });
+    } finally {
+      Context.setAudit(false);
+    }
+
+    const audit = capture.extras.async_context_audit as Array<Record<string, unknown>>;
+    expect(audit.map((entry) => [entry.key, entry.next])).toEqual([
+      ["tenantId", "\"t_1\""],
+      ["token", "[REDACTED]"],
+      ["user", '{"id":1,"password":"[REDACTED]"}'],
+      ["account", '{"id":"[REDACTED]"}'],
+    ]);
+  });
 });
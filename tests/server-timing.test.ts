@@ -0,0 +1,125 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, expect, it } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createAsyncContextFastifyHook } from "../core/integrations/fastify";
+import { createAsyncContextKoaMiddleware } from "../core/integrations/koa";
+import { createAsyncContextNextHandler } from "../core/integrations/next";
+import { formatServerTimingHeader } from "../core/integrations/server-timing";
+
+function entry(name: string, durationMs: number): PerformanceEntry {
+  return { name, startedAt: 0, endedAt: durationMs, durationMs };
+}
+
+async function fetchHeader(listener: http.RequestListener) {
+  const server = http.createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/`);
+    await response.arrayBuffer();
+    return response.headers.get("server-timing");
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+describe("Server-Timing header", () => {
+  it("sanitizes names, aggregates repeats and keeps the slowest", () => {
+    const entries = [
+      entry("db.query", 2),
+      entry("http:GET api.example.com", 30.456),
+      entry("db.query", 3),
+      entry("cache", 1),
+    ];
+
+    expect(formatServerTimingHeader(entries)).toBe(
+      'http_GET_api.example.com;dur=30.46, db.query;dur=5;desc="2 calls", cache;dur=1'
+    );
+    expect(formatServerTimingHeader(entries, { maxEntries: 1 })).toBe(
+      "http_GET_api.example.com;dur=30.46"
+    );
+    expect(formatServerTimingHeader(entries, { allow: ["cache", /^db\./] })).toBe(
+      'db.query;dur=5;desc="2 calls", cache;dur=1'
+    );
+    expect(formatServerTimingHeader(entries, { allow: [] })).toBeUndefined();
+  });
+
+  it("is added by Express before headers are written", async () => {
+    const middleware = createAsyncContextExpressMiddleware({ serverTiming: true });
+
+    const header = await fetchHeader((req, res) =>
+      middleware(req, res, () => {
+        res.setHeader("Server-Timing", "edge;dur=1");
+        Context.measure("render", () => undefined, { now: () => 0 });
+        setTimeout(() => {
+          Context.recordPerformance(entry("db.query", 4));
+          res.end("ok");
+        });
+      })
+    );
+
+    expect(header).toBe("edge;dur=1, db.query;dur=4, render;dur=0");
+  });
+
+  it("is disabled by default and skips requests without entries", async () => {
+    const plain = createAsyncContextExpressMiddleware();
+    const enabled = createAsyncContextExpressMiddleware({ serverTiming: true });
+
+    await expect(
+      fetchHeader((req, res) =>
+        plain(req, res, () => {
+          Context.recordPerformance(entry("db", 1));
+          res.end();
+        })
+      )
+    ).resolves.toBeNull();
+    await expect(
+      fetchHeader((req, res) => enabled(req, res, () => res.end()))
+    ).resolves.toBeNull();
+  });
+
+  it("leaves flushed headers alone", async () => {
+    const middleware = createAsyncContextExpressMiddleware({ serverTiming: true });
+
+    const header = await fetchHeader((req, res) => {
+      res.flushHeaders();
+      middleware(req, res, () => {
+        Context.recordPerformance(entry("late", 1));
+        res.end();
+      });
+    });
+
+    expect(header).toBeNull();
+  });
+
+  it("is supported by Fastify, Koa and Next", async () => {
+    const options = { serverTiming: { allow: ["handler"] } };
+    const fastifyHook = createAsyncContextFastifyHook(options);
+    const koaMiddleware = createAsyncContextKoaMiddleware(options);
+    const nextHandler = createAsyncContextNextHandler(async (_req, res) => {
+      Context.recordPerformance(entry("handler", 3));
+      Context.recordPerformance(entry("hidden", 3));
+      res.end();
+    }, options);
+
+    const headers = await Promise.all([
+      fetchHeader((req, res) =>
+        fastifyHook({ raw: req }, { raw: res }, () => {
+          Context.recordPerformance(entry("handler", 1));
+          res.end();
+        })
+      ),
+      fetchHeader((req, res) =>
+        void koaMiddleware({ req, res }, async () => {
+          Context.recordPerformance(entry("handler", 2));
+          res.end();
+        })
+      ),
+      fetchHeader((req, res) => void nextHandler(req, res)),
+    ]);
+
+    expect(headers).toEqual(["handler;dur=1", "handler;dur=2", "handler;dur=3"]);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import { Context } from "../core/context";
+import { AsyncContextAdonisMiddleware } from "../core/integrations/adonis";
+import { createAsyncContextExpressMiddleware } from "../core/integrations/express";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+import {
+  createCompositePropagator,
+  createTraceContext,
+  formatTraceparent,
+  getTraceContext,
+  injectTraceContextHeaders,
+  parseTraceparent,
+  parseTracestate,
+  resolveTracePropagator,
+  tracePropagators,
+} from "../core/trace-context";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+describe("W3C trace context", () => {
+  it("parses valid traceparent headers", () => {
+    expect(parseTraceparent(TRACEPARENT)).toEqual({
+      version: "00",
+      traceId: TRACE_ID,
+      parentId: PARENT_ID,
+      traceFlags: 1,
+    });
+    expect(parseTraceparent([` ${TRACEPARENT} `])?.traceId).toBe(TRACE_ID);
+    expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-00-extra`)?.version).toBe("01");
+  });
+
+  it("rejects invalid traceparent headers", () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(parseTraceparent(TRACEPARENT.toUpperCase())).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeUndefined();
+    expect(parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`)).toBeUndefined();
+    expect(parseTraceparent([TRACEPARENT, TRACEPARENT])).toBeUndefined();
+  });
+
+  it("validates and normalizes tracestate", () => {
+    expect(parseTracestate("congo=t61rcWkgMzE, rojo=00f067aa0ba902b7")).toBe(
+      "congo=t61rcWkgMzE,rojo=00f067aa0ba902b7"
+    );
+    expect(parseTracestate(["a=1", "tenant@vendor=2"])).toBe("a=1,tenant@vendor=2");
+    expect(parseTracestate("a=1,a=2")).toBeUndefined();
+    expect(parseTracestate("Upper=1")).toBeUndefined();
+    expect(parseTracestate("novalue")).toBeUndefined();
+    const members = Array.from({ length: 33 }, (_, i) => `k${i}=v`);
+    expect(parseTracestate(members.join(","))).toBeUndefined();
+  });
+
+  it("continues incoming traces with a new span", () => {
+    const context = createTraceContext({ TraceParent: TRACEPARENT, tracestate: "a=1" });
+
+    expect(context).toEqual({
+      traceId: TRACE_ID,
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      parentSpanId: PARENT_ID,
+      traceFlags: 1,
+      traceState: "a=1",
+    });
+    expect(context.spanId).not.toBe(PARENT_ID);
+  });
+
+  it("starts a sampled trace when headers are missing or invalid", () => {
+    const context = createTraceContext({ traceparent: "invalid", tracestate: "a=1" });
+
+    expect(context).toEqual({
+      traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      traceFlags: 1,
+    });
+    expect(createTraceContext().traceId).not.toBe(context.traceId);
+  });
+
+  it("injects the active trace into outgoing headers", () => {
+    const trace = createTraceContext({ traceparent: TRACEPARENT, tracestate: "a=1" });
+    const headers = Context.run({ traceContext: trace }, () =>
+      injectTraceContextHeaders({ accept: "application/json" })
+    );
+
+    expect(headers).toEqual({
+      accept: "application/json",
+      traceparent: formatTraceparent(trace),
+      tracestate: "a=1",
+    });
+    expect(headers.traceparent).toBe(`00-${TRACE_ID}-${trace.spanId}-01`);
+    expect(injectTraceContextHeaders({})).toEqual({});
+  });
+
+  it("stores the trace from request headers and logs its ids", () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ transport: (entry) => entries.push(entry), context: false });
+    const middleware = createAsyncContextExpressMiddleware({ traceContext: true });
+
+    middleware({ headers: { traceparent: TRACEPARENT } } as any, {} as any, () => {
+      expect(getTraceContext()?.parentSpanId).toBe(PARENT_ID);
+      logger.info("handled");
+    });
+    Context.run({ traceContext: createTraceContext() }, () =>
+      logger.child({}, { traceIds: false }).info("quiet")
+    );
+
+    expect(entries[0]).toMatchObject({ trace_id: TRACE_ID, span_id: expect.any(String) });
+    expect(entries[0].span_id).not.toBe(PARENT_ID);
+    expect(entries[1]).not.toHaveProperty("trace_id");
+  });
+
+  it("is opt-in for every integration", async () => {
+    const headers = { traceparent: TRACEPARENT };
+    let store: Record<string, unknown> | undefined;
+
+    createAsyncContextExpressMiddleware()({ headers } as any, {} as any, () => {
+      store = Context.getStore();
+    });
+    expect(store).not.toHaveProperty("traceContext");
+
+    const adonisCtx = { request: { headers: () => headers } };
+    await new AsyncContextAdonisMiddleware().handle(adonisCtx, async () => {
+      store = Context.getStore();
+    });
+    expect(store).not.toHaveProperty("traceContext");
+
+    await new AsyncContextAdonisMiddleware({ traceContext: true }).handle(adonisCtx, async () => {
+      store = Context.getStore();
+    });
+    expect(store?.traceContext).toMatchObject({ traceId: TRACE_ID, parentSpanId: PARENT_ID });
+  });
+});
+
+describe("trace propagators", () => {
+  const B3_TRACE_ID = "463ac35c9f6413ad48485a3953bb6124";
+  const B3_SPAN_ID = "a2fb4a1d1a96d312";
+
+  it("reads and writes B3 single headers", () => {
+    const { b3 } = tracePropagators;
+
+    expect(b3.extract({ b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-1-0020000000000001` })).toEqual({
+      traceId: B3_TRACE_ID,
+      spanId: B3_SPAN_ID,
+      traceFlags: 1,
+    });
+    expect(b3.extract({ b3: `463ac35c9f6413ad-${B3_SPAN_ID}-0` })).toEqual({
+      traceId: "0000000000000000463ac35c9f6413ad",
+      spanId: B3_SPAN_ID,
+      traceFlags: 0,
+    });
+    expect(b3.extract({ b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-d` })?.traceFlags).toBe(1);
+    expect(b3.extract({ b3: "0" })).toBeUndefined();
+    expect(b3.extract({ b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-x` })).toBeUndefined();
+
+    const headers: Record<string, unknown> = {};
+    b3.inject({ traceId: B3_TRACE_ID, spanId: B3_SPAN_ID, traceFlags: 0 }, headers);
+    expect(headers).toEqual({ b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-0` });
+  });
+
+  it("reads and writes B3 multi headers", () => {
+    const { b3multi } = tracePropagators;
+
+    expect(
+      b3multi.extract({
+        "X-B3-TraceId": B3_TRACE_ID,
+        "X-B3-SpanId": B3_SPAN_ID,
+        "X-B3-Sampled": "0",
+        "X-B3-Flags": "1",
+      })
+    ).toEqual({ traceId: B3_TRACE_ID, spanId: B3_SPAN_ID, traceFlags: 1 });
+    expect(b3multi.extract({ "x-b3-traceid": B3_TRACE_ID })).toBeUndefined();
+
+    const headers: Record<string, unknown> = {};
+    b3multi.inject({ traceId: B3_TRACE_ID, spanId: B3_SPAN_ID, traceFlags: 1 }, headers);
+    expect(headers).toEqual({
+      "x-b3-traceid": B3_TRACE_ID,
+      "x-b3-spanid": B3_SPAN_ID,
+      "x-b3-sampled": "1",
+    });
+  });
+
+  it("reads and writes Jaeger headers", () => {
+    const { jaeger } = tracePropagators;
+
+    expect(jaeger.extract({ "uber-trace-id": "abc%3A1f%3A0%3A1" })).toEqual({
+      traceId: "abc".padStart(32, "0"),
+      spanId: "1f".padStart(16, "0"),
+      traceFlags: 1,
+    });
+    expect(jaeger.extract({ "uber-trace-id": `${B3_TRACE_ID}:${B3_SPAN_ID}:0` })).toBeUndefined();
+    expect(jaeger.extract({ "uber-trace-id": `0:${B3_SPAN_ID}:0:1` })).toBeUndefined();
+
+    const headers: Record<string, unknown> = {};
+    jaeger.inject({ traceId: B3_TRACE_ID, spanId: B3_SPAN_ID, traceFlags: 1 }, headers);
+    expect(headers).toEqual({ "uber-trace-id": `${B3_TRACE_ID}:${B3_SPAN_ID}:0:01` });
+  });
+
+  it("extracts whichever format is present and injects the configured set", () => {
+    const propagator = createCompositePropagator(
+      [tracePropagators.tracecontext, tracePropagators.b3multi, tracePropagators.jaeger],
+      { inject: [tracePropagators.tracecontext, tracePropagators.b3] }
+    );
+
+    expect(propagator.fields).toEqual(["traceparent", "tracestate", "b3"]);
+    expect(propagator.extract({ "uber-trace-id": `${B3_TRACE_ID}:${B3_SPAN_ID}:0:1` })).toEqual({
+      traceId: B3_TRACE_ID,
+      spanId: B3_SPAN_ID,
+      traceFlags: 1,
+    });
+    expect(propagator.extract({ traceparent: TRACEPARENT })?.traceId).toBe(TRACE_ID);
+
+    const headers: Record<string, unknown> = {};
+    propagator.inject({ traceId: B3_TRACE_ID, spanId: B3_SPAN_ID, traceFlags: 1 }, headers);
+    expect(headers).toEqual({
+      traceparent: `00-${B3_TRACE_ID}-${B3_SPAN_ID}-01`,
+      b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-1`,
+    });
+  });
+
+  it("resolves propagators by name", () => {
+    expect(resolveTracePropagator()).toBe(tracePropagators.tracecontext);
+    expect(resolveTracePropagator(["jaeger"])).toBe(tracePropagators.jaeger);
+    expect(resolveTracePropagator(["b3", "jaeger"]).name).toBe("b3,jaeger");
+    expect(() => resolveTracePropagator("zipkin" as any)).toThrow(
+      'Unknown trace propagator "zipkin".'
+    );
+  });
+
+  it("continues and injects traces with the selected propagator", () => {
+    const middleware = createAsyncContextExpressMiddleware({
+      traceContext: true,
+      propagator: ["tracecontext", "b3"],
+    });
+    let headers: Record<string, unknown> = {};
+
+    middleware({ headers: { b3: `${B3_TRACE_ID}-${B3_SPAN_ID}-1` } } as any, {} as any, () => {
+      expect(getTraceContext()).toMatchObject({ traceId: B3_TRACE_ID, parentSpanId: B3_SPAN_ID });
+      headers = injectTraceContextHeaders({}, { propagator: "b3multi" });
+    });
+
+    expect(headers).toEqual({
+      "x-b3-traceid": B3_TRACE_ID,
+      "x-b3-spanid": expect.not.stringMatching(B3_SPAN_ID),
+      "x-b3-sampled": "1",
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Context, createContextKey } from "../core/context";
+import { createLogger, type LogEntry } from "../core/logging/logger";
+
+let now = 0;
+
+describe("Expiring context values", () => {
+  afterEach(() => {
+    Context.setClock();
+    now = 0;
+  });
+
+  it("drops values after their TTL", () => {
+    Context.setClock(() => now);
+
+    Context.run({}, () => {
+      Context.addValue("accessToken", "tok-1", { ttlMs: 1000 });
+      now = 999;
+      expect(Context.getValue("accessToken")).toBe("tok-1");
+
+      now = 1000;
+      expect(Context.has("accessToken")).toBe(false);
+      expect(Context.getValue("accessToken", "none")).toBe("none");
+      expect(() => Context.requireValue("accessToken")).toThrow(
+        "Context value \"accessToken\" was not found."
+      );
+      expect(Context.getStore()).toEqual({});
+    });
+  });
+
+  it("refreshes values through onExpire", () => {
+    Context.setClock(() => now);
+    const onExpire = vi.fn((key: string, value: unknown) => `${value}+`);
+    const Token = createContextKey<string>("token");
+
+    Context.run({}, () => {
+      Context.set(Token, "t", { ttlMs: 100, onExpire });
+      now = 150;
+      expect(Context.get(Token)).toBe("t+");
+      expect(onExpire).toHaveBeenCalledWith("token", "t");
+
+      now = 249;
+      expect(Context.require(Token)).toBe("t+");
+      now = 250;
+      expect(Context.get(Token)).toBe("t++");
+      expect(onExpire).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it("clears the TTL when a value is overwritten or removed", () => {
+    Context.setClock(() => now);
+
+    Context.run({}, () => {
+      Context.addValue("permissions", ["read"], { ttlMs: 10 });
+      Context.addValue("permissions", ["read", "write"]);
+      Context.addValue("session", "s", { ttlMs: 10 });
+      Context.remove("session");
+      now = 100;
+
+      expect(Context.getValue("permissions")).toEqual(["read", "write"]);
+      Context.addValue("session", "s2");
+      expect(Context.getValue("session")).toBe("s2");
+
+      Context.addValue("flag", true, { ttlMs: 5 });
+      Context.addObjectValue({ flag: false });
+      now = 200;
+      expect(Context.getValue("flag")).toBe(false);
+    });
+  });
+
+  it("omits expired values from snapshots, children, and logs", () => {
+    Context.setClock(() => now);
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ transport: (entry) => entries.push(entry) });
+
+    Context.run({ requestId: "req-1" }, () => {
+      Context.addValue("cache", { hit: true }, { ttlMs: 50 });
+      expect(Context.snapshot()).toEqual({ requestId: "req-1", cache: { hit: true } });
+
+      Context.runWith({ feature: "beta" }, () => {
+        now = 60;
+        expect(Context.getValue("cache")).toBeUndefined();
+      });
+
+      expect(Context.snapshot()).toEqual({ requestId: "req-1" });
+      logger.info("after expiry");
+    });
+
+    expect(entries[0].context).toEqual({ requestId: "req-1" });
+  });
+
+  it("rejects invalid TTLs", () => {
+    Context.run({}, () => {
+      expect(() => Context.addValue("x", 1, { ttlMs: 0 })).toThrow(
+        "Context value \"x\" ttlMs must be a positive number."
+      );
+      expect(() => Context.addValue("x", 1, { ttlMs: Number.NaN })).toThrow(
+        "ttlMs must be a positive number"
+      );
+    });
+  });
+
+  it("keeps clocks per namespace", () => {
+    const Scoped = Context.createNamespace("ttl-clock");
+    Scoped.setClock(() => now);
+
+    Context.run({}, () => {
+      Context.addValue("x", 1, { ttlMs: 1000 });
+      Scoped.run({}, () => {
+        Scoped.addValue("x", 1, { ttlMs: 1000 });
+        now = 5000;
+        expect(Scoped.getValue("x")).toBeUndefined();
+      });
+      expect(Context.getValue("x")).toBe(1);
+    });
+
+    Scoped.setClock();
+  });
+});
@@ -0,0 +1,39 @@
+import { expectTypeOf } from "vitest";
+import {
+  Context,
+  createAsyncContextExpressMiddleware,
+  createAsyncContextFastifyHook,
+  type ContextStore,
+} from "../../index";
+
+declare module "../../index" {
+  interface AsyncContextRegistry {
+    tenantId: string;
+    user: { id: number; name: string };
+  }
+}
+
+expectTypeOf(Context.getValue("tenantId")).toEqualTypeOf<string | undefined>();
+expectTypeOf(Context.getValue("user")).toEqualTypeOf<{ id: number; name: string } | undefined>();
+expectTypeOf(Context.requireValue("user").id).toEqualTypeOf<number>();
+expectTypeOf(Context.setDefault("tenantId", "t_1")).toEqualTypeOf<string>();
+expectTypeOf(Context.getValue("feature")).toEqualTypeOf<unknown>();
+expectTypeOf(Context.getValue<boolean>("feature")).toEqualTypeOf<boolean | undefined>();
+expectTypeOf<ContextStore["tenantId"]>().toEqualTypeOf<string | undefined>();
+
+Context.addValue("tenantId", "t_1");
+Context.addValue("feature", true);
+// @ts-expect-error registered keys only accept their registered type
+Context.addValue("tenantId", 123);
+// @ts-expect-error registered keys only accept their registered type
+Context.addObjectValue({ user: { id: "u_1" } });
+
+Context.run({ tenantId: "t_1", feature: "beta" }, () => undefined);
+// @ts-expect-error stores are checked against the registry
+Context.run({ tenantId: 1 }, () => undefined);
+
+createAsyncContextExpressMiddleware({ seed: (req) => ({ tenantId: String(req.headers.host) }) });
+// @ts-expect-error seeds are checked against the registry
+createAsyncContextExpressMiddleware({ seed: { user: { id: 1 } } });
+// @ts-expect-error seed factories are checked against the registry
+createAsyncContextFastifyHook({ seed: () => ({ tenantId: 1 }) });
@@ -0,0 +1,29 @@
+import { expectTypeOf } from "vitest";
+import { Context, createAsyncContextKoaMiddleware, type ContextStore } from "../../index";
+
+declare module "../../index" {
+  interface AsyncContextRegistry {
+    tenantId: string;
+  }
+  interface AsyncContextRegistryConfig {
+    strict: true;
+  }
+}
+
+expectTypeOf(Context.getValue("tenantId")).toEqualTypeOf<string | undefined>();
+expectTypeOf(Context.requireValue("tenantId")).toEqualTypeOf<string>();
+expectTypeOf<keyof ContextStore>().toEqualTypeOf<"tenantId">();
+
+Context.addValue("tenantId", "t_1");
+// @ts-expect-error unregistered keys are rejected in strict mode
+Context.getValue("feature");
+// @ts-expect-error unregistered keys are rejected in strict mode
+Context.requireValue("feature");
+// @ts-expect-error unregistered keys are rejected in strict mode
+Context.addValue("feature", true);
+// @ts-expect-error unregistered keys are rejected in strict mode
+Context.setDefault("feature", true);
+// @ts-expect-error unregistered keys are rejected in strict mode
+Context.run({ feature: true }, () => undefined);
+// @ts-expect-error unregistered keys are rejected in seeds
+createAsyncContextKoaMiddleware({ seed: { feature: true } });
@@ -0,0 +1,224 @@
+import { EventEmitter } from "node:events";
+import { MessageChannel, Worker, type MessagePort } from "node:worker_threads";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Context, type PerformanceEntry } from "../core/context";
+import {
+  captureWorkerContext,
+  createContextWorkerPool,
+  handleWorkerTasks,
+  onMessageWithContext,
+  postMessageWithContext,
+  runWithWorkerContext,
+  wrapWorkerMessage,
+  type ContextWorkerPool,
+  type WorkerTaskHandler,
+} from "../core/integrations/worker-threads";
+
+const ports: MessagePort[] = [];
+
+const createChannelWorker = (handler: WorkerTaskHandler<any, any>) => () => {
+  const { port1, port2 } = new MessageChannel();
+  ports.push(port1, port2);
+  handleWorkerTasks(handler, { port: port2 });
+  return port1;
+};
+
+class FakeWorker extends EventEmitter {
+  posted: Array<{ __asyncContextTask: number }> = [];
+  terminate = vi.fn();
+
+  postMessage(message: { __asyncContextTask: number }) {
+    this.posted.push(message);
+  }
+
+  reply(result: unknown) {
+    const { __asyncContextTask } = this.posted[this.posted.length - 1];
+    this.emit("message", { __asyncContextTask, result, perf: [] });
+  }
+}
+
+describe("worker_threads context propagation", () => {
+  afterEach(() => {
+    for (const port of ports.splice(0)) port.close();
+  });
+
+  it("captures a filtered, cloneable snapshot", () => {
+    const onDropped = vi.fn();
+
+    Context.run({ instance_id: "i1", tenantId: "t1", db: { query: () => 1 } }, () => {
+      Context.measure("parent", () => undefined);
+
+      expect(captureWorkerContext({ onDropped })).toEqual({ instance_id: "i1", tenantId: "t1" });
+      expect(onDropped).toHaveBeenCalledWith(["db"]);
+      expect(captureWorkerContext({ keys: ["tenantId"], onDropped })).toEqual({
+        tenantId: "t1",
+      });
+      expect(captureWorkerContext({ excludeKeys: ["tenantId", "db"], onDropped })).toEqual({
+        instance_id: "i1",
+      });
+    });
+
+    expect(captureWorkerContext()).toEqual({});
+  });
+
+  it("re-enters the posted context on the receiving side", async () => {
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+
+    const received = new Promise((resolve) => {
+      onMessageWithContext<{ job: string }>(port2, (data) =>
+        resolve([data.job, Context.getValue("tenantId")])
+      );
+    });
+
+    Context.run({ tenantId: "t1" }, () => postMessageWithContext(port1, { job: "pdf" }));
+
+    await expect(received).resolves.toEqual(["pdf", "t1"]);
+    expect(runWithWorkerContext("plain", (data) => [data, Context.getStore()])).toEqual([
+      "plain",
+      undefined,
+    ]);
+    expect(
+      runWithWorkerContext(
+        Context.run({ tenantId: "t2" }, () => wrapWorkerMessage(1)),
+        () => Context.getValue("tenantId")
+      )
+    ).toBe("t2");
+  });
+
+  it("runs pool tasks in the caller context and merges worker perf entries", async () => {
+    const pool: ContextWorkerPool<number, string> = createContextWorkerPool({
+      size: 2,
+      createWorker: createChannelWorker(async (input: number) =>
+        Context.measure("hash", async () => `${Context.getValue("tenantId")}:${input * 2}`)
+      ),
+    });
+
+    await Context.run({ tenantId: "t1" }, async () => {
+      const results = await Promise.all([pool.run(1), pool.run(2), pool.run(3)]);
+
+      expect(results).toEqual(["t1:2", "t1:4", "t1:6"]);
+      const perf = Context.getValue<PerformanceEntry[]>("perf")!;
+      expect(perf.map((entry) => entry.name)).toEqual(["hash", "hash", "hash"]);
+    });
+
+    await pool.destroy();
+    await expect(pool.run(1)).rejects.toThrow("Worker pool was destroyed.");
+  });
+
+  it("bounds the number of workers", async () => {
+    const createWorker = vi.fn(createChannelWorker((input: number) => input));
+    const pool = createContextWorkerPool<number, number>({ size: 2, createWorker });
+
+    await Promise.all([1, 2, 3, 4].map((input) => pool.run(input)));
+
+    expect(createWorker).toHaveBeenCalledTimes(2);
+    await pool.destroy();
+  });
+
+  it("rejects with the worker error and keeps its perf entries", async () => {
+    const pool = createContextWorkerPool({
+      size: 1,
+      createWorker: createChannelWorker(() =>
+        Context.measure("render", () => {
+          throw new TypeError("bad pdf");
+        })
+      ),
+    });
+
+    await Context.run({}, async () => {
+      const error = await pool.run(null).catch((reason: Error) => reason);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toMatchObject({ name: "TypeError", message: "bad pdf" });
+      expect(Context.getValue<PerformanceEntry[]>("perf")![0].error).toEqual({
+        name: "TypeError",
+        message: "bad pdf",
+      });
+    });
+
+    await pool.destroy();
+  });
+
+  it("ignores repeated failures of a worker that was already replaced", async () => {
+    const workers: FakeWorker[] = [];
+    const createWorker = vi.fn(() => {
+      workers.push(new FakeWorker());
+      return workers[workers.length - 1];
+    });
+    const pool = createContextWorkerPool<number, number>({ size: 2, createWorker });
+
+    const first = pool.run(1);
+    const second = pool.run(2);
+    workers[0].emit("error", new Error("crashed"));
+    workers[0].emit("error", new Error("crashed again"));
+    workers[0].emit("exit", 1);
+    workers[1].reply(4);
+
+    await expect(first).rejects.toThrow("crashed");
+    await expect(second).resolves.toBe(4);
+    const third = pool.run(3);
+    workers[1].reply(6);
+    await expect(third).resolves.toBe(6);
+    expect(createWorker).toHaveBeenCalledTimes(2);
+    expect(workers[0].terminate).toHaveBeenCalledTimes(1);
+
+    await pool.destroy();
+    expect(() => workers[1].emit("error", new Error("late"))).not.toThrow();
+    expect(workers[1].terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects tasks when a worker cannot be started or replaced", async () => {
+    const workers: FakeWorker[] = [];
+    let failing = true;
+    const createWorker = vi.fn(() => {
+      if (failing) throw new Error("spawn failed");
+      workers.push(new FakeWorker());
+      return workers[workers.length - 1];
+    });
+    const pool = createContextWorkerPool<number, number>({ size: 1, createWorker });
+
+    await expect(pool.run(1)).rejects.toThrow("spawn failed");
+    failing = false;
+    const second = pool.run(2);
+    const third = pool.run(3);
+    failing = true;
+    expect(() => workers[0].emit("exit", 1)).not.toThrow();
+
+    await expect(second).rejects.toThrow("Worker exited with code 1.");
+    await expect(third).rejects.toThrow("spawn failed");
+    failing = false;
+    const fourth = pool.run(4);
+    workers[1].reply(8);
+    await expect(fourth).resolves.toBe(8);
+
+    await pool.destroy();
+  });
+
+  it("rejects the task of a worker that exits and replaces it", async () => {
+    const source = `
+      const { parentPort } = require("node:worker_threads");
+      parentPort.on("message", ({ __asyncContextTask, data }) => {
+        if (data === "exit") process.exit(3);
+        parentPort.postMessage({ __asyncContextTask, result: "ok", perf: [] });
+      });
+    `;
+    const createWorker = vi.fn(() => new Worker(source, { eval: true }));
+    const pool = createContextWorkerPool<string, string>({ size: 1, createWorker });
+
+    await expect(pool.run("exit")).rejects.toThrow("Worker exited with code 3.");
+    await expect(pool.run("work")).resolves.toBe("ok");
+    expect(createWorker).toHaveBeenCalledTimes(2);
+
+    await pool.destroy();
+  });
+
+  it("validates options", () => {
+    expect(() => createContextWorkerPool({ size: 0 })).toThrow(
+      "Worker pool size must be a positive number."
+    );
+    expect(() => handleWorkerTasks(() => undefined)).toThrow(
+      "handleWorkerTasks must be called inside a worker or with a port."
+    );
+  });
+});